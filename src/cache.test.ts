@@ -0,0 +1,369 @@
+import path from "node:path";
+import * as os from "node:os";
+import * as fsp from "node:fs/promises";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createFileSystemCacheStore,
+  createMemoryCacheStore,
+  isCacheStore,
+} from "./cache";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fsp.mkdtemp(path.join(os.tmpdir(), "pixel-serve-cache-"));
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await fsp.rm(dir, { recursive: true, force: true });
+});
+
+const entryFiles = async (): Promise<string[]> =>
+  (await fsp.readdir(dir)).filter((name) => name.endsWith(".bin"));
+
+describe("createFileSystemCacheStore", () => {
+  it("round-trips a variant's bytes and format", async () => {
+    const cache = createFileSystemCacheStore({
+      dir,
+      maxBytes: 1024,
+      maxAgeMs: 60_000,
+    });
+    const body = Buffer.from("encoded-bytes");
+    await cache.set("key-a", { body, format: "webp" });
+
+    const hit = await cache.get("key-a");
+    expect(hit?.format).toBe("webp");
+    expect(hit?.body.equals(body)).toBe(true);
+  });
+
+  it("resolves undefined for an unknown key", async () => {
+    const cache = createFileSystemCacheStore({
+      dir,
+      maxBytes: 1024,
+      maxAgeMs: 60_000,
+    });
+    expect(await cache.get("missing")).toBeUndefined();
+  });
+
+  it("creates the cache directory on first use", async () => {
+    const nested = path.join(dir, "a", "b");
+    const cache = createFileSystemCacheStore({
+      dir: nested,
+      maxBytes: 1024,
+      maxAgeMs: 60_000,
+    });
+    await cache.set("k", { body: Buffer.from("x"), format: "png" });
+    expect((await fsp.stat(nested)).isDirectory()).toBe(true);
+  });
+
+  it("never writes caller keys into the filename verbatim", async () => {
+    const cache = createFileSystemCacheStore({
+      dir,
+      maxBytes: 1024,
+      maxAgeMs: 60_000,
+    });
+    await cache.set("../../escape", { body: Buffer.from("x"), format: "png" });
+    const files = await entryFiles();
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/^[0-9a-f]{64}\.bin$/);
+  });
+
+  it("treats an entry older than maxAgeMs as a miss and unlinks it", async () => {
+    const cache = createFileSystemCacheStore({
+      dir,
+      maxBytes: 1024,
+      maxAgeMs: 1_000,
+    });
+    await cache.set("old", { body: Buffer.from("x"), format: "png" });
+    const realNow = Date.now();
+    vi.spyOn(Date, "now").mockReturnValue(realNow + 5_000);
+
+    expect(await cache.get("old")).toBeUndefined();
+    expect(await entryFiles()).toHaveLength(0);
+  });
+
+  it("evicts the least-recently-used entries once maxBytes is exceeded", async () => {
+    // Each entry is 4 (magic) + 4 (length) + header + 100 body bytes, so a
+    // 300-byte budget holds two entries but not three.
+    const cache = createFileSystemCacheStore({
+      dir,
+      maxBytes: 300,
+      maxAgeMs: 60_000,
+    });
+    const body = Buffer.alloc(100, 1);
+    await cache.set("first", { body, format: "png" });
+    await cache.set("second", { body, format: "png" });
+    // Touch "first" so "second" becomes the least recently used entry.
+    expect(await cache.get("first")).toBeDefined();
+    await cache.set("third", { body, format: "png" });
+
+    expect(await cache.get("second")).toBeUndefined();
+    expect(await cache.get("first")).toBeDefined();
+    expect(await cache.get("third")).toBeDefined();
+    expect(await entryFiles()).toHaveLength(2);
+  });
+
+  it("skips an entry that alone exceeds maxBytes", async () => {
+    const cache = createFileSystemCacheStore({
+      dir,
+      maxBytes: 50,
+      maxAgeMs: 60_000,
+    });
+    await cache.set("huge", { body: Buffer.alloc(100), format: "png" });
+    expect(await cache.get("huge")).toBeUndefined();
+    expect(await entryFiles()).toHaveLength(0);
+  });
+
+  it("rejects on a corrupt entry and removes the file", async () => {
+    const cache = createFileSystemCacheStore({
+      dir,
+      maxBytes: 1024,
+      maxAgeMs: 60_000,
+    });
+    await cache.set("k", { body: Buffer.from("x"), format: "png" });
+    const [file] = await entryFiles();
+    await fsp.writeFile(path.join(dir, file!), "garbage");
+
+    await expect(cache.get("k")).rejects.toThrow(/unrecognized header/);
+    expect(await entryFiles()).toHaveLength(0);
+  });
+
+  it("rejects on a truncated entry", async () => {
+    const cache = createFileSystemCacheStore({
+      dir,
+      maxBytes: 1024,
+      maxAgeMs: 60_000,
+    });
+    await cache.set("k", { body: Buffer.from("x"), format: "png" });
+    const [file] = await entryFiles();
+    const raw = await fsp.readFile(path.join(dir, file!));
+    // Claim a header far longer than the file actually is.
+    raw.writeUInt32BE(10_000, 4);
+    await fsp.writeFile(path.join(dir, file!), raw);
+
+    await expect(cache.get("k")).rejects.toThrow(/truncated/);
+  });
+
+  it("rejects on an entry whose header carries no format", async () => {
+    const cache = createFileSystemCacheStore({
+      dir,
+      maxBytes: 1024,
+      maxAgeMs: 60_000,
+    });
+    await cache.set("k", { body: Buffer.from("x"), format: "png" });
+    const [file] = await entryFiles();
+    const header = Buffer.from("{}");
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(header.length, 0);
+    await fsp.writeFile(
+      path.join(dir, file!),
+      Buffer.concat([Buffer.from("PXC2"), length, header]),
+    );
+
+    await expect(cache.get("k")).rejects.toThrow(/missing its format/);
+  });
+
+  it("reads entries written by another instance sharing the directory", async () => {
+    const writer = createFileSystemCacheStore({
+      dir,
+      maxBytes: 1024,
+      maxAgeMs: 60_000,
+    });
+    await writer.set("shared", { body: Buffer.from("x"), format: "avif" });
+
+    const reader = createFileSystemCacheStore({
+      dir,
+      maxBytes: 1024,
+      maxAgeMs: 60_000,
+    });
+    expect((await reader.get("shared"))?.format).toBe("avif");
+  });
+
+  it("counts pre-existing entries toward maxBytes when it starts", async () => {
+    const body = Buffer.alloc(100, 2);
+    const first = createFileSystemCacheStore({
+      dir,
+      maxBytes: 1024,
+      maxAgeMs: 60_000,
+    });
+    await first.set("a", { body, format: "png" });
+    await first.set("b", { body, format: "png" });
+
+    // A fresh instance with a tighter budget must see the two existing
+    // entries during its startup scan and trim them on its first write.
+    const second = createFileSystemCacheStore({
+      dir,
+      maxBytes: 250,
+      maxAgeMs: 60_000,
+    });
+    await second.set("c", { body, format: "png" });
+    expect(await entryFiles()).toHaveLength(2);
+    expect(await second.get("c")).toBeDefined();
+  });
+
+  it("deletes an entry on request", async () => {
+    const cache = createFileSystemCacheStore({
+      dir,
+      maxBytes: 1024,
+      maxAgeMs: 60_000,
+    });
+    await cache.set("k", { body: Buffer.from("x"), format: "png" });
+    await cache.delete("k");
+    expect(await cache.get("k")).toBeUndefined();
+    // Deleting an absent key is a no-op.
+    await expect(cache.delete("k")).resolves.toBeUndefined();
+  });
+
+  it("cleans up its temp file and rejects when the write fails", async () => {
+    const cache = createFileSystemCacheStore({
+      dir,
+      maxBytes: 1024,
+      maxAgeMs: 60_000,
+    });
+    // Force the first use so the index scan succeeds, then make the
+    // directory disappear underneath the writer.
+    expect(await cache.get("warm")).toBeUndefined();
+    await fsp.rm(dir, { recursive: true, force: true });
+
+    await expect(
+      cache.set("k", { body: Buffer.from("x"), format: "png" }),
+    ).rejects.toThrow();
+  });
+
+  it("retries the startup scan after a failed first attempt", async () => {
+    // A regular file where the directory should be makes `mkdir` fail.
+    const blocked = path.join(dir, "blocked");
+    await fsp.writeFile(blocked, "not a directory");
+    const cache = createFileSystemCacheStore({
+      dir: blocked,
+      maxBytes: 1024,
+      maxAgeMs: 60_000,
+    });
+    await expect(cache.get("k")).rejects.toThrow();
+
+    await fsp.rm(blocked);
+    await cache.set("k", { body: Buffer.from("x"), format: "png" });
+    expect(await cache.get("k")).toBeDefined();
+  });
+
+  it("expires an entry once its per-entry ttlMs has passed", async () => {
+    const cache = createFileSystemCacheStore({
+      dir,
+      maxBytes: 1024,
+      maxAgeMs: 60_000,
+    });
+    await cache.set("k", { body: Buffer.from("x"), format: "png" }, 1_000);
+    expect(await cache.has("k")).toBe(true);
+    const realNow = Date.now();
+    vi.spyOn(Date, "now").mockReturnValue(realNow + 2_000);
+
+    expect(await cache.has("k")).toBe(false);
+    expect(await cache.get("k")).toBeUndefined();
+    expect(await entryFiles()).toHaveLength(0);
+  });
+
+  it("answers has() without treating a corrupt entry as present", async () => {
+    const cache = createFileSystemCacheStore({
+      dir,
+      maxBytes: 1024,
+      maxAgeMs: 60_000,
+    });
+    expect(await cache.has("k")).toBe(false);
+    await cache.set("k", { body: Buffer.from("x"), format: "png" });
+    expect(await cache.has("k")).toBe(true);
+    const [file] = await entryFiles();
+    await fsp.writeFile(path.join(dir, file!), "garbage");
+    expect(await cache.has("k")).toBe(false);
+  });
+});
+
+describe("createMemoryCacheStore", () => {
+  const variant = (bytes: number): { body: Buffer; format: "png" } => ({
+    body: Buffer.alloc(bytes),
+    format: "png",
+  });
+
+  it("returns stored variants and tracks their total size", () => {
+    const cache = createMemoryCacheStore({ maxBytes: 100 });
+    cache.set("a", variant(30));
+    cache.set("b", variant(20));
+    expect(cache.get("a")?.body.length).toBe(30);
+    expect(cache.size()).toBe(50);
+    expect(cache.get("missing")).toBeUndefined();
+  });
+
+  it("evicts least-recently-used entries by byte budget, not entry count", () => {
+    const cache = createMemoryCacheStore({ maxBytes: 100 });
+    cache.set("a", variant(40));
+    cache.set("b", variant(40));
+    // Touch "a" so "b" is now the least recently used.
+    cache.get("a");
+    cache.set("c", variant(40));
+
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("a")).toBeDefined();
+    expect(cache.get("c")).toBeDefined();
+    expect(cache.size()).toBe(80);
+  });
+
+  it("evicts as many entries as needed to fit a large insert", () => {
+    const cache = createMemoryCacheStore({ maxBytes: 100 });
+    for (const key of ["a", "b", "c", "d"]) cache.set(key, variant(25));
+    cache.set("big", variant(90));
+    expect(cache.size()).toBe(90);
+    expect(cache.get("d")).toBeUndefined();
+  });
+
+  it("refuses a single body larger than the budget", () => {
+    const cache = createMemoryCacheStore({ maxBytes: 10 });
+    cache.set("huge", variant(11));
+    expect(cache.get("huge")).toBeUndefined();
+    expect(cache.size()).toBe(0);
+  });
+
+  it("replaces an existing key without double-counting its bytes", () => {
+    const cache = createMemoryCacheStore({ maxBytes: 100 });
+    cache.set("a", variant(30));
+    cache.set("a", variant(50));
+    expect(cache.size()).toBe(50);
+    cache.delete("a");
+    cache.delete("a");
+    expect(cache.size()).toBe(0);
+  });
+  it("expires an entry once its per-entry ttlMs has passed", () => {
+    const cache = createMemoryCacheStore({ maxBytes: 100 });
+    cache.set("a", variant(10), 1_000);
+    cache.set("b", variant(10));
+    expect(cache.has("a")).toBe(true);
+    const realNow = Date.now();
+    vi.spyOn(Date, "now").mockReturnValue(realNow + 2_000);
+
+    expect(cache.has("a")).toBe(false);
+    expect(cache.get("a")).toBeUndefined();
+    expect(cache.has("b")).toBe(true);
+    expect(cache.size()).toBe(10);
+  });
+});
+
+describe("isCacheStore", () => {
+  it("accepts the built-in stores and any object with the four methods", () => {
+    expect(isCacheStore(createMemoryCacheStore({ maxBytes: 1 }))).toBe(true);
+    expect(
+      isCacheStore({
+        get: () => undefined,
+        set: () => undefined,
+        delete: () => undefined,
+        has: () => false,
+      }),
+    ).toBe(true);
+  });
+
+  it("rejects values missing a method", () => {
+    expect(isCacheStore(undefined)).toBe(false);
+    expect(isCacheStore({ get: () => undefined })).toBe(false);
+    expect(
+      isCacheStore({ get: 1, set: () => 1, delete: () => 1, has: () => 1 }),
+    ).toBe(false);
+  });
+});
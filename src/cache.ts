@@ -0,0 +1,415 @@
+import path from "node:path";
+import type { Stats } from "node:fs";
+import * as fs from "node:fs/promises";
+import { createHash, randomBytes } from "node:crypto";
+import type { PixelServeCacheEntry, PixelServeCacheStore } from "./types";
+
+/**
+ * Bundled in-process store. Narrows every `PixelServeCacheStore` method to
+ * its synchronous form: a hit costs one `Map` lookup and re-insertion, with
+ * no I/O between the ETag computation and the response.
+ */
+export type MemoryCacheStore = {
+  get: (key: string) => PixelServeCacheEntry | undefined;
+  set: (key: string, entry: PixelServeCacheEntry, ttlMs?: number) => void;
+  delete: (key: string) => void;
+  has: (key: string) => boolean;
+  /** Total body bytes currently held; exposed for tests and metrics. */
+  size: () => number;
+};
+
+/**
+ * Bundled filesystem store. `get` resolves to `undefined` on a miss (absent
+ * or expired entry) and rejects when an entry exists but cannot be decoded
+ * — the corrupt file is unlinked first. `set` persists an entry, runs
+ * eviction, and rejects when the write fails. The middleware reports either
+ * rejection through `onError` and carries on as a cache miss.
+ */
+export type FileSystemCacheStore = {
+  get: (key: string) => Promise<PixelServeCacheEntry | undefined>;
+  set: (
+    key: string,
+    entry: PixelServeCacheEntry,
+    ttlMs?: number,
+  ) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+  has: (key: string) => Promise<boolean>;
+};
+
+/**
+ * Magic prefix of an on-disk cache entry. Bumping the trailing digit
+ * invalidates every entry written by an older layout: a file whose header
+ * does not match is treated as corrupt, deleted, and re-rendered.
+ */
+const ENTRY_MAGIC = Buffer.from("PXC2", "latin1");
+const ENTRY_PREFIX_LENGTH = ENTRY_MAGIC.length + 4;
+const ENTRY_SUFFIX = ".bin";
+
+/** Metadata stored ahead of the body in every on-disk entry. */
+type EntryHeader = {
+  format: PixelServeCacheEntry["format"];
+  /** Absolute expiry (epoch ms) derived from the `ttlMs` passed to `set`. */
+  expiresAt?: number;
+};
+
+/**
+ * Serializes an entry as `PXC2 | uint32be headerLength | JSON header |
+ * body`. A single file per entry keeps the write atomic (one `rename`) and
+ * the size accounting exact — there is no sidecar metadata file that could
+ * outlive or be orphaned from its body.
+ */
+const encodeEntry = (
+  entry: PixelServeCacheEntry,
+  expiresAt?: number,
+): Buffer => {
+  const header: EntryHeader = { format: entry.format, expiresAt };
+  const headerBytes = Buffer.from(JSON.stringify(header));
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(headerBytes.length, 0);
+  return Buffer.concat([ENTRY_MAGIC, length, headerBytes, entry.body]);
+};
+
+/**
+ * Parses the header of an encoded entry. Accepts either the whole file or
+ * just its leading bytes, so `has` can validate an entry without reading
+ * the body. Returns the header plus the offset at which the body starts.
+ */
+const decodeHeader = (
+  raw: Buffer,
+): { header: EntryHeader; bodyStart: number } => {
+  if (
+    raw.length < ENTRY_PREFIX_LENGTH ||
+    !raw.subarray(0, ENTRY_MAGIC.length).equals(ENTRY_MAGIC)
+  ) {
+    throw new Error("disk cache entry has an unrecognized header");
+  }
+  const headerLength = raw.readUInt32BE(ENTRY_MAGIC.length);
+  const bodyStart = ENTRY_PREFIX_LENGTH + headerLength;
+  if (bodyStart > raw.length) {
+    throw new Error("disk cache entry is truncated");
+  }
+  const header = JSON.parse(
+    raw.subarray(ENTRY_PREFIX_LENGTH, bodyStart).toString("utf8"),
+  ) as Partial<EntryHeader>;
+  if (typeof header.format !== "string") {
+    throw new Error("disk cache entry header is missing its format");
+  }
+  return {
+    header: { format: header.format, expiresAt: header.expiresAt },
+    bodyStart,
+  };
+};
+
+/**
+ * Upper bound on the JSON header a `has` probe will read. The header only
+ * ever carries a format name and a timestamp, so anything larger is corrupt.
+ */
+const MAX_HEADER_BYTES = 1024;
+
+const isExpired = (expiresAt: number | undefined): boolean =>
+  expiresAt !== undefined && Date.now() >= expiresAt;
+
+/**
+ * Maps an arbitrary cache key onto a fixed-length, filesystem-safe name.
+ * The middleware's keys are already hex digests, but hashing again means a
+ * caller-supplied key can never smuggle a separator or `..` into the path.
+ */
+const entryFileName = (key: string): string =>
+  `${createHash("sha256").update(key).digest("hex")}${ENTRY_SUFFIX}`;
+
+/**
+ * Creates a persistent cache store rooted at `dir`. Backs the `diskCache`
+ * option and is exported for use as a `cacheStore`.
+ *
+ * Entries leave the cache in three ways:
+ *
+ *  - **TTL.** An entry written with a `ttlMs` is a miss once that much time
+ *    has passed since the write, regardless of how often it was hit.
+ *  - **Age.** An entry whose last write or hit is older than `maxAgeMs` is
+ *    treated as a miss and unlinked the next time it is read or the next
+ *    time eviction runs. Hits refresh the entry's `mtime`, so a popular
+ *    variant stays resident while an abandoned one ages out.
+ *  - **Size.** After every write the store trims the least-recently-used
+ *    entries until the total on-disk size is at or below `maxBytes`. A
+ *    single entry larger than `maxBytes` is never written.
+ *
+ * The size index is built lazily from a directory scan on first use and is
+ * maintained in-process afterwards. Several processes may share one
+ * directory — each one reads the others' entries — but each enforces
+ * `maxBytes` against its own view, so the directory can briefly overshoot
+ * the budget until the next write in a process that has seen the growth.
+ */
+export const createFileSystemCacheStore = (options: {
+  dir: string;
+  maxBytes?: number;
+  maxAgeMs?: number;
+}): FileSystemCacheStore => {
+  const dir = path.resolve(options.dir);
+  const maxBytes = options.maxBytes ?? Number.POSITIVE_INFINITY;
+  const maxAgeMs = options.maxAgeMs ?? Number.POSITIVE_INFINITY;
+  // Insertion-ordered oldest → newest so eviction walks from the front.
+  const index = new Map<string, { size: number; mtimeMs: number }>();
+  let totalBytes = 0;
+  let indexReady: Promise<void> | undefined;
+
+  const forget = (name: string): void => {
+    const entry = index.get(name);
+    if (!entry) return;
+    totalBytes -= entry.size;
+    index.delete(name);
+  };
+
+  const remember = (name: string, size: number, mtimeMs: number): void => {
+    forget(name);
+    index.set(name, { size, mtimeMs });
+    totalBytes += size;
+  };
+
+  const unlink = async (name: string): Promise<void> => {
+    forget(name);
+    try {
+      await fs.unlink(path.join(dir, name));
+    } catch {
+      // Already gone (another process evicted it) — nothing to do.
+    }
+  };
+
+  const ensureIndex = (): Promise<void> => {
+    // Coalesce the first-use scan so a burst of cold requests pays for one
+    // `readdir` rather than one per request.
+    if (!indexReady) {
+      indexReady = (async (): Promise<void> => {
+        await fs.mkdir(dir, { recursive: true });
+        const names = (await fs.readdir(dir)).filter((name) =>
+          name.endsWith(ENTRY_SUFFIX),
+        );
+        const stats = await Promise.all(
+          names.map(async (name) => {
+            try {
+              const stat = await fs.stat(path.join(dir, name));
+              return { name, size: stat.size, mtimeMs: stat.mtimeMs };
+            } catch {
+              return null;
+            }
+          }),
+        );
+        for (const entry of stats
+          .filter((s): s is NonNullable<typeof s> => s !== null)
+          .sort((a, b) => a.mtimeMs - b.mtimeMs)) {
+          remember(entry.name, entry.size, entry.mtimeMs);
+        }
+      })().catch((err: unknown) => {
+        // Let the next call retry the scan (e.g. the directory was created
+        // by an operator after a failed first attempt).
+        indexReady = undefined;
+        throw err;
+      });
+    }
+    return indexReady;
+  };
+
+  const evict = async (): Promise<void> => {
+    const cutoff = Date.now() - maxAgeMs;
+    const victims: string[] = [];
+    let projected = totalBytes;
+    for (const [name, entry] of index) {
+      if (entry.mtimeMs < cutoff || projected > maxBytes) {
+        victims.push(name);
+        projected -= entry.size;
+      }
+    }
+    await Promise.all(victims.map((name) => unlink(name)));
+  };
+
+  /**
+   * Stats an entry and applies the age rule. Resolves to the stat of a live
+   * entry, or `undefined` after forgetting/unlinking a missing or aged one.
+   */
+  const statLive = async (name: string): Promise<Stats | undefined> => {
+    let stat: Stats;
+    try {
+      stat = await fs.stat(path.join(dir, name));
+    } catch {
+      forget(name);
+      return undefined;
+    }
+    if (Date.now() - stat.mtimeMs > maxAgeMs) {
+      await unlink(name);
+      return undefined;
+    }
+    return stat;
+  };
+
+  const get = async (
+    key: string,
+  ): Promise<PixelServeCacheEntry | undefined> => {
+    await ensureIndex();
+    const name = entryFileName(key);
+    const file = path.join(dir, name);
+    const stat = await statLive(name);
+    if (!stat) return undefined;
+    let entry: PixelServeCacheEntry;
+    try {
+      const raw = await fs.readFile(file);
+      const { header, bodyStart } = decodeHeader(raw);
+      if (isExpired(header.expiresAt)) {
+        await unlink(name);
+        return undefined;
+      }
+      entry = { body: raw.subarray(bodyStart), format: header.format };
+    } catch (err) {
+      await unlink(name);
+      throw err;
+    }
+    const now = new Date();
+    remember(name, stat.size, now.getTime());
+    try {
+      await fs.utimes(file, now, now);
+    } catch {
+      // Best-effort recency bump; a failure only makes the entry age out
+      // sooner than it otherwise would.
+    }
+    return entry;
+  };
+
+  const has = async (key: string): Promise<boolean> => {
+    await ensureIndex();
+    const name = entryFileName(key);
+    if (!(await statLive(name))) return false;
+    // Read only the header so the TTL can be checked without pulling the
+    // body into memory.
+    let handle: fs.FileHandle | undefined;
+    try {
+      handle = await fs.open(path.join(dir, name), "r");
+      const probe = Buffer.alloc(ENTRY_PREFIX_LENGTH + MAX_HEADER_BYTES);
+      const { bytesRead } = await handle.read(probe, 0, probe.length, 0);
+      const { header } = decodeHeader(probe.subarray(0, bytesRead));
+      return !isExpired(header.expiresAt);
+    } catch {
+      return false;
+    } finally {
+      await handle?.close();
+    }
+  };
+
+  const set = async (
+    key: string,
+    entry: PixelServeCacheEntry,
+    ttlMs?: number,
+  ): Promise<void> => {
+    await ensureIndex();
+    const encoded = encodeEntry(
+      entry,
+      ttlMs === undefined ? undefined : Date.now() + ttlMs,
+    );
+    if (encoded.length > maxBytes) return;
+    const name = entryFileName(key);
+    const file = path.join(dir, name);
+    // Write-then-rename so a concurrent reader (in this or another process)
+    // never observes a half-written entry.
+    const tmp = `${file}.${randomBytes(6).toString("hex")}.tmp`;
+    try {
+      await fs.writeFile(tmp, encoded);
+      await fs.rename(tmp, file);
+    } catch (err) {
+      await fs.rm(tmp, { force: true });
+      throw err;
+    }
+    remember(name, encoded.length, Date.now());
+    await evict();
+  };
+
+  const remove = async (key: string): Promise<void> => {
+    await ensureIndex();
+    await unlink(entryFileName(key));
+  };
+
+  return { get, set, delete: remove, has };
+};
+
+/**
+ * Creates an in-process LRU store bounded by the total size of the stored
+ * bodies rather than by entry count — one 4000px AVIF and a thousand 48px
+ * avatars should not be budgeted the same. Backs the `memoryCache` option
+ * and is exported for use as a `cacheStore`.
+ *
+ * Recency lives in the `Map`'s insertion order: a hit deletes and
+ * re-inserts its entry, and eviction removes from the front until the
+ * budget is met. A single body larger than `maxBytes` is never stored. An
+ * entry written with a `ttlMs` is dropped on the first lookup after it
+ * expires.
+ */
+export const createMemoryCacheStore = (options: {
+  maxBytes: number;
+}): MemoryCacheStore => {
+  const entries = new Map<
+    string,
+    { entry: PixelServeCacheEntry; expiresAt?: number }
+  >();
+  let totalBytes = 0;
+
+  const remove = (key: string): void => {
+    const slot = entries.get(key);
+    if (!slot) return;
+    totalBytes -= slot.entry.body.length;
+    entries.delete(key);
+  };
+
+  const lookup = (
+    key: string,
+  ): { entry: PixelServeCacheEntry; expiresAt?: number } | undefined => {
+    const slot = entries.get(key);
+    if (!slot) return undefined;
+    if (isExpired(slot.expiresAt)) {
+      remove(key);
+      return undefined;
+    }
+    return slot;
+  };
+
+  const get = (key: string): PixelServeCacheEntry | undefined => {
+    const slot = lookup(key);
+    if (!slot) return undefined;
+    entries.delete(key);
+    entries.set(key, slot);
+    return slot.entry;
+  };
+
+  const set = (
+    key: string,
+    entry: PixelServeCacheEntry,
+    ttlMs?: number,
+  ): void => {
+    remove(key);
+    if (entry.body.length > options.maxBytes) return;
+    entries.set(key, {
+      entry,
+      expiresAt: ttlMs === undefined ? undefined : Date.now() + ttlMs,
+    });
+    totalBytes += entry.body.length;
+    for (const oldest of entries.keys()) {
+      if (totalBytes <= options.maxBytes) break;
+      remove(oldest);
+    }
+  };
+
+  return {
+    get,
+    set,
+    delete: remove,
+    has: (key) => lookup(key) !== undefined,
+    size: () => totalBytes,
+  };
+};
+
+/**
+ * Type guard used by `optionsSchema` to accept a `cacheStore`. Only checks
+ * the method shape — behavior is the implementation's responsibility.
+ */
+export const isCacheStore = (value: unknown): value is PixelServeCacheStore =>
+  typeof value === "object" &&
+  value !== null &&
+  (["get", "set", "delete", "has"] as const).every(
+    (method) =>
+      typeof (value as Record<string, unknown>)[method] === "function",
+  );
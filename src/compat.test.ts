@@ -0,0 +1,218 @@
+import { describe, expect, it } from "vitest";
+import { readCompatPath, translateCompatParams } from "./compat";
+import { userDataSchema } from "./schema";
+
+describe("translateCompatParams imgix", () => {
+  it("renames dimensions, quality, format and dpr", () => {
+    expect(
+      translateCompatParams(
+        { src: "a.jpg", w: "300", h: "200", q: "70", fm: "pjpg", dpr: "2" },
+        "imgix",
+      ),
+    ).toEqual({
+      params: {
+        src: "a.jpg",
+        width: "300",
+        height: "200",
+        quality: "70",
+        format: "jpeg",
+        dpr: "2",
+      },
+      unsupported: [],
+    });
+  });
+
+  it("maps fit modes, upscaling only where imgix does", () => {
+    expect(translateCompatParams({ fit: "crop" }, "imgix").params).toEqual({
+      fit: "cover",
+      enlarge: "true",
+    });
+    expect(translateCompatParams({ fit: "max" }, "imgix").params).toEqual({
+      fit: "inside",
+    });
+    expect(translateCompatParams({ fit: "facearea" }, "imgix")).toEqual({
+      params: {},
+      unsupported: ["fit=facearea"],
+    });
+  });
+
+  it("uses auto=format unless fm is explicit", () => {
+    expect(translateCompatParams({ auto: "format,compress" }, "imgix")).toEqual(
+      { params: { format: "auto" }, unsupported: ["auto=compress"] },
+    );
+    expect(
+      translateCompatParams({ fm: "webp", auto: "format" }, "imgix").params,
+    ).toEqual({ format: "webp" });
+  });
+
+  it("combines directional crops and reports faces and edges", () => {
+    expect(translateCompatParams({ crop: "faces,top,left" }, "imgix")).toEqual({
+      params: { position: "northwest" },
+      unsupported: ["crop=faces"],
+    });
+    expect(
+      translateCompatParams({ crop: "bottom" }, "imgix").params.position,
+    ).toBe("south");
+    expect(translateCompatParams({ crop: "right,edges" }, "imgix")).toEqual({
+      params: { position: "east" },
+      unsupported: ["crop=edges"],
+    });
+    expect(
+      translateCompatParams({ crop: "entropy,top" }, "imgix").params.position,
+    ).toBe("entropy");
+  });
+
+  it("reads focal points only under crop=focalpoint", () => {
+    expect(
+      translateCompatParams(
+        { crop: "focalpoint", "fp-x": "0.2", "fp-y": "0.8" },
+        "imgix",
+      ),
+    ).toEqual({ params: { fx: "0.2", fy: "0.8" }, unsupported: [] });
+    expect(translateCompatParams({ "fp-x": "0.2" }, "imgix")).toEqual({
+      params: {},
+      unsupported: ["fp-x=0.2"],
+    });
+  });
+
+  it("moves the alpha digits of fill-color to the end", () => {
+    const color = (value: string): unknown =>
+      translateCompatParams({ "fill-color": value }, "imgix").params.background;
+    expect(color("80ff0000")).toBe("ff000080");
+    expect(color("#8f00")).toBe("f008");
+    expect(color("00ff00")).toBe("00ff00");
+    expect(
+      translateCompatParams({ "fill-color": "red" }, "imgix").unsupported,
+    ).toEqual(["fill-color=red"]);
+  });
+
+  it("turns rect into a crop rectangle the schema accepts", () => {
+    const { params } = translateCompatParams(
+      { src: "a.jpg", rect: "10,20,100,50" },
+      "imgix",
+    );
+    expect(userDataSchema.parse(params).crop).toEqual({
+      x: { value: 10, unit: "px" },
+      y: { value: 20, unit: "px" },
+      width: { value: 100, unit: "px" },
+      height: { value: 50, unit: "px" },
+    });
+  });
+
+  it("keeps the native source and access parameters", () => {
+    const native = {
+      src: "a.jpg",
+      folder: "private",
+      type: "avatar",
+      userId: "u1",
+      signature: "sig",
+      expires: "1800000000",
+      preset: "thumb",
+    };
+    expect(translateCompatParams(native, "imgix")).toEqual({
+      params: native,
+      unsupported: [],
+    });
+  });
+
+  it("reports unknown, native transformation and repeated parameters", () => {
+    expect(
+      translateCompatParams(
+        { src: "a.jpg", blur: "20", width: "300", w: ["1", "2"] },
+        "imgix",
+      ),
+    ).toEqual({
+      params: { src: "a.jpg" },
+      unsupported: ["blur", "width", "w"],
+    });
+  });
+});
+
+describe("translateCompatParams cloudinary", () => {
+  it("maps crop modes, gravity, format and background", () => {
+    expect(
+      translateCompatParams(
+        {
+          w: "300",
+          h: "200",
+          c: "fill",
+          g: "north_east",
+          f: "auto",
+          b: "rgb:00ff00",
+          dpr: "2",
+        },
+        "cloudinary",
+      ),
+    ).toEqual({
+      params: {
+        width: "300",
+        height: "200",
+        fit: "cover",
+        enlarge: "true",
+        position: "northeast",
+        format: "auto",
+        background: "00ff00",
+        dpr: "2",
+      },
+      unsupported: [],
+    });
+    expect(translateCompatParams({ c: "limit" }, "cloudinary").params).toEqual({
+      fit: "inside",
+    });
+    expect(
+      translateCompatParams({ g: "auto" }, "cloudinary").params.position,
+    ).toBe("attention");
+  });
+
+  it("leaves quality to the server for q_auto", () => {
+    expect(translateCompatParams({ q: "auto" }, "cloudinary").params).toEqual(
+      {},
+    );
+    expect(
+      translateCompatParams({ q: "auto:good" }, "cloudinary").params,
+    ).toEqual({});
+    expect(translateCompatParams({ q: "60" }, "cloudinary").params).toEqual({
+      quality: "60",
+    });
+  });
+
+  it("reports values and parameters without an equivalent", () => {
+    expect(
+      translateCompatParams(
+        { c: "thumb", g: "face", f: "jp2", b: "red", e: "blur", fm: "png" },
+        "cloudinary",
+      ).unsupported,
+    ).toEqual(["c=thumb", "g=face", "f=jp2", "b=red", "e", "fm"]);
+  });
+});
+
+describe("readCompatPath", () => {
+  it("takes the imgix source from the whole path and the rest from the query", () => {
+    expect(
+      readCompatPath(
+        "/uploads/my%20cat.jpg",
+        { w: "300", src: "ignored.jpg" },
+        "imgix",
+      ),
+    ).toEqual({ w: "300", src: "uploads/my cat.jpg" });
+    expect(() => readCompatPath("/", {}, "imgix")).toThrow();
+  });
+
+  it("reads a Cloudinary transformation segment", () => {
+    expect(
+      readCompatPath(
+        "/w_300,c_fill,g_north_west/uploads/cat.jpg",
+        { w: "1" },
+        "cloudinary",
+      ),
+    ).toEqual({
+      w: "300",
+      c: "fill",
+      g: "north_west",
+      src: "uploads/cat.jpg",
+    });
+    expect(() => readCompatPath("/w_1,w_2/a.jpg", {}, "cloudinary")).toThrow(
+      'path option "w" is repeated',
+    );
+  });
+});
@@ -0,0 +1,314 @@
+import type { ImageFit, ImageFormat, PixelServeCompat } from "./types";
+import { decodePixelPathSrc, splitPixelPath } from "./paths";
+
+/**
+ * Translates one foreign parameter, writing native parameters into `out`.
+ * Returns the `name=value` descriptors it could not express (empty when
+ * the value was fully understood). `params` is the whole incoming record,
+ * for parameters whose meaning depends on another.
+ */
+type Translate = (
+  value: string,
+  out: Record<string, unknown>,
+  params: Record<string, unknown>,
+) => string[];
+
+/**
+ * The result of `translateCompatParams`: native parameters ready for
+ * `userDataSchema`, and every foreign parameter (or parameter value) that
+ * had no native equivalent and was left out.
+ */
+export type CompatTranslation = {
+  params: Record<string, unknown>;
+  unsupported: string[];
+};
+
+/**
+ * Native parameters that carry through unchanged under either vocabulary:
+ * the ones that pick the source or authorize the request rather than
+ * shape the output, so migrated URLs can still be signed, expired, scoped
+ * to a user folder or pointed at a preset.
+ */
+const PASSTHROUGH_PARAMS = new Set([
+  "src",
+  "folder",
+  "type",
+  "userId",
+  "signature",
+  "expires",
+  "preset",
+]);
+
+/** Copies the value to a native parameter as-is; the schema validates it. */
+const rename =
+  (name: string): Translate =>
+  (value, out) => {
+    out[name] = value;
+    return [];
+  };
+
+/** Maps the value through `table`; anything not in it is unsupported. */
+const lookup =
+  <T extends Record<string, unknown>>(
+    param: string,
+    table: Record<string, T>,
+  ): Translate =>
+  (value, out) => {
+    const native = Object.hasOwn(table, value) ? table[value] : undefined;
+    if (!native) return [`${param}=${value}`];
+    Object.assign(out, native);
+    return [];
+  };
+
+/** `fit` plus whether the foreign mode scales small sources up. */
+const fitMode = (
+  fit: ImageFit,
+  enlarge: boolean,
+): { fit: ImageFit; enlarge?: "true" } =>
+  enlarge ? { fit, enlarge: "true" } : { fit };
+
+const format = (value: ImageFormat | "auto"): { format: string } => ({
+  format: value,
+});
+
+/**
+ * imgix `fit` modes. The `max`, `min` and `fillmax` variants are the ones
+ * imgix documents as never upscaling.
+ */
+const IMGIX_FITS = {
+  crop: fitMode("cover", true),
+  min: fitMode("cover", false),
+  clip: fitMode("inside", true),
+  max: fitMode("inside", false),
+  fill: fitMode("contain", true),
+  fillmax: fitMode("contain", false),
+  scale: fitMode("fill", true),
+};
+
+const IMGIX_FORMATS = {
+  jpg: format("jpg"),
+  pjpg: format("jpeg"),
+  png: format("png"),
+  png8: format("png"),
+  png32: format("png"),
+  webp: format("webp"),
+  avif: format("avif"),
+  gif: format("gif"),
+};
+
+/**
+ * imgix hex colors put alpha first (`ARGB`, `AARRGGBB`); `background`
+ * expects it last.
+ */
+const imgixColor: Translate = (value, out) => {
+  const hex = value.replace(/^#/, "");
+  if (!/^[0-9a-f]+$/i.test(hex) || ![3, 4, 6, 8].includes(hex.length)) {
+    return [`fill-color=${value}`];
+  }
+  const alphaDigits = hex.length === 4 ? 1 : hex.length === 8 ? 2 : 0;
+  out.background = hex.slice(alphaDigits) + hex.slice(0, alphaDigits);
+  return [];
+};
+
+const IMGIX_CROP_MODES = new Set([
+  "top",
+  "bottom",
+  "left",
+  "right",
+  "focalpoint",
+  "entropy",
+]);
+
+/**
+ * imgix `crop` lists strategies in priority order; the first one with a
+ * native equivalent wins. `top`/`bottom`/`left`/`right` combine into a
+ * compass `position`; `focalpoint` uses `fp-x`/`fp-y`. `faces` and `edges`
+ * have no equivalent and are reported even when a later entry applies.
+ */
+const imgixCrop: Translate = (value, out, params) => {
+  const unsupported: string[] = [];
+  const modes = value.split(",").map((mode) => mode.trim());
+  const vertical = modes.includes("top")
+    ? "north"
+    : modes.includes("bottom")
+      ? "south"
+      : "";
+  const horizontal = modes.includes("left")
+    ? "west"
+    : modes.includes("right")
+      ? "east"
+      : "";
+  for (const mode of modes) {
+    if (!IMGIX_CROP_MODES.has(mode)) unsupported.push(`crop=${mode}`);
+  }
+  if (modes.includes("focalpoint")) {
+    if (params["fp-x"] !== undefined) out.fx = params["fp-x"];
+    if (params["fp-y"] !== undefined) out.fy = params["fp-y"];
+  } else if (modes.includes("entropy")) {
+    out.position = "entropy";
+  } else if (vertical || horizontal) {
+    out.position = vertical + horizontal;
+  }
+  return unsupported;
+};
+
+/** `fp-x`/`fp-y` only mean something under `crop=focalpoint`. */
+const imgixFocalCoordinate =
+  (name: string): Translate =>
+  (value, _out, params) =>
+    typeof params.crop === "string" && params.crop.includes("focalpoint")
+      ? []
+      : [`${name}=${value}`];
+
+/**
+ * `auto` is a list of independent enhancements; only `format` has a native
+ * equivalent. An explicit `fm` takes precedence, as it does on imgix.
+ */
+const imgixAuto: Translate = (value, out, params) => {
+  const unsupported: string[] = [];
+  for (const mode of value.split(",").map((entry) => entry.trim())) {
+    if (mode !== "format") {
+      unsupported.push(`auto=${mode}`);
+    } else if (params.fm === undefined) {
+      out.format = "auto";
+    }
+  }
+  return unsupported;
+};
+
+const IMGIX: Record<string, Translate> = {
+  w: rename("width"),
+  h: rename("height"),
+  q: rename("quality"),
+  dpr: rename("dpr"),
+  rect: rename("crop"),
+  fm: lookup("fm", IMGIX_FORMATS),
+  fit: lookup("fit", IMGIX_FITS),
+  "fill-color": imgixColor,
+  crop: imgixCrop,
+  "fp-x": imgixFocalCoordinate("fp-x"),
+  "fp-y": imgixFocalCoordinate("fp-y"),
+  auto: imgixAuto,
+};
+
+/**
+ * Cloudinary crop modes. The `l` (limit) variants never upscale; the rest
+ * scale a small source up to the requested box.
+ */
+const CLOUDINARY_CROPS = {
+  fill: fitMode("cover", true),
+  lfill: fitMode("cover", false),
+  fit: fitMode("inside", true),
+  limit: fitMode("inside", false),
+  mfit: fitMode("outside", true),
+  scale: fitMode("fill", true),
+  pad: fitMode("contain", true),
+  lpad: fitMode("contain", false),
+};
+
+const CLOUDINARY_GRAVITIES = {
+  center: { position: "center" },
+  north: { position: "north" },
+  north_east: { position: "northeast" },
+  east: { position: "east" },
+  south_east: { position: "southeast" },
+  south: { position: "south" },
+  south_west: { position: "southwest" },
+  west: { position: "west" },
+  north_west: { position: "northwest" },
+  auto: { position: "attention" },
+};
+
+const CLOUDINARY_FORMATS = {
+  auto: format("auto"),
+  jpg: format("jpg"),
+  jpeg: format("jpeg"),
+  png: format("png"),
+  webp: format("webp"),
+  avif: format("avif"),
+  gif: format("gif"),
+};
+
+/**
+ * `q_auto` (with or without a `:good`-style level) asks the service to
+ * pick the quality; leaving `quality` unset does the same here.
+ */
+const cloudinaryQuality: Translate = (value, out) => {
+  if (value !== "auto" && !value.startsWith("auto:")) out.quality = value;
+  return [];
+};
+
+/** Cloudinary writes hex colors as `rgb:RRGGBB`. */
+const cloudinaryBackground: Translate = (value, out) => {
+  const match = /^rgb:([0-9a-f]+)$/i.exec(value);
+  if (!match) return [`b=${value}`];
+  out.background = match[1];
+  return [];
+};
+
+const CLOUDINARY: Record<string, Translate> = {
+  w: rename("width"),
+  h: rename("height"),
+  dpr: rename("dpr"),
+  q: cloudinaryQuality,
+  c: lookup("c", CLOUDINARY_CROPS),
+  g: lookup("g", CLOUDINARY_GRAVITIES),
+  f: lookup("f", CLOUDINARY_FORMATS),
+  b: cloudinaryBackground,
+};
+
+const VOCABULARIES: Record<PixelServeCompat, Record<string, Translate>> = {
+  imgix: IMGIX,
+  cloudinary: CLOUDINARY,
+};
+
+/**
+ * Translates a hosted image service's parameter vocabulary — imgix's
+ * `w`/`h`/`fm`/`q`/`fit=crop`/`auto=format` or Cloudinary's
+ * `w`/`h`/`c`/`g`/`f`/`q` — into the native parameters `userDataSchema`
+ * validates. Parameters in `PASSTHROUGH_PARAMS` are kept. Anything else,
+ * and any value with no native equivalent (`fit=facearea`, `g=face`), is
+ * left out and listed in `unsupported`. Values are not validated here:
+ * `w=abc` becomes `width=abc` and fails the schema like a native request.
+ */
+export const translateCompatParams = (
+  params: Record<string, unknown>,
+  compat: PixelServeCompat,
+): CompatTranslation => {
+  const vocabulary = VOCABULARIES[compat];
+  const translated: Record<string, unknown> = {};
+  const unsupported: string[] = [];
+  for (const [name, value] of Object.entries(params)) {
+    if (PASSTHROUGH_PARAMS.has(name)) {
+      translated[name] = value;
+    } else if (!Object.hasOwn(vocabulary, name)) {
+      unsupported.push(name);
+    } else if (typeof value !== "string") {
+      // Repeated or nested (`w[]=1`); only the native names reach the
+      // schema's shape checks, so report rather than guess.
+      unsupported.push(name);
+    } else {
+      unsupported.push(...vocabulary[name]!(value, translated, params));
+    }
+  }
+  return { params: translated, unsupported };
+};
+
+/**
+ * Reads a `urlScheme: "path"` request in the foreign service's URL shape:
+ * imgix puts the source in the path and its parameters in the query
+ * (`/uploads/cat.jpg?w=300&fm=webp`); Cloudinary puts its transformation
+ * in the first segment (`/w_300,c_fill/uploads/cat.jpg`). Throws on a path
+ * without a source or a malformed Cloudinary segment.
+ */
+export const readCompatPath = (
+  pathname: string,
+  query: Record<string, unknown>,
+  compat: PixelServeCompat,
+): Record<string, unknown> => {
+  if (compat === "imgix") {
+    return { ...query, src: decodePixelPathSrc(pathname) };
+  }
+  const { options, src } = splitPixelPath(pathname);
+  return { ...options, src };
+};
@@ -0,0 +1,160 @@
+import path from "node:path";
+import os from "node:os";
+import Fastify, { type FastifyInstance, type FastifyRequest } from "fastify";
+import sharp from "sharp";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { pixelServeFastify, type PixelServeFastifyOptions } from "./fastify";
+import { mimeTypes } from "./variables";
+
+const assetDir = path.join(__dirname, "assets");
+
+const apps: FastifyInstance[] = [];
+
+const createApp = async (
+  options: Partial<PixelServeFastifyOptions> & { prefix?: string } = {},
+): Promise<FastifyInstance> => {
+  const app = Fastify();
+  apps.push(app);
+  await app.register(pixelServeFastify, {
+    prefix: "/api/v1/pixel/serve",
+    baseDir: assetDir,
+    ...options,
+  });
+  await app.ready();
+  return app;
+};
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await Promise.all(apps.splice(0).map((app) => app.close()));
+});
+
+describe("pixelServeFastify", () => {
+  it("routes GET and HEAD at the prefix and leaves the rest to Fastify", async () => {
+    const app = await createApp();
+    const query = { src: "noimage.jpg", width: "64", format: "webp" };
+    const get = await app.inject({ url: "/api/v1/pixel/serve", query });
+    const post = await app.inject({
+      method: "POST",
+      url: "/api/v1/pixel/serve",
+      query,
+    });
+    const below = await app.inject({ url: "/api/v1/pixel/serve/x", query });
+
+    expect(get.statusCode).toBe(200);
+    expect(get.headers["content-type"]).toBe(mimeTypes.webp);
+    expect((await sharp(get.rawPayload).metadata()).width).toBe(64);
+    expect(post.statusCode).toBe(404);
+    expect(below.statusCode).toBe(404);
+  });
+
+  it("keeps Content-Length on its own HEAD route", async () => {
+    const app = await createApp();
+    const query = { src: "noimage.jpg", width: "64" };
+    const get = await app.inject({ url: "/api/v1/pixel/serve", query });
+    const head = await app.inject({
+      method: "HEAD",
+      url: "/api/v1/pixel/serve",
+      query,
+    });
+
+    expect(head.statusCode).toBe(200);
+    expect(head.rawPayload.length).toBe(0);
+    expect(head.headers["content-length"]).toBe(String(get.rawPayload.length));
+  });
+
+  it("writes the status and headers of bodiless and error responses", async () => {
+    const app = await createApp({ errorMode: "status" });
+    const query = { src: "noimage.jpg", width: "64" };
+    const first = await app.inject({ url: "/api/v1/pixel/serve", query });
+    const notModified = await app.inject({
+      url: "/api/v1/pixel/serve",
+      query,
+      headers: { "if-none-match": first.headers.etag as string },
+    });
+    const missing = await app.inject({
+      url: "/api/v1/pixel/serve",
+      query: { src: "does-not-exist.jpg" },
+    });
+
+    expect(notModified.statusCode).toBe(304);
+    expect(notModified.rawPayload.length).toBe(0);
+    expect(notModified.headers.etag).toBe(first.headers.etag);
+    expect(missing.statusCode).toBe(404);
+    expect(missing.headers["content-type"]).toBe("application/problem+json");
+    expect(missing.json()).toMatchObject({ status: 404 });
+  });
+
+  it("reads path-scheme URLs below the prefix without double-decoding", async () => {
+    const app = await createApp({ prefix: "/img", urlScheme: "path" });
+    const res = await app.inject({ url: "/img/w_64,f_png/noimage.jpg?w=9" });
+    const encoded = await app.inject({ url: "/img/-/noimage%252Ejpg" });
+
+    expect(res.headers["content-type"]).toBe(mimeTypes.png);
+    expect((await sharp(res.rawPayload).metadata()).width).toBe(64);
+    // `%252E` names a file literally called `noimage%2Ejpg`, which does
+    // not exist — decoding twice would have found `noimage.jpg`.
+    expect(encoded.headers["cache-control"]).toBe("public, max-age=60");
+  });
+
+  it("strips Fastify's register options before validating the rest", async () => {
+    const app = await createApp({
+      logLevel: "silent",
+    } as Partial<PixelServeFastifyOptions>);
+    const res = await app.inject({
+      url: "/api/v1/pixel/serve",
+      query: { src: "noimage.jpg", width: "64" },
+    });
+
+    expect(res.statusCode).toBe(200);
+  });
+
+  it("passes the FastifyRequest to getUserFolder", async () => {
+    const getUserFolder = vi.fn((req: FastifyRequest): string =>
+      req.headers["x-tenant"] === "acme" ? assetDir : os.tmpdir(),
+    );
+    const app = await createApp({ baseDir: os.tmpdir(), getUserFolder });
+    const res = await app.inject({
+      url: "/api/v1/pixel/serve",
+      query: { src: "noavatar.png", folder: "private", userId: "u1" },
+      headers: { "x-tenant": "acme" },
+    });
+
+    expect(res.headers["cache-control"]).not.toBe("public, max-age=60");
+    expect(getUserFolder).toHaveBeenCalledTimes(1);
+    const [req, id] = getUserFolder.mock.calls[0]! as unknown as [
+      FastifyRequest,
+      string,
+    ];
+    expect(req.routeOptions.url).toBe("/api/v1/pixel/serve");
+    expect(id).toBe("u1");
+  });
+
+  it("fails registration on invalid options and reports the schema phase", async () => {
+    const onError = vi.fn();
+    const app = Fastify();
+    apps.push(app);
+    app.register(pixelServeFastify, {
+      baseDir: assetDir,
+      minWidth: 5000,
+      onError,
+    });
+
+    await expect(app.ready()).rejects.toThrow();
+    expect(onError.mock.calls[0]![1]).toEqual({ phase: "schema" });
+  });
+
+  it("surfaces an unreadable fallback as a Fastify error", async () => {
+    const app = await createApp();
+    const variables = await import("./variables");
+    vi.spyOn(variables.FALLBACKIMAGES, "normal").mockRejectedValue(
+      new Error("assets missing"),
+    );
+    const res = await app.inject({
+      url: "/api/v1/pixel/serve",
+      query: { src: "noimage.jpg", width: "99999" },
+    });
+
+    expect(res.statusCode).toBe(500);
+  });
+});
@@ -0,0 +1,70 @@
+import type {
+  FastifyPluginAsync,
+  FastifyRequest,
+  RegisterOptions,
+} from "fastify";
+import { createServeCore } from "./pixel";
+import type { PixelServeOptions } from "./types";
+
+/**
+ * Options for `pixelServeFastify`: the same `PixelServeOptions` as
+ * `registerServe`, except that `getUserFolder` receives the
+ * `FastifyRequest`. Fastify's own `register` options (`prefix`,
+ * `logLevel`, `logSerializers`) may be passed alongside them.
+ */
+export type PixelServeFastifyOptions = PixelServeOptions<FastifyRequest>;
+
+/**
+ * Fastify plugin serving images with the same pipeline as `registerServe`.
+ * Register it under the prefix the route should live at:
+ *
+ * @example
+ * await app.register(pixelServeFastify, {
+ *   prefix: "/api/v1/pixel/serve",
+ *   baseDir: "/srv/images",
+ * });
+ *
+ * It adds one `GET` and `HEAD` route at the prefix — `/*` below it when
+ * `urlScheme` is `"path"` — and other methods and paths stay Fastify's to
+ * answer. The path handed to the core is cut from the raw URL below
+ * `fastify.prefix`, still percent-encoded, because route parameters are
+ * already decoded once. Options are validated when the plugin loads; a
+ * misconfiguration fires `onError` with `phase: "schema"` and fails
+ * `app.ready()`. The status and headers are set on the `reply`, and the
+ * body is sent for everything but `304`s and `HEAD`s. If even the bundled
+ * fallback cannot be read, the error reaches Fastify's error handler.
+ */
+export const pixelServeFastify: FastifyPluginAsync<
+  PixelServeFastifyOptions & RegisterOptions
+> = async (fastify, opts) => {
+  // Fastify hands its own `register` options to the plugin too; they are
+  // left out because validation rejects unknown keys.
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { prefix, logLevel, logSerializers, ...options } = opts;
+  const handle = createServeCore(options);
+
+  // `HEAD` is routed explicitly: the route Fastify derives from `GET`
+  // would overwrite the `Content-Length` a bodiless response carries.
+  fastify.route({
+    method: ["GET", "HEAD"],
+    url: opts.urlScheme === "path" ? "/*" : "/",
+    handler: async (request, reply) => {
+      // Fastify decodes route parameters, so the still-encoded path below
+      // the prefix is taken from the raw URL instead of `params["*"]`.
+      const pathname = request.url.split("?", 1)[0]!;
+      const response = await handle({
+        method: request.method,
+        path: pathname.slice(fastify.prefix.length) || "/",
+        query: request.query as Record<string, unknown>,
+        headers: request.headers,
+        raw: request,
+      });
+      reply.code(response.status).headers(response.headers);
+      return reply.send(
+        response.status === 304 || request.method === "HEAD"
+          ? undefined
+          : response.body,
+      );
+    },
+  });
+};
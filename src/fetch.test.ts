@@ -0,0 +1,119 @@
+import path from "node:path";
+import os from "node:os";
+import sharp from "sharp";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createFetchHandler, type PixelServeFetchOptions } from "./fetch";
+import { mimeTypes } from "./variables";
+
+const assetDir = path.join(__dirname, "assets");
+
+const createHandler = (
+  options: Partial<PixelServeFetchOptions> = {},
+  mountPath?: string,
+): ((req: Request) => Promise<Response>) =>
+  createFetchHandler({ baseDir: assetDir, ...options }, { mountPath });
+
+const bodyOf = async (res: Response): Promise<Buffer> =>
+  Buffer.from(await res.arrayBuffer());
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("createFetchHandler", () => {
+  it("resolves with a Response carrying the core's status, headers and body", async () => {
+    const res = await createHandler()(
+      new Request("http://localhost/img?src=noimage.jpg&width=64&format=webp"),
+    );
+
+    expect(res).toBeInstanceOf(Response);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe(mimeTypes.webp);
+    const body = await bodyOf(res);
+    expect((await sharp(body).metadata()).width).toBe(64);
+    expect(res.headers.get("content-length")).toBe(String(body.length));
+  });
+
+  it("sends a null body for 304s and HEADs", async () => {
+    const handle = createHandler();
+    const url = "http://localhost/?src=noimage.jpg&width=64";
+    const first = await handle(new Request(url));
+    const notModified = await handle(
+      new Request(url, {
+        headers: { "If-None-Match": first.headers.get("etag")! },
+      }),
+    );
+    const head = await handle(new Request(url, { method: "HEAD" }));
+
+    expect(notModified.status).toBe(304);
+    expect(notModified.body).toBeNull();
+    expect(head.status).toBe(200);
+    expect(head.body).toBeNull();
+    expect(head.headers.get("content-length")).toBe(
+      first.headers.get("content-length"),
+    );
+  });
+
+  it("reads the path and query from request.url below the mount path", async () => {
+    const res = await createHandler(
+      { urlScheme: "path" },
+      "/img",
+    )(new Request("http://localhost/img/w_64,f_png/noimage.jpg?w=9"));
+
+    expect(res.headers.get("content-type")).toBe(mimeTypes.png);
+    expect((await sharp(await bodyOf(res)).metadata()).width).toBe(64);
+  });
+
+  it("hands the core the request headers", async () => {
+    const res = await createHandler()(
+      new Request("http://localhost/?src=noimage.jpg&width=64&format=auto", {
+        headers: { Accept: "image/avif,image/webp,*/*" },
+      }),
+    );
+
+    expect(res.headers.get("content-type")).toBe(mimeTypes.avif);
+  });
+
+  it("passes the Request to getUserFolder", async () => {
+    const getUserFolder = vi.fn((req: Request): string =>
+      req.headers.get("x-tenant") === "acme" ? assetDir : os.tmpdir(),
+    );
+    const incoming = new Request(
+      "http://localhost/?src=noavatar.png&folder=private&userId=u1",
+      { headers: { "X-Tenant": "acme" } },
+    );
+    const res = await createHandler({ baseDir: os.tmpdir(), getUserFolder })(
+      incoming,
+    );
+
+    expect(res.headers.get("cache-control")).not.toBe("public, max-age=60");
+    expect(getUserFolder).toHaveBeenCalledWith(incoming, "u1");
+  });
+
+  it("resolves a status-mode failure with its problem+json body", async () => {
+    const res = await createHandler({ errorMode: "status" })(
+      new Request("http://localhost/?src=does-not-exist.jpg"),
+    );
+
+    expect(res.status).toBe(404);
+    expect(res.headers.get("content-type")).toBe("application/problem+json");
+    expect(await res.json()).toEqual({
+      type: "about:blank",
+      title: "Not Found",
+      status: 404,
+    });
+  });
+
+  it("resolves with an empty 500 when the fallback cannot be read", async () => {
+    const variables = await import("./variables");
+    vi.spyOn(variables.FALLBACKIMAGES, "normal").mockRejectedValue(
+      new Error("assets missing"),
+    );
+    const res = await createHandler()(
+      new Request("http://localhost/?src=noimage.jpg&width=99999"),
+    );
+
+    expect(res.status).toBe(500);
+    expect(res.body).toBeNull();
+  });
+});
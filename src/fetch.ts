@@ -0,0 +1,67 @@
+import { splitRequestTarget } from "./node";
+import { createServeCore } from "./pixel";
+import type {
+  PixelServeAdapterOptions,
+  PixelServeOptions,
+  PixelServeResponse,
+} from "./types";
+
+/**
+ * Options for `createFetchHandler`: the same `PixelServeOptions` as
+ * `registerServe`, except that `getUserFolder` receives the Fetch API
+ * `Request`.
+ */
+export type PixelServeFetchOptions = PixelServeOptions<Request>;
+
+/**
+ * @function createFetchHandler
+ * @description Builds a Fetch API handler — `Request` in, `Response` out —
+ *   serving images with the same pipeline as `registerServe`.
+ * @param {PixelServeFetchOptions} options - The options object for image processing.
+ * @param {PixelServeAdapterOptions} [adapterOptions] - Where the handler is mounted.
+ * @returns {function(Request): Promise<Response>} The fetch handler.
+ *
+ * @example
+ * const handle = createFetchHandler({ baseDir: "/srv/images" });
+ * app.get("/api/v1/pixel/serve", (c) => handle(c.req.raw)); // Hono
+ *
+ * Options are validated when it is called, like `registerServe`. The path
+ * and query come from `request.url`, so `mountPath` is the prefix stripped
+ * before `urlScheme: "path"` parses the rest, and the core sees the
+ * request's `Headers` as a plain object. The returned `Response` carries
+ * the core's status and headers, with a `null` body for `304`s and
+ * `HEAD`s. Nothing is written before the core settles, so there is no
+ * already-started response to handle: if even the bundled fallback cannot
+ * be read, the handler resolves with an empty `500`.
+ */
+export const createFetchHandler = (
+  options: PixelServeFetchOptions,
+  adapterOptions: PixelServeAdapterOptions = {},
+): ((request: Request) => Promise<Response>) => {
+  const handle = createServeCore(options);
+
+  return async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+    const { path, query } = splitRequestTarget(
+      url.pathname + url.search,
+      adapterOptions.mountPath,
+    );
+    let response: PixelServeResponse;
+    try {
+      response = await handle({
+        method: request.method,
+        path,
+        query,
+        headers: Object.fromEntries(request.headers),
+        raw: request,
+      });
+    } catch {
+      return new Response(null, { status: 500 });
+    }
+    const bodyless = response.status === 304 || request.method === "HEAD";
+    return new Response(bodyless ? null : response.body, {
+      status: response.status,
+      headers: response.headers,
+    });
+  };
+};
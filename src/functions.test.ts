@@ -18,6 +18,7 @@ import {
   stripApiPrefix,
 } from "./functions";
 import { API_REGEX } from "./variables";
+import { createUpstreamCache } from "./upstream";
 
 vi.mock("axios", () => ({
   default: {
@@ -2875,3 +2876,272 @@ describe("onFallback callback threading (Phase 8)", () => {
     expect(axios.get).not.toHaveBeenCalled();
   });
 });
+
+describe("fetchImage upstreamCache revalidation", () => {
+  const SRC = "https://allowed.test/photo.jpg";
+
+  const okResponse = (
+    body: string,
+    headers: Record<string, string> = {},
+  ): Awaited<ReturnType<typeof axios.get>> => ({
+    data: Buffer.from(body),
+    headers: { "content-type": "image/jpeg", ...headers },
+    status: 200,
+    statusText: "OK",
+    config: {},
+  });
+
+  const fetchCached = (
+    upstreamCache: ReturnType<typeof createUpstreamCache>,
+    onVersion?: (version: string) => void,
+  ): Promise<Buffer> =>
+    fetchImage(
+      SRC,
+      baseDir,
+      "localhost",
+      "normal",
+      /^\/api\/v1\//,
+      ["allowed.test"],
+      { timeoutMs: 1000, maxBytes: 1024, upstreamCache, onVersion },
+    );
+
+  it("serves a fresh entry without touching the network", async () => {
+    const upstreamCache = createUpstreamCache({ maxBytes: 1024 });
+    vi.mocked(axios.get).mockResolvedValueOnce(
+      okResponse("v1", { "cache-control": "max-age=60" }),
+    );
+    const versions: string[] = [];
+
+    await fetchCached(upstreamCache, (v) => versions.push(v));
+    const second = await fetchCached(upstreamCache, (v) => versions.push(v));
+
+    expect(second.equals(Buffer.from("v1"))).toBe(true);
+    expect(axios.get).toHaveBeenCalledTimes(1);
+    expect(versions).toHaveLength(2);
+    expect(versions[0]).toBe(versions[1]);
+  });
+
+  it("revalidates a stale entry and reuses its body on 304", async () => {
+    const upstreamCache = createUpstreamCache({ maxBytes: 1024 });
+    const lastModified = "Tue, 01 Oct 2024 00:00:00 GMT";
+    vi.mocked(axios.get)
+      .mockResolvedValueOnce(
+        okResponse("v1", { etag: '"e1"', "last-modified": lastModified }),
+      )
+      .mockResolvedValueOnce({
+        data: Buffer.alloc(0),
+        headers: { "cache-control": "max-age=60" },
+        status: 304,
+        statusText: "Not Modified",
+        config: {},
+      });
+    const versions: string[] = [];
+
+    await fetchCached(upstreamCache, (v) => versions.push(v));
+    const second = await fetchCached(upstreamCache, (v) => versions.push(v));
+    const third = await fetchCached(upstreamCache);
+
+    expect(second.equals(Buffer.from("v1"))).toBe(true);
+    expect(third.equals(Buffer.from("v1"))).toBe(true);
+    // The 304 refreshed the entry with max-age=60, so the third call never
+    // reached the network.
+    expect(axios.get).toHaveBeenCalledTimes(2);
+    const revalidation = vi.mocked(axios.get).mock.calls[1]![1];
+    expect(revalidation?.headers).toEqual({
+      "If-None-Match": '"e1"',
+      "If-Modified-Since": lastModified,
+    });
+    expect(versions[0]).toBe(versions[1]);
+  });
+
+  it("replaces the entry and reports a new version when the origin changed", async () => {
+    const upstreamCache = createUpstreamCache({ maxBytes: 1024 });
+    vi.mocked(axios.get)
+      .mockResolvedValueOnce(okResponse("v1", { etag: '"e1"' }))
+      .mockResolvedValueOnce(okResponse("v2", { etag: '"e2"' }));
+    const versions: string[] = [];
+
+    await fetchCached(upstreamCache, (v) => versions.push(v));
+    const second = await fetchCached(upstreamCache, (v) => versions.push(v));
+
+    expect(second.equals(Buffer.from("v2"))).toBe(true);
+    expect(versions[0]).not.toBe(versions[1]);
+    expect(upstreamCache.get(SRC)?.headers.etag).toBe('"e2"');
+  });
+
+  it("does not store no-store responses but still reports their version", async () => {
+    const upstreamCache = createUpstreamCache({ maxBytes: 1024 });
+    vi.mocked(axios.get).mockResolvedValue(
+      okResponse("v1", { "cache-control": "no-store", etag: '"e1"' }),
+    );
+    const onVersion = vi.fn();
+
+    await fetchCached(upstreamCache, onVersion);
+
+    expect(upstreamCache.get(SRC)).toBeUndefined();
+    expect(onVersion).toHaveBeenCalledTimes(1);
+  });
+
+  it("drops the entry when a 304 forbids storing", async () => {
+    const upstreamCache = createUpstreamCache({ maxBytes: 1024 });
+    vi.mocked(axios.get)
+      .mockResolvedValueOnce(okResponse("v1", { etag: '"e1"' }))
+      .mockResolvedValueOnce({
+        data: Buffer.alloc(0),
+        headers: { "cache-control": "no-store" },
+        status: 304,
+        statusText: "Not Modified",
+        config: {},
+      });
+
+    await fetchCached(upstreamCache);
+    const second = await fetchCached(upstreamCache);
+
+    expect(second.equals(Buffer.from("v1"))).toBe(true);
+    expect(upstreamCache.get(SRC)).toBeUndefined();
+  });
+
+  it("sends validators only to the final URL of a redirect chain", async () => {
+    const upstreamCache = createUpstreamCache({ maxBytes: 1024 });
+    const redirect = {
+      data: Buffer.alloc(0),
+      headers: { location: "/cdn/photo.jpg" },
+      status: 302,
+      statusText: "Found",
+      config: {},
+    };
+    vi.mocked(axios.get)
+      .mockResolvedValueOnce(redirect)
+      .mockResolvedValueOnce(okResponse("v1", { etag: '"e1"' }))
+      .mockResolvedValueOnce(redirect)
+      .mockResolvedValueOnce({
+        data: Buffer.alloc(0),
+        headers: {},
+        status: 304,
+        statusText: "Not Modified",
+        config: {},
+      });
+
+    await fetchCached(upstreamCache);
+    const second = await fetchCached(upstreamCache);
+
+    expect(second.equals(Buffer.from("v1"))).toBe(true);
+    const calls = vi.mocked(axios.get).mock.calls;
+    expect(calls[2]![1]?.headers).toBeUndefined();
+    expect(calls[3]![0]).toBe("https://allowed.test/cdn/photo.jpg");
+    expect(calls[3]![1]?.headers).toEqual({ "If-None-Match": '"e1"' });
+  });
+
+  it("neither stores nor versions a placeholder", async () => {
+    const upstreamCache = createUpstreamCache({ maxBytes: 1024 * 1024 });
+    vi.mocked(axios.get).mockRejectedValue(new Error("offline"));
+    const onVersion = vi.fn();
+    const onFallback = vi.fn();
+
+    await fetchImage(
+      SRC,
+      baseDir,
+      "localhost",
+      "normal",
+      /^\/api\/v1\//,
+      ["allowed.test"],
+      { timeoutMs: 1000, maxBytes: 1024, upstreamCache, onVersion, onFallback },
+    );
+
+    expect(onFallback).toHaveBeenCalledTimes(1);
+    expect(onVersion).not.toHaveBeenCalled();
+    expect(upstreamCache.size()).toBe(0);
+  });
+});
+
+describe("onFallback failure statuses", () => {
+  const fetchStatus = async (
+    src = "https://allowed.test/img.jpg",
+  ): Promise<unknown> => {
+    const onFallback = vi.fn();
+    await fetchImage(
+      src,
+      baseDir,
+      "localhost",
+      "normal",
+      /^\/api\/v1\//,
+      ["allowed.test"],
+      { timeoutMs: 1000, maxBytes: 1024, onFallback },
+    );
+    expect(onFallback).toHaveBeenCalledTimes(1);
+    return onFallback.mock.calls[0]![0];
+  };
+  const readStatus = async (
+    filePath: string,
+    maxBytes?: number,
+  ): Promise<unknown> => {
+    const onFallback = vi.fn();
+    await readLocalImage(
+      filePath,
+      baseDir,
+      "normal",
+      maxBytes,
+      undefined,
+      onFallback,
+    );
+    return onFallback.mock.calls[0]![0];
+  };
+  const originStatus = (status: number): void => {
+    vi.mocked(axios.get).mockResolvedValue({
+      data: Buffer.from(""),
+      headers: {},
+      status,
+      statusText: "",
+      config: {},
+    });
+  };
+
+  it("tells missing local files from disallowed paths", async () => {
+    expect(await readStatus("missing.jpg")).toBe(404);
+    expect(await readStatus("nested/missing.jpg")).toBe(404);
+    expect(await readStatus("../outside.jpg")).toBe(403);
+    expect(await readStatus("/etc/passwd")).toBe(403);
+    expect(await readStatus("a\\b.jpg")).toBe(403);
+    expect(await readStatus("noimage.jpg", 1)).toBe(413);
+  });
+
+  it("reports a disallowed host or a private address as 403", async () => {
+    expect(await fetchStatus("https://disallowed.test/img.jpg")).toBe(403);
+    mockDnsPrivate();
+    expect(await fetchStatus()).toBe(403);
+  });
+
+  it("passes an origin 404 or 410 through and maps other failures to 502", async () => {
+    originStatus(404);
+    expect(await fetchStatus()).toBe(404);
+    originStatus(410);
+    expect(await fetchStatus()).toBe(404);
+    originStatus(500);
+    expect(await fetchStatus()).toBe(502);
+    vi.mocked(axios.get).mockResolvedValue({
+      data: Buffer.from("<html>"),
+      headers: { "content-type": "text/html" },
+      status: 200,
+      statusText: "OK",
+      config: {},
+    });
+    expect(await fetchStatus()).toBe(502);
+  });
+
+  it("classifies transport failures", async () => {
+    vi.mocked(axios.get).mockRejectedValue(
+      Object.assign(new Error("timeout of 1000ms exceeded"), {
+        code: "ECONNABORTED",
+      }),
+    );
+    expect(await fetchStatus()).toBe(504);
+    vi.mocked(axios.get).mockRejectedValue(
+      Object.assign(new Error("maxContentLength size of 1024 exceeded"), {
+        code: "ERR_BAD_RESPONSE",
+      }),
+    );
+    expect(await fetchStatus()).toBe(413);
+    vi.mocked(axios.get).mockRejectedValue(new Error("socket hang up"));
+    expect(await fetchStatus()).toBe(502);
+  });
+});
@@ -6,7 +6,21 @@ import * as https from "node:https";
 import { isIP, type LookupFunction } from "node:net";
 import axios, { AxiosError, AxiosResponse } from "axios";
 import { FALLBACKIMAGES, mimeTypes } from "./variables";
-import type { ImageType, PixelServeOnError } from "./types";
+import type {
+  ImageType,
+  PixelServeErrorPhase,
+  PixelServeErrorStatus,
+  PixelServeOnError,
+} from "./types";
+import {
+  buildUpstreamEntry,
+  conditionalRequestHeaders,
+  isUpstreamFresh,
+  pickUpstreamHeaders,
+  revalidateUpstreamEntry,
+  upstreamFreshness,
+  type UpstreamCache,
+} from "./upstream";
 
 /**
  * Internal helper that fires the user-supplied `onError` hook without ever
@@ -126,6 +140,31 @@ export const isValidPath = async (
   }
 };
 
+/**
+ * Tells apart the two reasons `isValidPath` rejects a path, for the status
+ * `errorMode: "status"` answers with: `403` when the path itself is
+ * disallowed (the shape checks above, or it escapes `basePath` lexically)
+ * and `404` when it is well-formed but names no regular file inside
+ * `basePath`. A symlink pointing out of `basePath` counts as missing.
+ */
+const invalidPathStatus = (
+  basePath: string,
+  specifiedPath: string,
+): PixelServeErrorStatus => {
+  const relative = path.relative(
+    path.resolve(basePath),
+    path.resolve(basePath, specifiedPath),
+  );
+  const disallowed =
+    specifiedPath.length > MAX_SPECIFIED_PATH_LEN ||
+    path.isAbsolute(specifiedPath) ||
+    // eslint-disable-next-line no-control-regex
+    /[\\\x00-\x1F\x7F]/.test(specifiedPath) ||
+    relative.startsWith("..") ||
+    path.isAbsolute(relative);
+  return disallowed ? 403 : 404;
+};
+
 /**
  * A fully-expanded IPv6 address: its 8 constituent 16-bit hextets, in order.
  */
@@ -521,15 +560,21 @@ const isHostAllowed = (
  * caller supplies a pinned pair of `httpAgent`/`httpsAgent` so the TCP
  * connection targets the IP that was validated by `resolvePinnedAddress`
  * rather than whatever the kernel resolver returns at connect time.
+ * `headers` carries the conditional validators when revalidating an
+ * `upstreamCache` entry; `onTransportError` receives the error behind a
+ * `null` result.
  */
 const requestNoRedirect = async (
   src: string,
   timeoutMs: number,
   maxBytes: number,
   agents: { httpAgent: http.Agent; httpsAgent: https.Agent },
+  headers?: Record<string, string>,
+  onTransportError?: (err: unknown) => void,
 ): Promise<AxiosResponse | null> => {
   try {
     return await axios.get(src, {
+      headers,
       responseType: "arraybuffer",
       timeout: timeoutMs,
       maxContentLength: maxBytes,
@@ -556,10 +601,24 @@ const requestNoRedirect = async (
     // axios throws on 3xx because of maxRedirects: 0; pull response if present
     const aerr = err as AxiosError;
     if (aerr?.response) return aerr.response;
+    onTransportError?.(err);
     return null;
   }
 };
 
+/**
+ * Maps a request that got no response to the status `errorMode: "status"`
+ * answers with: `504` for a timeout, `413` for a body past `maxBytes`, and
+ * `502` for any other transport failure.
+ */
+const transportFailureStatus = (err: unknown): PixelServeErrorStatus => {
+  const aerr = err as AxiosError | undefined;
+  if (aerr?.code === "ECONNABORTED" || aerr?.code === "ETIMEDOUT") {
+    return 504;
+  }
+  return aerr?.message?.startsWith("maxContentLength") ? 413 : 502;
+};
+
 /**
  * Fetches an image from a network source with manual redirect handling.
  * Every hop re-validates the destination against the allowlist, restricts
@@ -580,6 +639,8 @@ const fetchFromNetwork = async (
     maxRedirects,
     onError,
     onFallback,
+    upstreamCache,
+    onVersion,
   }: {
     timeoutMs: number;
     maxBytes: number;
@@ -590,15 +651,39 @@ const fetchFromNetwork = async (
      * Optional callback fired whenever this call resolves to the bundled
      * `FALLBACKIMAGES[type]()` placeholder rather than genuinely-fetched
      * bytes (blocked host, SSRF-reject, non-2xx, disallowed MIME, transport
-     * failure, etc.). Trailing and optional — backward-compatible.
+     * failure, etc.), with the status `errorMode: "status"` answers that
+     * failure with and the `onError` phase it was reported under. Trailing
+     * and optional — backward-compatible.
+     */
+    onFallback?: (
+      status: PixelServeErrorStatus,
+      phase: PixelServeErrorPhase,
+    ) => void;
+    /**
+     * Optional store of previously fetched origin bodies. A fresh entry is
+     * returned without any network I/O; a stale one is revalidated with
+     * `If-None-Match` / `If-Modified-Since` and reused on a `304`.
      */
-    onFallback?: () => void;
+    upstreamCache?: UpstreamCache;
+    /**
+     * Fired with the SHA-256 of the returned origin bytes whenever
+     * `upstreamCache` is set and real bytes (not a placeholder) are
+     * returned, so the caller can key its ETag on the origin's content.
+     * `lastModified` is the origin's `Last-Modified` header, when it sent
+     * one.
+     */
+    onVersion?: (version: string, lastModified?: string) => void;
   },
 ): Promise<Buffer> => {
-  const fallback = async (): Promise<Buffer> => {
-    onFallback?.();
+  const fallback = async (status: PixelServeErrorStatus): Promise<Buffer> => {
+    onFallback?.(status, "fetch");
     return FALLBACKIMAGES[type]();
   };
+  const cached = upstreamCache?.get(src);
+  if (cached && isUpstreamFresh(cached)) {
+    onVersion?.(cached.version, cached.headers["last-modified"]);
+    return cached.body;
+  }
   try {
     let currentUrl = src;
     for (let hop = 0; hop <= maxRedirects; hop++) {
@@ -607,7 +692,7 @@ const fetchFromNetwork = async (
         parsed = new URL(currentUrl);
       } catch (err) {
         safeOnError(onError, err, "fetch", currentUrl);
-        return await fallback();
+        return await fallback(502);
       }
       if (!["http:", "https:"].includes(parsed.protocol)) {
         safeOnError(
@@ -616,7 +701,7 @@ const fetchFromNetwork = async (
           "fetch",
           currentUrl,
         );
-        return await fallback();
+        return await fallback(403);
       }
       if (!isHostAllowed(parsed.hostname, parsed.host, allowedNetworkList)) {
         safeOnError(
@@ -625,7 +710,7 @@ const fetchFromNetwork = async (
           "fetch",
           currentUrl,
         );
-        return await fallback();
+        return await fallback(403);
       }
       // Resolve once and pin the validated addresses into the http(s) agent's
       // `lookup` function so axios connects only to IPs we validated, NOT
@@ -645,15 +730,23 @@ const fetchFromNetwork = async (
           "fetch",
           currentUrl,
         );
-        return await fallback();
+        return await fallback(403);
       }
 
       const agents = buildPinnedAgents(pinned);
+      // The stored validators describe the final URL of the original
+      // fetch, so only that hop is made conditional.
+      const revalidating = cached?.url === currentUrl ? cached : undefined;
+      let transportError: unknown;
       const response = await requestNoRedirect(
         currentUrl,
         timeoutMs,
         maxBytes,
         agents,
+        revalidating ? conditionalRequestHeaders(revalidating) : undefined,
+        (err) => {
+          transportError = err;
+        },
       );
       if (!response) {
         safeOnError(
@@ -662,7 +755,26 @@ const fetchFromNetwork = async (
           "fetch",
           currentUrl,
         );
-        return await fallback();
+        return await fallback(transportFailureStatus(transportError));
+      }
+
+      if (response.status === 304 && revalidating && upstreamCache) {
+        const refreshed = revalidateUpstreamEntry(
+          revalidating,
+          pickUpstreamHeaders(response.headers),
+          Date.now(),
+          upstreamCache.defaultTtlMs,
+        );
+        if (refreshed) {
+          upstreamCache.set(src, refreshed);
+        } else {
+          upstreamCache.delete(src);
+        }
+        onVersion?.(
+          revalidating.version,
+          (refreshed ?? revalidating).headers["last-modified"],
+        );
+        return revalidating.body;
       }
 
       if (response.status >= 300 && response.status < 400) {
@@ -674,14 +786,14 @@ const fetchFromNetwork = async (
             "fetch",
             currentUrl,
           );
-          return await fallback();
+          return await fallback(502);
         }
         // resolve relative redirects against current URL
         try {
           currentUrl = new URL(location, currentUrl).toString();
         } catch (err) {
           safeOnError(onError, err, "fetch", location);
-          return await fallback();
+          return await fallback(502);
         }
         continue;
       }
@@ -693,7 +805,9 @@ const fetchFromNetwork = async (
           "fetch",
           currentUrl,
         );
-        return await fallback();
+        return await fallback(
+          response.status === 404 || response.status === 410 ? 404 : 502,
+        );
       }
 
       const contentType = (
@@ -705,7 +819,28 @@ const fetchFromNetwork = async (
       const allowedMimeTypes = Object.values(mimeTypes);
 
       if (contentType && allowedMimeTypes.includes(contentType)) {
-        return Buffer.from(response.data as ArrayBuffer);
+        const body = Buffer.from(response.data as ArrayBuffer);
+        if (upstreamCache) {
+          const headers = pickUpstreamHeaders(response.headers);
+          const { storable, expiresAt } = upstreamFreshness(
+            headers,
+            Date.now(),
+            upstreamCache.defaultTtlMs,
+          );
+          const entry = buildUpstreamEntry(
+            body,
+            currentUrl,
+            headers,
+            expiresAt,
+          );
+          if (storable) {
+            upstreamCache.set(src, entry);
+          } else {
+            upstreamCache.delete(src);
+          }
+          onVersion?.(entry.version, entry.headers["last-modified"]);
+        }
+        return body;
       }
       safeOnError(
         onError,
@@ -715,7 +850,7 @@ const fetchFromNetwork = async (
         "fetch",
         currentUrl,
       );
-      return await fallback();
+      return await fallback(502);
     }
     // exhausted redirect budget
     safeOnError(
@@ -724,10 +859,10 @@ const fetchFromNetwork = async (
       "fetch",
       src,
     );
-    return await fallback();
+    return await fallback(502);
   } catch (err) {
     safeOnError(onError, err, "fetch", src);
-    return await fallback();
+    return await fallback(502);
   }
 };
 
@@ -739,12 +874,15 @@ const fetchFromNetwork = async (
  * @param {ImageType} [type="normal"] - Type of fallback image if the path is invalid.
  * @param {number} [maxBytes] - Optional max file size; larger files fall back.
  * @param {PixelServeOnError} [onError] - Optional error observability hook.
- * @param {() => void} [onFallback] - Optional callback fired whenever this
- *   call resolves to the bundled `FALLBACKIMAGES[type]()` placeholder rather
- *   than the requested file's real bytes. Lets callers (namely `serveImage`)
- *   distinguish a genuinely-served image from a placeholder without
- *   re-deriving the same validity/size checks. Trailing and optional so the
- *   exported signature stays backward-compatible.
+ * @param {(status: PixelServeErrorStatus, phase: PixelServeErrorPhase) => void} [onFallback] -
+ *   Optional callback fired whenever this call resolves to the bundled
+ *   `FALLBACKIMAGES[type]()` placeholder rather than the requested file's
+ *   real bytes, with the status `errorMode: "status"` answers that failure
+ *   with and the `onError` phase (`"fs"`) it was reported under. Lets
+ *   callers (namely `serveImage`) distinguish a genuinely-served image
+ *   from a placeholder without re-deriving the same validity/size checks.
+ *   Trailing and optional so the exported signature stays
+ *   backward-compatible.
  * @returns {Promise<Buffer>} A buffer containing the image data.
  */
 export const readLocalImage = async (
@@ -753,10 +891,13 @@ export const readLocalImage = async (
   type: ImageType = "normal",
   maxBytes?: number,
   onError?: PixelServeOnError,
-  onFallback?: () => void,
+  onFallback?: (
+    status: PixelServeErrorStatus,
+    phase: PixelServeErrorPhase,
+  ) => void,
 ): Promise<Buffer> => {
-  const fallback = async (): Promise<Buffer> => {
-    onFallback?.();
+  const fallback = async (status: PixelServeErrorStatus): Promise<Buffer> => {
+    onFallback?.(status, "fs");
     return FALLBACKIMAGES[type]();
   };
   const isValid = await isValidPath(baseDir, filePath);
@@ -767,7 +908,7 @@ export const readLocalImage = async (
       "fs",
       filePath,
     );
-    return await fallback();
+    return await fallback(invalidPathStatus(baseDir, filePath));
   }
   try {
     const resolvedFile = path.resolve(baseDir, filePath);
@@ -782,13 +923,15 @@ export const readLocalImage = async (
           "fs",
           filePath,
         );
-        return await fallback();
+        return await fallback(413);
       }
     }
     return await fs.readFile(resolvedFile);
   } catch (err) {
     safeOnError(onError, err, "fs", filePath);
-    return await fallback();
+    return await fallback(
+      (err as NodeJS.ErrnoException).code === "ENOENT" ? 404 : 500,
+    );
   }
 };
 
@@ -900,11 +1043,15 @@ export const resolveInternalLocalPath = (
  * @param {ImageType} [type="normal"] - Type of fallback image if the path is invalid.
  * @param {string[]} [allowedNetworkList=[]] - List of allowed network hosts.
  *
- * The trailing options object also accepts an optional `onFallback: () =>
- * void` field, fired whenever this call resolves to the bundled
- * `FALLBACKIMAGES[type]()` placeholder rather than genuinely-resolved bytes —
- * whether from the internal-local, network, or exception-recovery branch.
+ * The trailing options object also accepts an optional `onFallback:
+ * (status, phase) => void` field, fired whenever this call resolves to the
+ * bundled `FALLBACKIMAGES[type]()` placeholder rather than genuinely-resolved
+ * bytes — whether from the internal-local, network, or exception-recovery
+ * branch — with the `PixelServeErrorStatus` describing the failure and the
+ * `onError` phase it was reported under.
  * Optional and additive, so the exported signature stays backward-compatible.
+ * `upstreamCache` and `onVersion` are forwarded to the network branch only;
+ * internal-host URLs are read from disk and never cached upstream.
  * @returns {Promise<Buffer>} A buffer containing the image data or a fallback image.
  */
 export const fetchImage = (
@@ -921,13 +1068,20 @@ export const fetchImage = (
     onError,
     apiPrefix,
     onFallback,
+    upstreamCache,
+    onVersion,
   }: {
     timeoutMs: number;
     maxBytes: number;
     maxRedirects?: number;
     onError?: PixelServeOnError;
     apiPrefix?: string;
-    onFallback?: () => void;
+    onFallback?: (
+      status: PixelServeErrorStatus,
+      phase: PixelServeErrorPhase,
+    ) => void;
+    upstreamCache?: UpstreamCache;
+    onVersion?: (version: string, lastModified?: string) => void;
   },
 ): Promise<Buffer> => {
   try {
@@ -961,7 +1115,7 @@ export const fetchImage = (
         "fetch",
         src,
       );
-      onFallback?.();
+      onFallback?.(403, "fetch");
       return FALLBACKIMAGES[type]();
     }
     if (!["http:", "https:"].includes(url.protocol)) {
@@ -971,7 +1125,7 @@ export const fetchImage = (
         "fetch",
         src,
       );
-      onFallback?.();
+      onFallback?.(403, "fetch");
       return FALLBACKIMAGES[type]();
     }
     return fetchFromNetwork(src, type, {
@@ -981,6 +1135,8 @@ export const fetchImage = (
       maxRedirects,
       onError,
       onFallback,
+      upstreamCache,
+      onVersion,
     });
   } catch (err) {
     safeOnError(onError, err, "fetch", src);
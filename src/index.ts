@@ -3,7 +3,11 @@
  * @description A module to serve, process, and manage image delivery for web applications.
  */
 
-export { default as registerServe } from "./pixel";
+export { default as registerServe, createServeCore } from "./pixel";
+export { createNodeHandler } from "./node";
+export type { PixelServeNodeOptions } from "./node";
+export { createFetchHandler } from "./fetch";
+export type { PixelServeFetchOptions } from "./fetch";
 export * from "./types";
 export { optionsSchema, userDataSchema } from "./schema";
 export {
@@ -24,3 +28,11 @@ export {
   looksLikeSvg,
   resolveRootDir,
 } from "./pixel";
+export {
+  createFileSystemCacheStore,
+  createMemoryCacheStore,
+  isCacheStore,
+} from "./cache";
+export { signPixelUrl } from "./signing";
+export { buildPixelPath, parsePixelPath } from "./paths";
+export type { PixelUrlParams } from "./signing";
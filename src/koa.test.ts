@@ -0,0 +1,133 @@
+import path from "node:path";
+import os from "node:os";
+import Koa, { type Context } from "koa";
+import request from "supertest";
+import sharp from "sharp";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { pixelServeKoa, type PixelServeKoaOptions } from "./koa";
+import { mimeTypes } from "./variables";
+
+const assetDir = path.join(__dirname, "assets");
+
+const createApp = (
+  options: Partial<PixelServeKoaOptions> = {},
+  mountPath?: string,
+): Koa => {
+  const app = new Koa();
+  // Keep Koa's default error logging out of the test output.
+  app.silent = true;
+  app.use(pixelServeKoa({ baseDir: assetDir, ...options }, { mountPath }));
+  return app;
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("pixelServeKoa", () => {
+  it("answers through ctx without calling next", async () => {
+    const downstream = vi.fn();
+    const app = createApp();
+    app.use(downstream);
+    const res = await request(app.callback())
+      .get("/")
+      .query({ src: "noimage.jpg", width: 64, format: "webp" });
+
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toBe(mimeTypes.webp);
+    expect((await sharp(res.body).metadata()).width).toBe(64);
+    expect(res.headers["content-length"]).toBe(String(res.body.length));
+    expect(downstream).not.toHaveBeenCalled();
+  });
+
+  it("leaves ctx.body unset for 304s and HEADs", async () => {
+    const server = createApp().callback();
+    const query = { src: "noimage.jpg", width: 64 };
+    const get = await request(server).get("/").query(query);
+    const head = await request(server).head("/").query(query);
+    const notModified = await request(server)
+      .get("/")
+      .query(query)
+      .set("If-None-Match", get.headers.etag!);
+
+    expect(head.status).toBe(200);
+    expect(head.headers["content-length"]).toBe(String(get.body.length));
+    expect(head.headers["content-type"]).toBe(get.headers["content-type"]);
+    expect(notModified.status).toBe(304);
+    expect(notModified.headers.etag).toBe(get.headers.etag);
+  });
+
+  it("strips mountPath from ctx.path behind a router prefix", async () => {
+    const app = createApp({ urlScheme: "path" }, "/img");
+    const res = await request(app.callback()).get(
+      "/img/w_64,f_png/noimage.jpg",
+    );
+
+    expect(res.headers["content-type"]).toBe(mimeTypes.png);
+    expect((await sharp(res.body).metadata()).width).toBe(64);
+  });
+
+  it("passes the Koa context to getUserFolder", async () => {
+    const getUserFolder = vi.fn((ctx: Context): string =>
+      ctx.get("x-tenant") === "acme" ? assetDir : os.tmpdir(),
+    );
+    const res = await request(
+      createApp({ baseDir: os.tmpdir(), getUserFolder }).callback(),
+    )
+      .get("/")
+      .query({ src: "noavatar.png", folder: "private", userId: "u1" })
+      .set("X-Tenant", "acme");
+
+    expect(res.headers["cache-control"]).not.toBe("public, max-age=60");
+    const [ctx, id] = getUserFolder.mock.calls[0]! as unknown as [
+      Context,
+      string,
+    ];
+    expect(ctx.app).toBeInstanceOf(Koa);
+    expect(id).toBe("u1");
+  });
+
+  it("validates options when it is called", () => {
+    const onError = vi.fn();
+    expect(() =>
+      pixelServeKoa({ baseDir: assetDir, minWidth: 5000, onError }),
+    ).toThrow();
+    expect(onError.mock.calls[0]![1]).toEqual({ phase: "schema" });
+  });
+
+  it("throws an unreadable fallback to Koa's error handling", async () => {
+    const variables = await import("./variables");
+    vi.spyOn(variables.FALLBACKIMAGES, "normal").mockRejectedValue(
+      new Error("assets missing"),
+    );
+    const res = await request(createApp().callback())
+      .get("/")
+      .query({ src: "noimage.jpg", width: 99999 });
+
+    expect(res.status).toBe(500);
+  });
+
+  it("reports a response something else already started", async () => {
+    const onError = vi.fn();
+    const app = new Koa();
+    app.silent = true;
+    app.use(async (ctx, next) => {
+      ctx.res.writeHead(200);
+      ctx.res.write("partial");
+      await next();
+    });
+    app.use(pixelServeKoa({ baseDir: assetDir, onError }));
+    const server = app.callback();
+
+    await request(server)
+      .get("/?src=noimage.jpg&width=64")
+      .timeout(1000)
+      .catch(() => undefined);
+    await vi.waitFor(() =>
+      expect(onError.mock.calls[0]![0].message).toBe(
+        "response already flushed",
+      ),
+    );
+    expect(onError.mock.calls[0]![1]).toEqual({ phase: "fs" });
+  });
+});
@@ -0,0 +1,60 @@
+import type { Context, Middleware } from "koa";
+import { stripMountPath } from "./node";
+import { createServeCore, reportError } from "./pixel";
+import type { PixelServeAdapterOptions, PixelServeOptions } from "./types";
+
+/**
+ * Options for `pixelServeKoa`: the same `PixelServeOptions` as
+ * `registerServe`, except that `getUserFolder` receives the Koa `Context`.
+ */
+export type PixelServeKoaOptions = PixelServeOptions<Context>;
+
+/**
+ * @function pixelServeKoa
+ * @description Builds Koa middleware serving images with the same pipeline
+ *   as `registerServe`.
+ * @param {PixelServeKoaOptions} options - The options object for image processing.
+ * @param {PixelServeAdapterOptions} [adapterOptions] - Where the middleware is mounted.
+ * @returns {Middleware} The Koa middleware.
+ *
+ * @example
+ * router.get("/api/v1/pixel/serve", pixelServeKoa({ baseDir: "/srv/images" }));
+ *
+ * Options are validated when it is called, like `registerServe`. The
+ * middleware reads `ctx.query`, `ctx.headers` and `ctx.path` (below
+ * `mountPath`, which `urlScheme: "path"` needs behind a router prefix;
+ * `koa-mount` strips its own) and answers through `ctx.status`, `ctx.set`
+ * and `ctx.body` without calling `next`, so downstream middleware never
+ * runs. `ctx.body` is left unset for `304`s and `HEAD`s, since assigning
+ * it would make Koa recompute `Content-Length`. If even the bundled
+ * fallback cannot be read, or something else already started the
+ * response, the error is thrown to Koa's error handling.
+ */
+export const pixelServeKoa = (
+  options: PixelServeKoaOptions,
+  adapterOptions: PixelServeAdapterOptions = {},
+): Middleware => {
+  const handle = createServeCore(options);
+  const onError = options.onError;
+
+  return async (ctx: Context): Promise<void> => {
+    const response = await handle({
+      method: ctx.method,
+      path: stripMountPath(ctx.path, adapterOptions.mountPath),
+      query: ctx.query,
+      headers: ctx.headers,
+      raw: ctx,
+    });
+    if (ctx.headerSent) {
+      const flushedError = new Error("response already flushed");
+      reportError(onError, flushedError, { phase: "fs" });
+      throw flushedError;
+    }
+    ctx.status = response.status;
+    ctx.set(response.headers);
+    // Assigning a body would overwrite a HEAD response's `Content-Length`.
+    if (response.status !== 304 && ctx.method !== "HEAD") {
+      ctx.body = response.body;
+    }
+  };
+};
@@ -0,0 +1,157 @@
+import http, { type IncomingMessage } from "node:http";
+import path from "node:path";
+import os from "node:os";
+import request from "supertest";
+import sharp from "sharp";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createNodeHandler,
+  splitRequestTarget,
+  type PixelServeNodeOptions,
+} from "./node";
+import { mimeTypes } from "./variables";
+
+const assetDir = path.join(__dirname, "assets");
+
+const createServer = (
+  options: Partial<PixelServeNodeOptions> = {},
+  mountPath?: string,
+): http.Server =>
+  http.createServer(
+    createNodeHandler({ baseDir: assetDir, ...options }, { mountPath }),
+  );
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("splitRequestTarget", () => {
+  it("parses the query like Express and keeps the path encoded", () => {
+    expect(splitRequestTarget("/w_64/my%20cat.jpg?a=1&b=2&b=3&c=x+y")).toEqual({
+      path: "/w_64/my%20cat.jpg",
+      query: { a: "1", b: ["2", "3"], c: "x y" },
+    });
+    expect(splitRequestTarget("")).toEqual({ path: "/", query: {} });
+  });
+
+  it("strips the mount path only at a segment boundary", () => {
+    expect(splitRequestTarget("/img/-/a.jpg", "/img/").path).toBe("/-/a.jpg");
+    expect(splitRequestTarget("/img?src=a.jpg", "/img").path).toBe("/");
+    expect(splitRequestTarget("/images/a.jpg", "/img").path).toBe(
+      "/images/a.jpg",
+    );
+  });
+});
+
+describe("createNodeHandler", () => {
+  it("serves any method and path, stripping only the mount path", async () => {
+    const server = createServer({ urlScheme: "path" }, "/img");
+    const res = await request(server).get("/img/w_64,f_png/noimage.jpg");
+    const outside = await request(server).get("/other/w_64/noimage.jpg");
+    const post = await request(server).post("/img/w_64,f_png/noimage.jpg");
+
+    expect(res.headers["content-type"]).toBe(mimeTypes.png);
+    expect((await sharp(res.body).metadata()).width).toBe(64);
+    expect(outside.headers["cache-control"]).toBe("public, max-age=60");
+    expect(post.status).toBe(200);
+    expect(post.headers["content-type"]).toBe(mimeTypes.png);
+  });
+
+  it("writes bodiless and error responses with writeHead and end", async () => {
+    const onComplete = vi.fn();
+    const server = createServer({ errorMode: "status", onComplete });
+    const query = { src: "noimage.jpg", width: 64 };
+    const get = await request(server).get("/").query(query);
+    const head = await request(server).head("/").query(query);
+    const notModified = await request(server)
+      .get("/")
+      .query(query)
+      .set("If-None-Match", get.headers.etag!);
+    const missing = await request(server)
+      .get("/")
+      .query({ src: "does-not-exist.jpg" });
+
+    expect(head.status).toBe(200);
+    expect(head.headers["content-length"]).toBe(String(get.body.length));
+    expect(notModified.status).toBe(304);
+    expect(notModified.text).toBe("");
+    expect(missing.status).toBe(404);
+    expect(JSON.parse(missing.text)).toMatchObject({ status: 404 });
+    expect(onComplete.mock.calls.map((call) => call[0].cached)).toEqual([
+      false,
+      false,
+      true,
+    ]);
+  });
+
+  it("rejects repeated query keys like Express does", async () => {
+    const onError = vi.fn();
+    const res = await request(createServer({ onError })).get(
+      "/?src=noimage.jpg&width=64&width=32",
+    );
+
+    expect(res.headers["cache-control"]).toBe("public, max-age=60");
+    expect(onError.mock.calls[0]![1].phase).toBe("validation");
+  });
+
+  it("passes the IncomingMessage to getUserFolder", async () => {
+    const getUserFolder = vi.fn((req: IncomingMessage): string =>
+      req.headers["x-tenant"] === "acme" ? assetDir : os.tmpdir(),
+    );
+    const res = await request(
+      createServer({ baseDir: os.tmpdir(), getUserFolder }),
+    )
+      .get("/")
+      .query({ src: "noavatar.png", folder: "private", userId: "u1" })
+      .set("X-Tenant", "acme");
+
+    expect(res.headers["cache-control"]).not.toBe("public, max-age=60");
+    const [req, id] = getUserFolder.mock.calls[0]! as unknown as [
+      IncomingMessage,
+      string,
+    ];
+    expect(req).toBeInstanceOf(http.IncomingMessage);
+    expect(id).toBe("u1");
+  });
+
+  it("validates options when it is called", () => {
+    const onError = vi.fn();
+    expect(() =>
+      createNodeHandler({ baseDir: assetDir, minWidth: 5000, onError }),
+    ).toThrow();
+    expect(onError.mock.calls[0]![1]).toEqual({ phase: "schema" });
+  });
+
+  it("answers an empty 500 when the fallback cannot be read", async () => {
+    const variables = await import("./variables");
+    vi.spyOn(variables.FALLBACKIMAGES, "normal").mockRejectedValue(
+      new Error("assets missing"),
+    );
+    const res = await request(createServer()).get(
+      "/?src=noimage.jpg&width=99999",
+    );
+
+    expect(res.status).toBe(500);
+    expect(res.text).toBe("");
+  });
+
+  it("destroys a response something else already started", async () => {
+    const onError = vi.fn();
+    const handle = createNodeHandler({ baseDir: assetDir, onError });
+    const server = http.createServer((req, res) => {
+      res.writeHead(200);
+      res.write("partial");
+      void handle(req, res);
+    });
+
+    await expect(
+      request(server).get("/?src=noimage.jpg&width=64"),
+    ).rejects.toThrow();
+    await vi.waitFor(() =>
+      expect(onError.mock.calls[0]![0].message).toBe(
+        "response already flushed",
+      ),
+    );
+    expect(onError.mock.calls[0]![1]).toEqual({ phase: "fs" });
+  });
+});
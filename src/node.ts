@@ -0,0 +1,114 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import querystring from "node:querystring";
+import { createServeCore, reportError } from "./pixel";
+import type {
+  PixelServeAdapterOptions,
+  PixelServeOptions,
+  PixelServeResponse,
+} from "./types";
+
+/**
+ * Options for `createNodeHandler`: the same `PixelServeOptions` as
+ * `registerServe`, except that `getUserFolder` receives the
+ * `IncomingMessage`.
+ */
+export type PixelServeNodeOptions = PixelServeOptions<IncomingMessage>;
+
+/**
+ * Returns the still-encoded `pathname` below `mountPath`, or `/` for the
+ * mount point itself. A pathname outside `mountPath` is returned whole;
+ * under `urlScheme: "path"` it then fails to parse and is answered with
+ * the fallback image.
+ */
+export const stripMountPath = (pathname: string, mountPath = ""): string => {
+  const mount = mountPath.replace(/\/+$/, "");
+  const below =
+    mount && (pathname === mount || pathname.startsWith(`${mount}/`))
+      ? pathname.slice(mount.length)
+      : pathname;
+  return below || "/";
+};
+
+/**
+ * Splits a request target into the pathname below `mountPath` and the
+ * query, parsed with `node:querystring` exactly as Express's default
+ * `"simple"` query parser does, so repeated keys become arrays and fail
+ * validation the same way.
+ */
+export const splitRequestTarget = (
+  target: string,
+  mountPath?: string,
+): { path: string; query: Record<string, unknown> } => {
+  const queryStart = target.indexOf("?");
+  const pathname = queryStart === -1 ? target : target.slice(0, queryStart);
+  const search = queryStart === -1 ? "" : target.slice(queryStart + 1);
+  return {
+    path: stripMountPath(pathname, mountPath),
+    query: querystring.parse(search),
+  };
+};
+
+/**
+ * @function createNodeHandler
+ * @description Builds a `node:http` request listener serving images with
+ *   the same pipeline as `registerServe`.
+ * @param {PixelServeNodeOptions} options - The options object for image processing.
+ * @param {PixelServeAdapterOptions} [adapterOptions] - Where the handler is mounted.
+ * @returns {function(IncomingMessage, ServerResponse): Promise<void>} The request listener.
+ *
+ * @example
+ * const handle = createNodeHandler({ baseDir: "/srv/images" });
+ * http.createServer(handle).listen(3000);
+ *
+ * Options are validated when it is called, like `registerServe`. Every
+ * request is served regardless of its method or path, so route to it
+ * yourself when the server does more than serve images; `mountPath` is the
+ * prefix stripped before `urlScheme: "path"` parses the rest. The response
+ * is written with a single `writeHead` and `end`, without a body for
+ * `304`s and `HEAD`s. If even the bundled fallback cannot be read, the
+ * listener answers an empty `500`; if something else already started the
+ * response, the socket is destroyed after `onError` fires with
+ * `phase: "fs"`.
+ */
+export const createNodeHandler = (
+  options: PixelServeNodeOptions,
+  adapterOptions: PixelServeAdapterOptions = {},
+): ((req: IncomingMessage, res: ServerResponse) => Promise<void>) => {
+  const handle = createServeCore(options);
+  const onError = options.onError;
+
+  return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const { path, query } = splitRequestTarget(
+      req.url ?? "/",
+      adapterOptions.mountPath,
+    );
+    let response: PixelServeResponse;
+    try {
+      response = await handle({
+        method: req.method ?? "GET",
+        path,
+        query,
+        headers: req.headers,
+        raw: req,
+      });
+    } catch {
+      if (!res.headersSent) {
+        res.statusCode = 500;
+        res.end();
+      }
+      return;
+    }
+    if (res.headersSent) {
+      const flushedError = new Error("response already flushed");
+      reportError(onError, flushedError, { phase: "fs" });
+      res.destroy(flushedError);
+      return;
+    }
+    res.writeHead(response.status, response.headers);
+    res.end(
+      response.status === 304 || req.method === "HEAD"
+        ? undefined
+        : response.body,
+    );
+  };
+};
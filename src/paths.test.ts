@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { buildPixelPath, parsePixelPath } from "./paths";
+import { signPixelUrl, verifyPixelSignature } from "./signing";
+
+describe("parsePixelPath", () => {
+  it("maps short and full option names onto query parameters", () => {
+    expect(parsePixelPath("/w_300,h_200,f_webp/uploads/cat.jpg")).toEqual({
+      width: "300",
+      height: "200",
+      format: "webp",
+      src: "uploads/cat.jpg",
+    });
+    expect(parsePixelPath("/quality_70,fit_contain,bg_%23fff/a.png")).toEqual({
+      quality: "70",
+      fit: "contain",
+      background: "#fff",
+      src: "a.png",
+    });
+  });
+
+  it("treats - as no options and decodes each src segment", () => {
+    expect(parsePixelPath("/-/dir%20one/a%2Cb.jpg")).toEqual({
+      src: "dir one/a,b.jpg",
+    });
+    expect(parsePixelPath("-/https%3A%2F%2Fcdn.test%2Fx.png")).toEqual({
+      src: "https://cdn.test/x.png",
+    });
+  });
+
+  it("restores the commas of a crop rectangle", () => {
+    expect(parsePixelPath("/crop_10:20:50%25:50%25/a.jpg").crop).toBe(
+      "10,20,50%,50%",
+    );
+  });
+
+  it("rejects unknown, malformed and repeated options", () => {
+    expect(() => parsePixelPath("/zoom_2/a.jpg")).toThrow(
+      'unknown path option "zoom_2"',
+    );
+    expect(() => parsePixelPath("/w300/a.jpg")).toThrow(
+      'unknown path option "w300"',
+    );
+    expect(() => parsePixelPath("/_300/a.jpg")).toThrow();
+    expect(() => parsePixelPath("/w_300,width_400/a.jpg")).toThrow(
+      'path option "width" is repeated',
+    );
+  });
+
+  it("requires a src after the options", () => {
+    expect(() => parsePixelPath("/w_300")).toThrow(
+      "path must be /<options>/<src>",
+    );
+    expect(() => parsePixelPath("/w_300/")).toThrow();
+    expect(() => parsePixelPath("/")).toThrow();
+  });
+});
+
+describe("buildPixelPath", () => {
+  it("writes short names in a fixed order", () => {
+    expect(
+      buildPixelPath({
+        format: "webp",
+        src: "/uploads/my cat.jpg",
+        height: 200,
+        width: 300,
+        userId: undefined,
+        folder: null,
+      }),
+    ).toBe("/w_300,h_200,f_webp/uploads/my%20cat.jpg");
+    expect(buildPixelPath({ src: "a.jpg" })).toBe("/-/a.jpg");
+  });
+
+  it("round-trips through parsePixelPath", () => {
+    const params = {
+      src: "uploads/a,b.jpg",
+      crop: "0,0,50%,50%",
+      background: "#00ff00",
+      enlarge: true,
+      preset: "thumb",
+    };
+    expect(parsePixelPath(buildPixelPath(params))).toEqual({
+      ...params,
+      enlarge: "true",
+    });
+  });
+
+  it("signs the same parameters signPixelUrl does", () => {
+    const params = { src: "uploads/cat.jpg", width: 300, signature: "stale" };
+    const parsed = parsePixelPath(buildPixelPath(params, "k1"));
+    expect(verifyPixelSignature(parsed, ["k1"])).toBe(true);
+    expect(parsed.signature).toBe(
+      new URLSearchParams(signPixelUrl(params, "k1")).get("signature"),
+    );
+    // Without a secret, a stale signature is dropped rather than copied.
+    expect(buildPixelPath(params)).toBe("/w_300/uploads/cat.jpg");
+  });
+
+  it("rejects parameters the path scheme cannot carry", () => {
+    expect(() => buildPixelPath({ src: "a.jpg", zoom: 2 })).toThrow(
+      "cannot express zoom in a pixel path",
+    );
+  });
+});
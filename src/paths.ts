@@ -0,0 +1,167 @@
+import type { UserData } from "./types";
+import {
+  SIGNATURE_PARAM,
+  createPixelSignature,
+  type PixelUrlParams,
+} from "./signing";
+
+/**
+ * Path-scheme token names, short form first. The order is also the order
+ * `buildPixelPath` writes tokens in, so equal parameters always produce
+ * the same path (and CDN cache key).
+ */
+const PATH_TOKENS: ReadonlyArray<[string, keyof UserData]> = [
+  ["p", "preset"],
+  ["w", "width"],
+  ["h", "height"],
+  ["dpr", "dpr"],
+  ["f", "format"],
+  ["q", "quality"],
+  ["fit", "fit"],
+  ["en", "enlarge"],
+  ["bg", "background"],
+  ["pos", "position"],
+  ["g", "gravity"],
+  ["fx", "fx"],
+  ["fy", "fy"],
+  ["crop", "crop"],
+  ["fo", "folder"],
+  ["t", "type"],
+  ["u", "userId"],
+  ["exp", "expires"],
+  ["s", "signature"],
+];
+
+const TOKEN_TO_PARAM = new Map<string, keyof UserData>([
+  ...PATH_TOKENS,
+  // The full parameter names are accepted too.
+  ...PATH_TOKENS.map(([, param]): [string, keyof UserData] => [param, param]),
+]);
+
+/** Placeholder options segment for a path that sets no parameters. */
+export const EMPTY_PATH_OPTIONS = "-";
+
+/**
+ * Encodes one path value. `crop` is written with `:` between its parts
+ * because `,` separates tokens.
+ */
+const encodeValue = (value: string): string =>
+  encodeURIComponent(value).replace(/%3A/gi, ":");
+
+/**
+ * Decodes every segment of `pathname` into a `src`, percent-decoding each
+ * segment on its own so an encoded `/` stays part of its segment. Throws
+ * when nothing is left.
+ */
+export const decodePixelPathSrc = (pathname: string): string => {
+  const segments = pathname.replace(/^\/+/, "").split("/");
+  if (segments.every((part) => part === "")) {
+    throw new Error("path must be /<options>/<src>");
+  }
+  return segments.map((part) => decodeURIComponent(part)).join("/");
+};
+
+/**
+ * Splits `/<options>/<src>` into its raw `name_value` options — names not
+ * yet mapped to parameters — and its decoded `src`. `-` stands for no
+ * options. Throws on a token without a name or `_`, a repeated name, or a
+ * path with no `src`.
+ */
+export const splitPixelPath = (
+  pathname: string,
+): { options: Record<string, string>; src: string } => {
+  const trimmed = pathname.replace(/^\/+/, "");
+  const slash = trimmed.indexOf("/");
+  if (slash === -1) {
+    throw new Error("path must be /<options>/<src>");
+  }
+  const segment = trimmed.slice(0, slash);
+  const options: Record<string, string> = {};
+  if (segment !== EMPTY_PATH_OPTIONS) {
+    for (const token of segment.split(",")) {
+      const separator = token.indexOf("_");
+      if (separator <= 0) {
+        throw new Error(`unknown path option "${token}"`);
+      }
+      const name = token.slice(0, separator);
+      if (Object.hasOwn(options, name)) {
+        throw new Error(`path option "${name}" is repeated`);
+      }
+      options[name] = decodeURIComponent(token.slice(separator + 1));
+    }
+  }
+  return { options, src: decodePixelPathSrc(trimmed.slice(slash + 1)) };
+};
+
+/**
+ * Parses a path-scheme request path — `/<options>/<src>`, relative to
+ * where the middleware is mounted — into the same flat record a query
+ * string produces, ready for `userDataSchema`:
+ *
+ * `/w_300,h_200,f_webp/uploads/cat.jpg` →
+ * `{ width: "300", height: "200", format: "webp", src: "uploads/cat.jpg" }`
+ *
+ * The options segment is a comma-separated list of `name_value` tokens
+ * using the short names above or the full parameter names; `-` stands for
+ * no options. Everything after it is the `src`, percent-decoded segment by
+ * segment. Throws on a token without `_`, an unknown or repeated name, or
+ * a path with no `src`, so a mistyped URL fails validation instead of
+ * silently dropping a parameter.
+ */
+export const parsePixelPath = (pathname: string): Record<string, string> => {
+  const { options, src } = splitPixelPath(pathname);
+  const params: Record<string, string> = {};
+  for (const [name, value] of Object.entries(options)) {
+    const param = TOKEN_TO_PARAM.get(name);
+    if (!param) {
+      throw new Error(`unknown path option "${name}_${value}"`);
+    }
+    if (params[param] !== undefined) {
+      throw new Error(`path option "${param}" is repeated`);
+    }
+    params[param] = param === "crop" ? value.replaceAll(":", ",") : value;
+  }
+  params.src = src;
+  return params;
+};
+
+/**
+ * Builds a path-scheme URL path (relative to the middleware mount) for
+ * `params`, the inverse of `parsePixelPath`. Tokens use the short names in
+ * a fixed order; `undefined`/`null` values are omitted. With `secret`, the
+ * path carries an `s_` signature token that verifies exactly like
+ * `signPixelUrl`'s `signature` parameter.
+ *
+ * @example
+ * buildPixelPath({ src: "uploads/cat.jpg", width: 300, format: "webp" });
+ * // → "/w_300,f_webp/uploads/cat.jpg"
+ */
+export const buildPixelPath = (
+  params: PixelUrlParams & { src: string },
+  secret?: string,
+): string => {
+  const unknown = Object.keys(params).filter(
+    (name) => name !== "src" && !TOKEN_TO_PARAM.has(name),
+  );
+  if (unknown.length > 0) {
+    throw new Error(`cannot express ${unknown.join(", ")} in a pixel path`);
+  }
+  // The parsed path never has a leading slash on `src`, so sign it without.
+  const src = params.src.replace(/^\/+/, "");
+  const values: PixelUrlParams = { ...params, src };
+  delete values[SIGNATURE_PARAM];
+  if (secret !== undefined) {
+    values[SIGNATURE_PARAM] = createPixelSignature(values, secret);
+  }
+  const tokens: string[] = [];
+  for (const [token, param] of PATH_TOKENS) {
+    const value = values[param];
+    if (value === undefined || value === null) continue;
+    tokens.push(`${token}_${encodeValue(String(value))}`);
+  }
+  const encodedSrc = src
+    .split("/")
+    .map((part) => encodeURIComponent(part))
+    .join("/");
+  return `/${tokens.length > 0 ? tokens.join(",") : EMPTY_PATH_OPTIONS}/${encodedSrc}`;
+};
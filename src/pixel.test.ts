@@ -2,19 +2,39 @@ import axios from "axios";
 import express from "express";
 import sharp from "sharp";
 import path from "node:path";
+import os from "node:os";
 import { createHash } from "node:crypto";
 import type { LookupAddress } from "node:dns";
 import { fileURLToPath } from "node:url";
 import request from "supertest";
 import type { Response } from "supertest";
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import type { Mock } from "vitest";
 import registerServe, {
   buildDeterministicEtag,
   buildFilename,
   buildSourceIdentifier,
+  createServeCore,
   isInsideRoot,
   looksLikeSvg,
 } from "./pixel";
+import { createMemoryCacheStore } from "./cache";
+import type {
+  PixelServeCacheEntry,
+  PixelServeCacheStore,
+  PixelServeOptions,
+} from "./types";
+import { buildPixelPath } from "./paths";
+import { signPixelUrl } from "./signing";
 import { mimeTypes } from "./variables";
 import { FALLBACKIMAGES } from "./variables";
 import { fetchImage, isValidPath, readLocalImage } from "./functions";
@@ -4454,3 +4474,3169 @@ describe("Phase 3 (server-hardening): X-Content-Type-Options nosniff", () => {
     toBufferSpy.mockRestore();
   });
 });
+
+describe("diskCache derivative cache", () => {
+  const makeCacheDir = async (): Promise<string> => {
+    const fsmod = await import("node:fs/promises");
+    const osmod = await import("node:os");
+    return fsmod.mkdtemp(path.join(osmod.tmpdir(), "pixel-serve-disk-"));
+  };
+
+  const createCachedApp = (
+    dir: string,
+    extra: Partial<Parameters<typeof registerServe>[0]> = {},
+  ): ReturnType<typeof express> => {
+    const app = express();
+    app.get(
+      "/api/v1/pixel/serve",
+      registerServe({ baseDir: assetDir, diskCache: { dir }, ...extra }),
+    );
+    return app;
+  };
+
+  it("serves a repeat request from disk without resolving the source or running Sharp", async () => {
+    const dir = await makeCacheDir();
+    const app = createCachedApp(dir);
+    const query = { src: "noimage.jpg", width: 120, format: "webp" };
+
+    const first = await request(app)
+      .get("/api/v1/pixel/serve")
+      .query(query)
+      .parse(bufferParser);
+    expect(first.status).toBe(200);
+
+    const readSpy = vi.spyOn(fsp, "readFile");
+    const sharpSpy = vi.spyOn(sharp.prototype, "toBuffer");
+    const second = await request(app)
+      .get("/api/v1/pixel/serve")
+      .query(query)
+      .parse(bufferParser);
+
+    expect(second.status).toBe(200);
+    expect(sharpSpy).not.toHaveBeenCalled();
+    // The only file read is the cache entry itself — never the source.
+    const readPaths = readSpy.mock.calls.map((c) => String(c[0]));
+    expect(readPaths.every((p) => p.startsWith(dir))).toBe(true);
+    expect(second.headers["content-type"]).toBe(mimeTypes.webp);
+    expect(second.headers.etag).toBe(first.headers.etag);
+    expect((second.body as Buffer).equals(first.body as Buffer)).toBe(true);
+    sharpSpy.mockRestore();
+    readSpy.mockRestore();
+  });
+
+  it("keys entries on the transformation, so a different width misses", async () => {
+    const dir = await makeCacheDir();
+    const app = createCachedApp(dir);
+    await request(app)
+      .get("/api/v1/pixel/serve")
+      .query({ src: "noimage.jpg", width: 120, format: "png" });
+
+    const sharpSpy = vi.spyOn(sharp.prototype, "toBuffer");
+    const response = await request(app)
+      .get("/api/v1/pixel/serve")
+      .query({ src: "noimage.jpg", width: 140, format: "png" });
+    expect(response.status).toBe(200);
+    expect(sharpSpy).toHaveBeenCalled();
+    sharpSpy.mockRestore();
+  });
+
+  it("still caches when etag is disabled, without emitting the deterministic ETag", async () => {
+    const dir = await makeCacheDir();
+    const app = createCachedApp(dir, { etag: false });
+    await request(app)
+      .get("/api/v1/pixel/serve")
+      .query({ src: "noimage.jpg", format: "png" });
+
+    const sharpSpy = vi.spyOn(sharp.prototype, "toBuffer");
+    const response = await request(app)
+      .get("/api/v1/pixel/serve")
+      .query({ src: "noimage.jpg", format: "png" });
+    expect(response.status).toBe(200);
+    // Express may still attach its own weak ETag; the middleware's strong
+    // SHA-256 one must not appear.
+    expect(response.headers.etag ?? "").not.toMatch(/^"[0-9a-f]{64}"$/);
+    expect(sharpSpy).not.toHaveBeenCalled();
+    sharpSpy.mockRestore();
+  });
+
+  it("never caches a soft fallback", async () => {
+    const dir = await makeCacheDir();
+    const app = createCachedApp(dir, { allowedNetworkList: [] });
+    // An external URL has a deterministic `url:` identifier before the
+    // fetch runs, but a blocked host resolves to the placeholder.
+    await request(app)
+      .get("/api/v1/pixel/serve")
+      .query({ src: "https://blocked.test/a.jpg", format: "png" });
+
+    const fsmod = await import("node:fs/promises");
+    const files = (await fsmod.readdir(dir)).filter((f) => f.endsWith(".bin"));
+    expect(files).toHaveLength(0);
+  });
+
+  it("reports a corrupt entry through onError (phase=cache) and re-renders", async () => {
+    const dir = await makeCacheDir();
+    const onError = vi.fn();
+    const app = createCachedApp(dir, { onError });
+    const query = { src: "noimage.jpg", format: "png" };
+    await request(app).get("/api/v1/pixel/serve").query(query);
+
+    const fsmod = await import("node:fs/promises");
+    const [file] = (await fsmod.readdir(dir)).filter((f) => f.endsWith(".bin"));
+    await fsmod.writeFile(path.join(dir, file!), "corrupt");
+
+    const response = await request(app)
+      .get("/api/v1/pixel/serve")
+      .query(query)
+      .parse(bufferParser);
+    expect(response.status).toBe(200);
+    expect(response.headers["content-type"]).toBe(mimeTypes.png);
+    expect(onError.mock.calls.some((c) => c[1].phase === "cache")).toBe(true);
+  });
+
+  it("reports a failed write through onError (phase=cache) and still serves the image", async () => {
+    const dir = await makeCacheDir();
+    const onError = vi.fn();
+    const app = createCachedApp(dir, { onError });
+    const renameSpy = vi
+      .spyOn(fsp, "rename")
+      .mockRejectedValueOnce(new Error("disk full"));
+
+    const response = await request(app)
+      .get("/api/v1/pixel/serve")
+      .query({ src: "noimage.jpg", format: "png" })
+      .parse(bufferParser);
+
+    expect(response.status).toBe(200);
+    expect(response.headers["content-type"]).toBe(mimeTypes.png);
+    const cacheCalls = onError.mock.calls.filter((c) => c[1].phase === "cache");
+    expect(cacheCalls).toHaveLength(1);
+    expect((cacheCalls[0]![0] as Error).message).toBe("disk full");
+    renameSpy.mockRestore();
+  });
+
+  it("rejects an empty diskCache.dir at registerServe()", () => {
+    expect(() =>
+      registerServe({ baseDir: assetDir, diskCache: { dir: "" } }),
+    ).toThrow();
+  });
+});
+
+describe("memoryCache in-process LRU", () => {
+  it("skips source resolution and Sharp on a hit and reports cacheHit=memory", async () => {
+    const onComplete = vi.fn();
+    const app = express();
+    app.get(
+      "/api/v1/pixel/serve",
+      registerServe({
+        baseDir: assetDir,
+        memoryCache: { maxBytes: 10_000_000 },
+        onComplete,
+      }),
+    );
+    const query = { src: "noimage.jpg", width: 100, format: "webp" };
+
+    const first = await request(app)
+      .get("/api/v1/pixel/serve")
+      .query(query)
+      .parse(bufferParser);
+    expect(first.status).toBe(200);
+    expect(onComplete.mock.calls[0]![0].cacheHit).toBeUndefined();
+
+    const readSpy = vi.spyOn(fsp, "readFile");
+    const sharpSpy = vi.spyOn(sharp.prototype, "toBuffer");
+    const second = await request(app)
+      .get("/api/v1/pixel/serve")
+      .query(query)
+      .parse(bufferParser);
+
+    expect(second.status).toBe(200);
+    expect(readSpy).not.toHaveBeenCalled();
+    expect(sharpSpy).not.toHaveBeenCalled();
+    expect(second.headers.etag).toBe(first.headers.etag);
+    expect(second.headers["content-type"]).toBe(mimeTypes.webp);
+    expect((second.body as Buffer).equals(first.body as Buffer)).toBe(true);
+    const ctx = onComplete.mock.calls[1]![0];
+    expect(ctx.cacheHit).toBe("memory");
+    expect(ctx.cached).toBe(false);
+    expect(ctx.fallback).toBe(false);
+    expect(ctx.outputBytes).toBe(first.body.length);
+    sharpSpy.mockRestore();
+    readSpy.mockRestore();
+  });
+
+  it("isolates caches between registerServe instances", async () => {
+    const app = express();
+    app.get(
+      "/a",
+      registerServe({ baseDir: assetDir, memoryCache: { maxBytes: 1e7 } }),
+    );
+    app.get(
+      "/b",
+      registerServe({ baseDir: assetDir, memoryCache: { maxBytes: 1e7 } }),
+    );
+    await request(app).get("/a").query({ src: "noimage.jpg" });
+
+    const sharpSpy = vi.spyOn(sharp.prototype, "toBuffer");
+    await request(app).get("/b").query({ src: "noimage.jpg" });
+    expect(sharpSpy).toHaveBeenCalled();
+    sharpSpy.mockRestore();
+  });
+
+  it("promotes a disk hit into memory and reports cacheHit=disk first", async () => {
+    const fsmod = await import("node:fs/promises");
+    const osmod = await import("node:os");
+    const dir = await fsmod.mkdtemp(
+      path.join(osmod.tmpdir(), "pixel-serve-tiered-"),
+    );
+    const onComplete = vi.fn();
+    const options = {
+      baseDir: assetDir,
+      diskCache: { dir },
+      onComplete,
+    };
+    const warm = express();
+    warm.get("/s", registerServe(options));
+    await request(warm).get("/s").query({ src: "noimage.jpg" });
+
+    // A fresh instance has an empty LRU but shares the disk directory.
+    const app = express();
+    app.get(
+      "/s",
+      registerServe({ ...options, memoryCache: { maxBytes: 1e7 } }),
+    );
+    onComplete.mockClear();
+    await request(app).get("/s").query({ src: "noimage.jpg" });
+    await request(app).get("/s").query({ src: "noimage.jpg" });
+
+    expect(onComplete.mock.calls.map((c) => c[0].cacheHit)).toEqual([
+      "disk",
+      "memory",
+    ]);
+  });
+
+  it("does not store soft fallbacks", async () => {
+    const onComplete = vi.fn();
+    const app = express();
+    app.get(
+      "/s",
+      registerServe({
+        baseDir: assetDir,
+        memoryCache: { maxBytes: 1e7 },
+        onComplete,
+      }),
+    );
+    await request(app).get("/s").query({ src: "https://blocked.test/x.jpg" });
+    await request(app).get("/s").query({ src: "https://blocked.test/x.jpg" });
+    expect(onComplete.mock.calls.map((c) => c[0].cacheHit)).toEqual([
+      undefined,
+      undefined,
+    ]);
+  });
+
+  it("rejects a non-positive memoryCache.maxBytes at registerServe()", () => {
+    expect(() =>
+      registerServe({ baseDir: assetDir, memoryCache: { maxBytes: 0 } }),
+    ).toThrow();
+  });
+});
+
+describe("cacheStore pluggable derivative cache", () => {
+  type RecordingStore = {
+    [K in keyof PixelServeCacheStore]: Mock<PixelServeCacheStore[K]>;
+  };
+
+  // A Map-backed async store standing in for Redis, S3, or similar.
+  const createRecordingStore = (): RecordingStore => {
+    const entries = new Map<string, PixelServeCacheEntry>();
+    return {
+      get: vi.fn<PixelServeCacheStore["get"]>(async (key) => entries.get(key)),
+      set: vi.fn<PixelServeCacheStore["set"]>(async (key, entry) => {
+        entries.set(key, entry);
+      }),
+      delete: vi.fn<PixelServeCacheStore["delete"]>(async (key) => {
+        entries.delete(key);
+      }),
+      has: vi.fn<PixelServeCacheStore["has"]>(async (key) => entries.has(key)),
+    };
+  };
+
+  it("serves a hit from the store and reports cacheHit=store", async () => {
+    const store = createRecordingStore();
+    const onComplete = vi.fn();
+    const app = express();
+    app.get(
+      "/s",
+      registerServe({ baseDir: assetDir, cacheStore: store, onComplete }),
+    );
+    const query = { src: "noimage.jpg", width: 120, format: "png" };
+    const first = await request(app).get("/s").query(query);
+    expect(first.status).toBe(200);
+    expect(store.set).toHaveBeenCalledTimes(1);
+    const [key, entry, ttlMs] = store.set.mock.calls[0]!;
+    expect(`"${key}"`).toBe(first.headers.etag);
+    expect(entry.format).toBe("png");
+    expect(ttlMs).toBeUndefined();
+
+    const sharpSpy = vi.spyOn(sharp.prototype, "toBuffer");
+    const second = await request(app)
+      .get("/s")
+      .query(query)
+      .parse(bufferParser);
+    expect(second.status).toBe(200);
+    expect(sharpSpy).not.toHaveBeenCalled();
+    expect(second.headers["content-type"]).toBe(mimeTypes.png);
+    expect(onComplete.mock.calls[1]![0].cacheHit).toBe("store");
+    sharpSpy.mockRestore();
+  });
+
+  it("passes cacheStoreTtlMs to every write", async () => {
+    const store = createRecordingStore();
+    const app = express();
+    app.get(
+      "/s",
+      registerServe({
+        baseDir: assetDir,
+        cacheStore: store,
+        cacheStoreTtlMs: 30_000,
+      }),
+    );
+    await request(app).get("/s").query({ src: "noimage.jpg" });
+    expect(store.set.mock.calls[0]![2]).toBe(30_000);
+  });
+
+  it("accepts a synchronous store", async () => {
+    const store = createMemoryCacheStore({ maxBytes: 1e7 });
+    const onComplete = vi.fn();
+    const app = express();
+    app.get(
+      "/s",
+      registerServe({ baseDir: assetDir, cacheStore: store, onComplete }),
+    );
+    await request(app).get("/s").query({ src: "noimage.jpg" });
+    await request(app).get("/s").query({ src: "noimage.jpg" });
+    expect(onComplete.mock.calls.map((c) => c[0].cacheHit)).toEqual([
+      undefined,
+      "store",
+    ]);
+  });
+
+  it("backfills the memory tier from a store hit", async () => {
+    const store = createRecordingStore();
+    const onComplete = vi.fn();
+    const warm = express();
+    warm.get("/s", registerServe({ baseDir: assetDir, cacheStore: store }));
+    await request(warm).get("/s").query({ src: "noimage.jpg" });
+
+    const app = express();
+    app.get(
+      "/s",
+      registerServe({
+        baseDir: assetDir,
+        cacheStore: store,
+        memoryCache: { maxBytes: 1e7 },
+        onComplete,
+      }),
+    );
+    await request(app).get("/s").query({ src: "noimage.jpg" });
+    await request(app).get("/s").query({ src: "noimage.jpg" });
+    expect(onComplete.mock.calls.map((c) => c[0].cacheHit)).toEqual([
+      "store",
+      "memory",
+    ]);
+    // The store answered once; the memory tier answered the second time.
+    expect(store.get).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports a failing store through onError and still serves the image", async () => {
+    const onError = vi.fn();
+    const app = express();
+    app.get(
+      "/s",
+      registerServe({
+        baseDir: assetDir,
+        onError,
+        cacheStore: {
+          get: () => {
+            throw new Error("store offline");
+          },
+          set: async () => {
+            throw new Error("store read-only");
+          },
+          delete: () => undefined,
+          has: () => false,
+        },
+      }),
+    );
+    const res = await request(app).get("/s").query({ src: "noimage.jpg" });
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toBe(mimeTypes.jpeg);
+    const phases = onError.mock.calls.map((c) => [c[1].phase, c[0].message]);
+    expect(phases).toEqual([
+      ["cache", "store offline"],
+      ["cache", "store read-only"],
+    ]);
+  });
+
+  it("does not write soft fallbacks to the store", async () => {
+    const store = createRecordingStore();
+    const app = express();
+    app.get("/s", registerServe({ baseDir: assetDir, cacheStore: store }));
+    await request(app).get("/s").query({ src: "https://blocked.test/x.jpg" });
+    expect(store.set).not.toHaveBeenCalled();
+  });
+
+  it("rejects a cacheStore without the full interface at registerServe()", () => {
+    expect(() =>
+      registerServe({
+        baseDir: assetDir,
+        cacheStore: { get: () => undefined } as never,
+      }),
+    ).toThrow(/cacheStore must implement/);
+    expect(() =>
+      registerServe({
+        baseDir: assetDir,
+        cacheStore: createMemoryCacheStore({ maxBytes: 1 }),
+        cacheStoreTtlMs: 0,
+      }),
+    ).toThrow();
+  });
+});
+
+describe("request coalescing", () => {
+  const CONCURRENCY = 4;
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Holds every local `readFile` until `release` is called, so the first
+  // request's pipeline stays in flight while the others arrive.
+  const gateReadFile = (): { release: () => void } => {
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const realReadFile = fsp.readFile;
+    vi.spyOn(fsp, "readFile").mockImplementation(async (...args) => {
+      await gate;
+      return realReadFile(...(args as Parameters<typeof realReadFile>));
+    });
+    return { release };
+  };
+
+  // Every request consults `cacheStore.get` right before joining (or
+  // starting) the in-flight pipeline, so once all of them have called it and
+  // the microtask queue drains, every follower is parked on the leader.
+  const createCountingStore = (): PixelServeCacheStore & {
+    get: Mock<PixelServeCacheStore["get"]>;
+    set: Mock<PixelServeCacheStore["set"]>;
+  } => ({
+    get: vi.fn<PixelServeCacheStore["get"]>(async () => undefined),
+    set: vi.fn<PixelServeCacheStore["set"]>(async () => undefined),
+    delete: () => undefined,
+    has: () => false,
+  });
+
+  const fireConcurrently = async (
+    app: express.Express,
+    store: ReturnType<typeof createCountingStore>,
+    release: () => void,
+    queries: Array<Record<string, string | number>>,
+  ): Promise<Response[]> => {
+    const pending = queries.map((query) =>
+      request(app)
+        .get("/s")
+        .query(query)
+        .parse(bufferParser)
+        .then((r) => r),
+    );
+    await vi.waitFor(() =>
+      expect(store.get).toHaveBeenCalledTimes(queries.length),
+    );
+    await new Promise((resolve) => setImmediate(resolve));
+    release();
+    return Promise.all(pending);
+  };
+
+  it("runs one pipeline for identical concurrent requests and fans out the result", async () => {
+    const store = createCountingStore();
+    const onComplete = vi.fn();
+    const app = express();
+    app.get(
+      "/s",
+      registerServe({ baseDir: assetDir, cacheStore: store, onComplete }),
+    );
+    const { release } = gateReadFile();
+    const sharpSpy = vi.spyOn(sharp.prototype, "toBuffer");
+    const query = { src: "noimage.jpg", width: 80, format: "webp" };
+
+    const responses = await fireConcurrently(
+      app,
+      store,
+      release,
+      Array.from({ length: CONCURRENCY }, () => query),
+    );
+
+    expect(fsp.readFile).toHaveBeenCalledTimes(1);
+    expect(sharpSpy).toHaveBeenCalledTimes(1);
+    expect(store.set).toHaveBeenCalledTimes(1);
+    for (const res of responses) {
+      expect(res.status).toBe(200);
+      expect(res.headers["content-type"]).toBe(mimeTypes.webp);
+      expect(res.headers.etag).toBe(responses[0]!.headers.etag);
+      expect((res.body as Buffer).equals(responses[0]!.body as Buffer)).toBe(
+        true,
+      );
+    }
+    expect(onComplete).toHaveBeenCalledTimes(CONCURRENCY);
+    const coalesced = onComplete.mock.calls.map((c) => c[0].coalesced);
+    expect(coalesced.filter((flag) => flag === true)).toHaveLength(
+      CONCURRENCY - 1,
+    );
+    expect(coalesced.filter((flag) => flag === undefined)).toHaveLength(1);
+    sharpSpy.mockRestore();
+  });
+
+  it("does not coalesce requests whose transformations differ", async () => {
+    const store = createCountingStore();
+    const app = express();
+    app.get("/s", registerServe({ baseDir: assetDir, cacheStore: store }));
+    const { release } = gateReadFile();
+
+    const responses = await fireConcurrently(app, store, release, [
+      { src: "noimage.jpg", width: 80 },
+      { src: "noimage.jpg", width: 90 },
+    ]);
+
+    expect(responses.map((r) => r.status)).toEqual([200, 200]);
+    expect(fsp.readFile).toHaveBeenCalledTimes(2);
+  });
+
+  it("serves every waiter a hard fallback when the shared run fails", async () => {
+    const store = createCountingStore();
+    const onComplete = vi.fn();
+    const onError = vi.fn();
+    const app = express();
+    app.get(
+      "/s",
+      registerServe({
+        baseDir: assetDir,
+        cacheStore: store,
+        onComplete,
+        onError,
+      }),
+    );
+    const { release } = gateReadFile();
+    const sharpSpy = vi
+      .spyOn(sharp.prototype, "toBuffer")
+      .mockRejectedValueOnce(new Error("encoder crashed"));
+
+    const responses = await fireConcurrently(
+      app,
+      store,
+      release,
+      Array.from({ length: CONCURRENCY }, () => ({ src: "noimage.jpg" })),
+    );
+
+    expect(sharpSpy).toHaveBeenCalledTimes(1);
+    expect(responses.every((r) => r.status === 200)).toBe(true);
+    expect(
+      responses.every(
+        (r) => r.headers["cache-control"] === "public, max-age=60",
+      ),
+    ).toBe(true);
+    expect(onComplete).toHaveBeenCalledTimes(CONCURRENCY);
+    expect(onComplete.mock.calls.every((c) => c[0].fallback === true)).toBe(
+      true,
+    );
+    // The failure is reported once, by the run that hit it.
+    const sharpErrors = onError.mock.calls
+      .filter((c) => c[1].phase === "sharp")
+      .map((c) => (c[0] as Error).message);
+    expect(sharpErrors).toEqual(["encoder crashed"]);
+    expect(store.set).not.toHaveBeenCalled();
+    sharpSpy.mockRestore();
+  });
+
+  it("forgets a settled run so the next request starts its own", async () => {
+    const app = express();
+    app.get("/s", registerServe({ baseDir: assetDir }));
+    const sharpSpy = vi.spyOn(sharp.prototype, "toBuffer");
+
+    await request(app).get("/s").query({ src: "noimage.jpg" });
+    await request(app).get("/s").query({ src: "noimage.jpg" });
+
+    expect(sharpSpy).toHaveBeenCalledTimes(2);
+    sharpSpy.mockRestore();
+  });
+});
+
+describe("upstreamCache for remote sources", () => {
+  const SRC = "https://allowed.test/hero.jpg";
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const originResponse = async (
+    asset: string,
+    headers: Record<string, string>,
+  ): Promise<Awaited<ReturnType<typeof axios.get>>> => ({
+    data: await fsp.readFile(path.join(assetDir, asset)),
+    headers: {
+      "content-type": asset.endsWith(".png") ? mimeTypes.png : mimeTypes.jpeg,
+      ...headers,
+    },
+    status: 200,
+    statusText: "OK",
+    config: {},
+  });
+
+  const createApp = (
+    extra: Partial<Parameters<typeof registerServe>[0]> = {},
+  ): express.Express => {
+    const app = express();
+    app.get(
+      "/s",
+      registerServe({
+        baseDir: assetDir,
+        allowedNetworkList: ["allowed.test"],
+        upstreamCache: { maxBytes: 10_000_000 },
+        ...extra,
+      }),
+    );
+    return app;
+  };
+
+  it("reuses a fresh origin body without refetching", async () => {
+    vi.mocked(axios.get).mockResolvedValueOnce(
+      await originResponse("noimage.jpg", { "cache-control": "max-age=300" }),
+    );
+    const app = createApp();
+
+    const first = await request(app).get("/s").query({ src: SRC });
+    const second = await request(app).get("/s").query({ src: SRC });
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(200);
+    expect(axios.get).toHaveBeenCalledTimes(1);
+    expect(second.headers.etag).toBe(first.headers.etag);
+  });
+
+  it("changes the deterministic ETag when the origin image changes", async () => {
+    vi.mocked(axios.get)
+      .mockResolvedValueOnce(
+        await originResponse("noimage.jpg", { etag: '"origin-1"' }),
+      )
+      .mockResolvedValueOnce(
+        await originResponse("noavatar.png", { etag: '"origin-2"' }),
+      );
+    const app = createApp();
+
+    const first = await request(app).get("/s").query({ src: SRC });
+    const second = await request(app)
+      .get("/s")
+      .query({ src: SRC })
+      .set("If-None-Match", first.headers.etag as string);
+
+    expect(second.status).toBe(200);
+    expect(second.headers.etag).toMatch(/^"[0-9a-f]{64}"$/);
+    expect(second.headers.etag).not.toBe(first.headers.etag);
+  });
+
+  it("answers a client revalidation with 304 when the origin also answers 304", async () => {
+    vi.mocked(axios.get)
+      .mockResolvedValueOnce(
+        await originResponse("noimage.jpg", { etag: '"origin-1"' }),
+      )
+      .mockResolvedValueOnce({
+        data: Buffer.alloc(0),
+        headers: {},
+        status: 304,
+        statusText: "Not Modified",
+        config: {},
+      });
+    const app = createApp();
+
+    const first = await request(app).get("/s").query({ src: SRC });
+    const sharpSpy = vi.spyOn(sharp.prototype, "toBuffer");
+    const second = await request(app)
+      .get("/s")
+      .query({ src: SRC })
+      .set("If-None-Match", first.headers.etag as string);
+
+    expect(second.status).toBe(304);
+    expect(sharpSpy).not.toHaveBeenCalled();
+    expect(vi.mocked(axios.get).mock.calls[1]![1]?.headers).toEqual({
+      "If-None-Match": '"origin-1"',
+    });
+  });
+
+  it("keys the derivative cache on the origin version", async () => {
+    vi.mocked(axios.get)
+      .mockResolvedValueOnce(
+        await originResponse("noimage.jpg", { etag: '"origin-1"' }),
+      )
+      .mockResolvedValueOnce(
+        await originResponse("noavatar.png", { etag: '"origin-2"' }),
+      );
+    const onComplete = vi.fn();
+    const app = createApp({ memoryCache: { maxBytes: 1e7 }, onComplete });
+
+    await request(app).get("/s").query({ src: SRC, format: "webp" });
+    await request(app).get("/s").query({ src: SRC, format: "webp" });
+
+    // The origin changed, so the second request must not be served the
+    // first request's derivative.
+    expect(onComplete.mock.calls.map((c) => c[0].cacheHit)).toEqual([
+      undefined,
+      undefined,
+    ]);
+  });
+
+  it("treats a failed origin fetch as a soft fallback with a buffer-hash ETag", async () => {
+    vi.mocked(axios.get).mockRejectedValue(new Error("offline"));
+    const onComplete = vi.fn();
+    const app = createApp({ onComplete });
+
+    const res = await request(app).get("/s").query({ src: SRC });
+
+    expect(res.status).toBe(200);
+    expect(res.headers["cache-control"]).toBe("public, max-age=60");
+    expect(onComplete.mock.calls[0]![0].fallback).toBe(true);
+  });
+
+  it("leaves internal-host URLs on their mtime:size identifier", async () => {
+    const app = createApp({ websiteURL: "example.com" });
+    const res = await request(app)
+      .get("/s")
+      .query({ src: "https://example.com/noimage.jpg" });
+    expect(res.status).toBe(200);
+    expect(axios.get).not.toHaveBeenCalled();
+  });
+
+  it("rejects a non-positive upstreamCache.maxBytes at registerServe()", () => {
+    expect(() =>
+      registerServe({ baseDir: assetDir, upstreamCache: { maxBytes: 0 } }),
+    ).toThrow();
+    expect(() =>
+      registerServe({
+        baseDir: assetDir,
+        upstreamCache: { maxBytes: 1, defaultTtlMs: -1 },
+      }),
+    ).toThrow();
+  });
+});
+
+describe("format=auto Accept negotiation", () => {
+  const createApp = (
+    extra: Partial<Parameters<typeof registerServe>[0]> = {},
+  ): express.Express => {
+    const app = express();
+    app.get("/s", registerServe({ baseDir: assetDir, ...extra }));
+    return app;
+  };
+
+  const fetchAuto = (
+    app: express.Express,
+    src: string,
+    accept?: string,
+  ): Promise<Response> => {
+    const req = request(app)
+      .get("/s")
+      .query({ src, format: "auto", width: 64 })
+      .parse(bufferParser);
+    return accept === undefined ? req : req.set("Accept", accept);
+  };
+
+  it("prefers AVIF, then WebP, when the client advertises them", async () => {
+    const app = createApp();
+    const avif = await fetchAuto(
+      app,
+      "noimage.jpg",
+      "image/avif,image/webp,*/*",
+    );
+    const webp = await fetchAuto(app, "noimage.jpg", "image/webp,*/*");
+
+    expect(avif.headers["content-type"]).toBe(mimeTypes.avif);
+    expect(webp.headers["content-type"]).toBe(mimeTypes.webp);
+    expect((await sharp(webp.body as Buffer).metadata()).format).toBe("webp");
+    expect(avif.headers.etag).not.toBe(webp.headers.etag);
+    expect(avif.headers.vary).toBe("Accept-Encoding, Accept");
+  });
+
+  it("ignores media types refused with q=0 and wildcard ranges", async () => {
+    const app = createApp();
+    const res = await fetchAuto(
+      app,
+      "noimage.jpg",
+      "image/avif;q=0, image/webp;q=0.8, image/*",
+    );
+    expect(res.headers["content-type"]).toBe(mimeTypes.webp);
+
+    const wildcard = await fetchAuto(app, "noimage.jpg", "image/*,*/*;q=0.8");
+    expect(wildcard.headers["content-type"]).toBe(mimeTypes.jpeg);
+  });
+
+  it("falls back to PNG for alpha sources and JPEG otherwise", async () => {
+    const onComplete = vi.fn();
+    const app = createApp({ onComplete });
+    const png = await fetchAuto(app, "noavatar.png");
+    const jpeg = await fetchAuto(app, "noimage.jpg", "text/html");
+
+    expect(png.headers["content-type"]).toBe(mimeTypes.png);
+    expect(jpeg.headers["content-type"]).toBe(mimeTypes.jpeg);
+    expect(onComplete.mock.calls.map((c) => c[0].format)).toEqual([
+      "png",
+      "jpeg",
+    ]);
+  });
+
+  it("answers a matching If-None-Match with 304 and Vary: Accept before Sharp", async () => {
+    const app = createApp();
+    const first = await fetchAuto(app, "noimage.jpg", "image/webp");
+    const sharpSpy = vi.spyOn(sharp.prototype, "toBuffer");
+    const second = await request(app)
+      .get("/s")
+      .query({ src: "noimage.jpg", format: "auto", width: 64 })
+      .set("Accept", "image/webp")
+      .set("If-None-Match", first.headers.etag as string);
+
+    expect(second.status).toBe(304);
+    expect(second.headers.vary).toBe("Accept-Encoding, Accept");
+    expect(sharpSpy).not.toHaveBeenCalled();
+    sharpSpy.mockRestore();
+  });
+
+  it("reports a 304's undecided format only once an encode recorded it", async () => {
+    const onComplete = vi.fn();
+    const first = await fetchAuto(createApp(), "noavatar.png");
+    const app = createApp({ onComplete });
+    const revalidate = (): Promise<Response> =>
+      request(app)
+        .get("/s")
+        .query({ src: "noavatar.png", format: "auto", width: 64 })
+        .set("If-None-Match", first.headers.etag as string);
+
+    await revalidate();
+    await fetchAuto(app, "noavatar.png");
+    await revalidate();
+
+    expect(
+      onComplete.mock.calls.map((c) => [c[0].cached, c[0].format]),
+    ).toEqual([
+      [true, undefined],
+      [false, "png"],
+      [true, "png"],
+    ]);
+  });
+
+  it("caches negotiated variants under distinct keys", async () => {
+    const onComplete = vi.fn();
+    const app = createApp({ memoryCache: { maxBytes: 1e7 }, onComplete });
+    await fetchAuto(app, "noimage.jpg", "image/webp");
+    await fetchAuto(app, "noimage.jpg");
+    const cachedWebp = await fetchAuto(app, "noimage.jpg", "image/webp");
+    const cachedJpeg = await fetchAuto(app, "noimage.jpg");
+
+    expect(cachedWebp.headers["content-type"]).toBe(mimeTypes.webp);
+    expect(cachedJpeg.headers["content-type"]).toBe(mimeTypes.jpeg);
+    expect(onComplete.mock.calls.map((c) => c[0].cacheHit)).toEqual([
+      undefined,
+      undefined,
+      "memory",
+      "memory",
+    ]);
+  });
+
+  it("leaves Vary untouched for explicit formats", async () => {
+    const res = await request(createApp())
+      .get("/s")
+      .query({ src: "noimage.jpg", format: "webp" });
+    expect(res.headers.vary).toBe("Accept-Encoding");
+  });
+});
+
+describe("fit, enlarge and background resize parameters", () => {
+  const createApp = (
+    extra: Partial<Parameters<typeof registerServe>[0]> = {},
+  ): express.Express => {
+    const app = express();
+    app.get("/s", registerServe({ baseDir: assetDir, ...extra }));
+    return app;
+  };
+
+  const fetchResized = (
+    app: express.Express,
+    query: Record<string, string | number>,
+  ): Promise<Response> =>
+    request(app)
+      .get("/s")
+      .query({ src: "noimage.jpg", format: "png", ...query })
+      .parse(bufferParser);
+
+  it("crops to the box by default and letterboxes with fit=contain", async () => {
+    const app = createApp();
+    const cover = await fetchResized(app, { width: 200, height: 100 });
+    const contain = await fetchResized(app, {
+      width: 200,
+      height: 100,
+      fit: "contain",
+      background: "ff0000",
+    });
+
+    expect(await sharp(cover.body as Buffer).metadata()).toMatchObject({
+      width: 200,
+      height: 100,
+    });
+    const { data, info } = await sharp(contain.body as Buffer)
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    expect([info.width, info.height]).toEqual([200, 100]);
+    // The 500x500 source shrinks to 100x100 centered; column 0 is padding.
+    expect([data[0], data[1], data[2]]).toEqual([255, 0, 0]);
+    expect(contain.headers.etag).not.toBe(cover.headers.etag);
+  });
+
+  it("keeps the aspect ratio with fit=inside", async () => {
+    const res = await fetchResized(createApp(), {
+      width: 200,
+      height: 100,
+      fit: "inside",
+    });
+    expect(await sharp(res.body as Buffer).metadata()).toMatchObject({
+      width: 100,
+      height: 100,
+    });
+  });
+
+  it("upscales past the source only when enlarge is set", async () => {
+    const app = createApp();
+    const capped = await fetchResized(app, { width: 800 });
+    const enlarged = await fetchResized(app, { width: 800, enlarge: "true" });
+
+    expect((await sharp(capped.body as Buffer).metadata()).width).toBe(500);
+    expect((await sharp(enlarged.body as Buffer).metadata()).width).toBe(800);
+  });
+
+  it("rejects a fit outside allowedFits as a validation error", async () => {
+    const onError = vi.fn();
+    const app = createApp({ allowedFits: ["cover", "inside"], onError });
+    const res = await fetchResized(app, { width: 100, fit: "fill" });
+
+    expect(res.status).toBe(200);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'fit "fill" is not in allowedFits' }),
+      expect.objectContaining({ phase: "validation" }),
+    );
+  });
+
+  it("leaves the ETag of requests without resize parameters unchanged", () => {
+    const fields = {
+      src: "a.jpg",
+      width: 100,
+      height: undefined,
+      format: "jpeg",
+      quality: 80,
+      type: "normal" as const,
+      folder: "public" as const,
+      parsedUserId: undefined,
+    };
+    const key = JSON.stringify({
+      src: "a.jpg",
+      w: 100,
+      h: "",
+      f: "jpeg",
+      q: 80,
+      t: "normal",
+      fo: "public",
+      u: "",
+      sid: "sid",
+    });
+    expect(buildDeterministicEtag(fields, "sid")).toBe(
+      `"${createHash("sha256").update(key).digest("hex")}"`,
+    );
+    expect(buildDeterministicEtag({ ...fields, fit: "cover" }, "sid")).not.toBe(
+      buildDeterministicEtag(fields, "sid"),
+    );
+  });
+});
+
+describe("crop position, gravity and focal point", () => {
+  // 400x200, red on the left half and blue on the right, so the colour at
+  // each edge of a 100x100 crop shows which part of the source was kept.
+  let dir: string;
+
+  const halves = async (
+    width: number,
+    height: number,
+    split: "vertical" | "horizontal",
+  ): Promise<sharp.Sharp> => {
+    const half = {
+      width: split === "vertical" ? width / 2 : width,
+      height: split === "vertical" ? height : height / 2,
+    };
+    const blue = await sharp({
+      create: { ...half, channels: 3, background: { r: 0, g: 0, b: 255 } },
+    })
+      .png()
+      .toBuffer();
+    return sharp({
+      create: {
+        width,
+        height,
+        channels: 3,
+        background: { r: 255, g: 0, b: 0 },
+      },
+    }).composite([
+      {
+        input: blue,
+        left: split === "vertical" ? width / 2 : 0,
+        top: split === "vertical" ? 0 : height / 2,
+      },
+    ]);
+  };
+
+  beforeAll(async () => {
+    dir = await fsp.mkdtemp(path.join(os.tmpdir(), "pixel-serve-focal-"));
+    await fsp.writeFile(
+      path.join(dir, "split.png"),
+      await (await halves(400, 200, "vertical")).png().toBuffer(),
+    );
+    // Stored 200x400 with red on top; EXIF orientation 6 turns it a quarter
+    // clockwise, so it displays 400x200 with blue on the left.
+    await fsp.writeFile(
+      path.join(dir, "rotated.jpg"),
+      await (await halves(200, 400, "horizontal"))
+        .withMetadata({ orientation: 6 })
+        .jpeg({ quality: 100 })
+        .toBuffer(),
+    );
+  });
+
+  afterAll(async () => {
+    await fsp.rm(dir, { recursive: true, force: true });
+  });
+
+  const createApp = (
+    extra: Partial<Parameters<typeof registerServe>[0]> = {},
+  ): express.Express => {
+    const app = express();
+    app.get("/s", registerServe({ baseDir: dir, ...extra }));
+    return app;
+  };
+
+  const fetchSquare = (
+    app: express.Express,
+    query: Record<string, string | number> = {},
+  ): Promise<Response> =>
+    request(app)
+      .get("/s")
+      .query({
+        src: "split.png",
+        format: "png",
+        width: 100,
+        height: 100,
+        ...query,
+      })
+      .parse(bufferParser);
+
+  /** Whether the pixel at column `x` of row 0 is predominantly red. */
+  const redAt = async (body: Buffer, x: number): Promise<boolean> => {
+    const { data, info } = await sharp(body)
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const offset = x * info.channels;
+    return data[offset]! > 128 && data[offset + 2]! < 128;
+  };
+
+  it("crops the centre by default and honours compass positions", async () => {
+    const app = createApp();
+    const centre = await fetchSquare(app);
+    const west = await fetchSquare(app, { position: "west" });
+    const east = await fetchSquare(app, { gravity: "East" });
+
+    expect([await redAt(centre.body, 0), await redAt(centre.body, 99)]).toEqual(
+      [true, false],
+    );
+    expect(await redAt(west.body, 99)).toBe(true);
+    expect(await redAt(east.body, 0)).toBe(false);
+    expect(new Set([centre, west, east].map((r) => r.headers.etag)).size).toBe(
+      3,
+    );
+  });
+
+  it("treats centre and center as one ETag key", async () => {
+    const app = createApp();
+    const british = await fetchSquare(app, { position: "centre" });
+    const american = await fetchSquare(app, { position: "center" });
+    expect(british.headers.etag).toBe(american.headers.etag);
+  });
+
+  it("accepts the entropy and attention strategies", async () => {
+    const app = createApp();
+    for (const position of ["entropy", "attention"]) {
+      const res = await fetchSquare(app, { position });
+      expect(await sharp(res.body as Buffer).metadata()).toMatchObject({
+        width: 100,
+        height: 100,
+      });
+    }
+  });
+
+  it("letterboxes with fit=contain whatever the position strategy", async () => {
+    const app = createApp();
+    for (const position of ["entropy", "attention"]) {
+      const res = await fetchSquare(app, { fit: "contain", position });
+      expect(res.status).toBe(200);
+      expect(res.headers["cache-control"]).not.toBe("public, max-age=60");
+      expect(await sharp(res.body as Buffer).metadata()).toMatchObject({
+        width: 100,
+        height: 100,
+      });
+    }
+  });
+
+  it("leaves the focal point out of the ETag when it cannot apply", async () => {
+    const app = createApp();
+    const contain = await fetchSquare(app, { fit: "contain" });
+    const containFocal = await fetchSquare(app, { fit: "contain", fx: 0.2 });
+    const wide = await request(app)
+      .get("/s")
+      .query({ src: "split.png", width: 100 });
+    const wideFocal = await request(app)
+      .get("/s")
+      .query({ src: "split.png", width: 100, fx: 0.2, fy: 0 });
+    const cover = await fetchSquare(app);
+    const coverFocal = await fetchSquare(app, { fx: 0.2 });
+
+    expect(containFocal.headers.etag).toBe(contain.headers.etag);
+    expect(wideFocal.headers.etag).toBe(wide.headers.etag);
+    expect(coverFocal.headers.etag).not.toBe(cover.headers.etag);
+  });
+
+  it("centres the crop on the focal point, clamped to the image edges", async () => {
+    const app = createApp();
+    const left = await fetchSquare(app, { fx: 0, fy: 0.5 });
+    const right = await fetchSquare(app, { fx: "1" });
+    // Scaled to 200x100, fx=0.6 centres the window on column 120: it spans
+    // source columns 70–169, so red ends 30 columns in.
+    const offCentre = await fetchSquare(app, { fx: 0.6, position: "east" });
+
+    expect(await redAt(left.body, 99)).toBe(true);
+    expect(await redAt(right.body, 0)).toBe(false);
+    expect(await redAt(offCentre.body, 28)).toBe(true);
+    expect(await redAt(offCentre.body, 32)).toBe(false);
+    expect(await sharp(offCentre.body as Buffer).metadata()).toMatchObject({
+      width: 100,
+      height: 100,
+    });
+  });
+
+  it("maps focal fractions onto the auto-rotated image", async () => {
+    const res = await fetchSquare(createApp(), { src: "rotated.jpg", fx: 0 });
+    expect(await redAt(res.body, 50)).toBe(false);
+  });
+
+  it("clips the focal window to a source smaller than the box", async () => {
+    const res = await fetchSquare(createApp(), {
+      width: 800,
+      height: 300,
+      fx: 1,
+    });
+    expect(await sharp(res.body as Buffer).metadata()).toMatchObject({
+      width: 400,
+      height: 200,
+    });
+  });
+
+  it("rejects focal coordinates outside [0, 1] and unknown positions", async () => {
+    const onError = vi.fn();
+    const app = createApp({ onError });
+    await fetchSquare(app, { fx: 1.5 });
+    await fetchSquare(app, { position: "up" });
+    expect(onError.mock.calls.map((call) => call[1].phase)).toEqual([
+      "validation",
+      "validation",
+    ]);
+  });
+});
+
+describe("crop rectangle", () => {
+  // 400x200: red left half, blue right half.
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fsp.mkdtemp(path.join(os.tmpdir(), "pixel-serve-crop-"));
+    const blue = await sharp({
+      create: {
+        width: 200,
+        height: 200,
+        channels: 3,
+        background: { r: 0, g: 0, b: 255 },
+      },
+    })
+      .png()
+      .toBuffer();
+    await fsp.writeFile(
+      path.join(dir, "split.png"),
+      await sharp({
+        create: {
+          width: 400,
+          height: 200,
+          channels: 3,
+          background: { r: 255, g: 0, b: 0 },
+        },
+      })
+        .composite([{ input: blue, left: 200, top: 0 }])
+        .png()
+        .toBuffer(),
+    );
+  });
+
+  afterAll(async () => {
+    await fsp.rm(dir, { recursive: true, force: true });
+  });
+
+  const fetchCrop = (
+    query: Record<string, string | number>,
+    onError?: PixelServeOptions["onError"],
+  ): Promise<Response> => {
+    const app = express();
+    app.get("/s", registerServe({ baseDir: dir, onError }));
+    return request(app)
+      .get("/s")
+      .query({ src: "split.png", format: "png", ...query })
+      .parse(bufferParser);
+  };
+
+  const pixel = async (body: Buffer): Promise<number[]> => {
+    const { data } = await sharp(body)
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    return [data[0]!, data[1]!, data[2]!];
+  };
+
+  it("extracts a pixel rectangle before resizing", async () => {
+    const res = await fetchCrop({ crop: "250,50,100,100", width: 50 });
+    expect(await sharp(res.body as Buffer).metadata()).toMatchObject({
+      width: 50,
+      height: 50,
+    });
+    expect(await pixel(res.body)).toEqual([0, 0, 255]);
+  });
+
+  it("accepts percentages and mixed units", async () => {
+    const whole = await fetchCrop({ crop: "0%,0%,100%,100%" });
+    const left = await fetchCrop({ crop: "0,25%,50%,50" });
+    expect(await sharp(whole.body as Buffer).metadata()).toMatchObject({
+      width: 400,
+      height: 200,
+    });
+    expect(await sharp(left.body as Buffer).metadata()).toMatchObject({
+      width: 200,
+      height: 50,
+    });
+    expect(await pixel(left.body)).toEqual([255, 0, 0]);
+    expect(left.headers.etag).not.toBe(whole.headers.etag);
+  });
+
+  it("applies focal points to the cropped region", async () => {
+    // The crop spans x 100–300; fx=1 pins the 100px-wide window to its
+    // right edge, x 200–300, which is all blue.
+    const res = await fetchCrop({
+      crop: "100,0,200,200",
+      width: 100,
+      height: 200,
+      fx: 1,
+    });
+    expect(await pixel(res.body)).toEqual([0, 0, 255]);
+  });
+
+  it("reports a rectangle past the source edges as a validation error", async () => {
+    const onError = vi.fn();
+    const res = await fetchCrop({ crop: "300,0,101,200" }, onError);
+
+    expect(res.status).toBe(200);
+    expect(res.headers["cache-control"]).toBe("public, max-age=60");
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: "crop rectangle exceeds the 400x200 source",
+      }),
+      expect.objectContaining({ phase: "validation", src: "split.png" }),
+    );
+  });
+
+  it("rejects malformed rectangles before touching the source", async () => {
+    const onError = vi.fn();
+    await fetchCrop({ crop: "0,0,10" }, onError);
+    await fetchCrop({ crop: "0,0,0,10" }, onError);
+    expect(onError.mock.calls.map((call) => call[1].phase)).toEqual([
+      "validation",
+      "validation",
+    ]);
+  });
+});
+
+describe("dpr device pixel ratio", () => {
+  const fetchWidth = async (
+    options: Partial<PixelServeOptions>,
+    query: Record<string, string | number>,
+  ): Promise<{ width: number | undefined; etag: string | undefined }> => {
+    const app = express();
+    app.get("/s", registerServe({ baseDir: assetDir, ...options }));
+    const res = await request(app)
+      .get("/s")
+      .query({ src: "noimage.jpg", ...query })
+      .parse(bufferParser);
+    return {
+      width: (await sharp(res.body as Buffer).metadata()).width,
+      etag: res.headers.etag as string | undefined,
+    };
+  };
+
+  it("serves physical pixels keyed like the equivalent plain width", async () => {
+    const dense = await fetchWidth({}, { width: 100, dpr: 2 });
+    const plain = await fetchWidth({}, { width: 200 });
+    expect(dense.width).toBe(200);
+    expect(dense.etag).toBe(plain.etag);
+  });
+
+  it("caps the ratio at maxDpr and the result at maxWidth", async () => {
+    expect(
+      (await fetchWidth({ maxDpr: 2 }, { width: 100, dpr: 3 })).width,
+    ).toBe(200);
+    expect(
+      (await fetchWidth({ maxWidth: 150 }, { width: 100, dpr: 2 })).width,
+    ).toBe(150);
+  });
+});
+
+describe("clientHints", () => {
+  const createApp = (
+    extra: Partial<PixelServeOptions> = {},
+  ): express.Express => {
+    const app = express();
+    app.get(
+      "/s",
+      registerServe({ baseDir: assetDir, clientHints: {}, ...extra }),
+    );
+    return app;
+  };
+
+  const fetchHinted = (
+    app: express.Express,
+    headers: Record<string, string>,
+    query: Record<string, string | number> = {},
+  ): Promise<Response> =>
+    request(app)
+      .get("/s")
+      .query({ src: "noimage.jpg", ...query })
+      .set(headers)
+      .parse(bufferParser);
+
+  const widthOf = async (res: Response): Promise<number | undefined> =>
+    (await sharp(res.body as Buffer).metadata()).width;
+
+  it("advertises the hints and lists the consulted ones in Vary", async () => {
+    const res = await fetchHinted(createApp(), {});
+    expect(res.headers["accept-ch"]).toBe(
+      "Sec-CH-Width, Sec-CH-DPR, Sec-CH-Viewport-Width",
+    );
+    expect(res.headers["critical-ch"]).toBe(res.headers["accept-ch"]);
+    expect(res.headers.vary).toBe(
+      "Accept-Encoding, Sec-CH-Width, Sec-CH-Viewport-Width, Sec-CH-DPR, Save-Data",
+    );
+
+    const explicit = await fetchHinted(
+      createApp(),
+      { "Sec-CH-Width": "120" },
+      { width: 80, quality: 70 },
+    );
+    expect(explicit.headers.vary).toBe("Accept-Encoding");
+    expect(await widthOf(explicit)).toBe(80);
+  });
+
+  it("takes the width from Sec-CH-Width, ignoring any DPR", async () => {
+    const app = createApp();
+    const hinted = await fetchHinted(app, {
+      "Sec-CH-Width": "120.4",
+      "Sec-CH-DPR": "2",
+      "Sec-CH-Viewport-Width": "400",
+    });
+    const withDpr = await fetchHinted(
+      app,
+      { "Sec-CH-Width": "121" },
+      { dpr: 2 },
+    );
+    const plain = await request(app)
+      .get("/s")
+      .query({ src: "noimage.jpg", width: 121 });
+
+    expect(await widthOf(hinted)).toBe(121);
+    expect(await widthOf(withDpr)).toBe(121);
+    expect(hinted.headers.etag).toBe(plain.headers.etag);
+  });
+
+  it("scales Sec-CH-Viewport-Width by Sec-CH-DPR unless dpr is in the query", async () => {
+    const app = createApp();
+    const scaled = await fetchHinted(app, {
+      "Sec-CH-Viewport-Width": "100",
+      "Sec-CH-DPR": "2.5",
+    });
+    const explicitDpr = await fetchHinted(
+      app,
+      { "Sec-CH-Viewport-Width": "100", "Sec-CH-DPR": "3" },
+      { dpr: 1 },
+    );
+    const clampedDpr = await fetchHinted(app, {
+      "Sec-CH-Viewport-Width": "100",
+      "Sec-CH-DPR": "0.5",
+    });
+
+    expect(await widthOf(scaled)).toBe(250);
+    expect(await widthOf(explicitDpr)).toBe(100);
+    expect(await widthOf(clampedDpr)).toBe(100);
+  });
+
+  it("ignores malformed hints and caps oversized ones", async () => {
+    const app = createApp();
+    const malformed = await fetchHinted(app, { "Sec-CH-Width": "wide" });
+    const huge = await fetchHinted(app, { "Sec-CH-Width": "9000" });
+
+    expect(await widthOf(malformed)).toBe(500);
+    // Capped into the schema window, then to the 500px source.
+    expect(huge.status).toBe(200);
+    expect(huge.headers["cache-control"]).not.toBe("public, max-age=60");
+  });
+
+  it("lowers the quality for Save-Data: on", async () => {
+    const app = createApp({ clientHints: { saveDataQuality: 20 } });
+    const saved = await fetchHinted(app, { "Save-Data": "on" });
+    const full = await fetchHinted(app, { "Save-Data": "off" });
+    const explicit = await fetchHinted(
+      app,
+      { "Save-Data": "on" },
+      { quality: 80 },
+    );
+
+    expect((saved.body as Buffer).length).toBeLessThan(
+      (full.body as Buffer).length,
+    );
+    expect(saved.headers.etag).not.toBe(full.headers.etag);
+    expect(explicit.headers.etag).toBe(full.headers.etag);
+  });
+
+  it("never raises the quality above defaultQuality", async () => {
+    const app = createApp({ defaultQuality: 10 });
+    const saved = await fetchHinted(app, { "Save-Data": "on" });
+    const plain = await fetchHinted(app, {});
+    expect(saved.headers.etag).toBe(plain.headers.etag);
+  });
+
+  it("is off by default", async () => {
+    const app = express();
+    app.get("/s", registerServe({ baseDir: assetDir }));
+    const res = await fetchHinted(app, { "Sec-CH-Width": "120" });
+    expect(res.headers["accept-ch"]).toBeUndefined();
+    expect(await widthOf(res)).toBe(500);
+  });
+});
+
+describe("signingSecret signed URLs", () => {
+  const createApp = (onError = vi.fn()): express.Express => {
+    const app = express();
+    app.get(
+      "/s",
+      registerServe({
+        baseDir: assetDir,
+        signingSecret: ["new-key", "old-key"],
+        onError,
+      }),
+    );
+    return app;
+  };
+
+  it("serves URLs signed with any configured secret", async () => {
+    const app = createApp();
+    for (const secret of ["new-key", "old-key"]) {
+      const res = await request(app)
+        .get(`/s?${signPixelUrl({ src: "noimage.jpg", width: 64 }, secret)}`)
+        .parse(bufferParser);
+      expect(res.status).toBe(200);
+      expect((await sharp(res.body as Buffer).metadata()).width).toBe(64);
+      expect(res.headers["cache-control"]).not.toBe("public, max-age=60");
+    }
+  });
+
+  it("rejects unsigned and tampered URLs before parsing them", async () => {
+    const onError = vi.fn();
+    const app = createApp(onError);
+    const signed = signPixelUrl({ src: "noavatar.png", width: 64 }, "new-key");
+    const readSpy = vi.spyOn(fsp, "readFile");
+
+    const unsigned = await request(app).get("/s?src=noavatar.png&width=64");
+    const tampered = await request(app).get(
+      `/s?${signed.replace("width=64", "width=2000")}`,
+    );
+    const foreign = await request(app).get(
+      `/s?${signPixelUrl({ src: "noavatar.png" }, "guessed")}`,
+    );
+
+    for (const res of [unsigned, tampered, foreign]) {
+      expect(res.status).toBe(200);
+      expect(res.headers["cache-control"]).toBe("public, max-age=60");
+    }
+    expect(onError.mock.calls.map((call) => call[1].phase)).toEqual([
+      "signature",
+      "signature",
+      "signature",
+    ]);
+    // Only the bundled fallback was read — never the requested source.
+    expect(
+      readSpy.mock.calls.some((call) => String(call[0]).includes("noavatar")),
+    ).toBe(false);
+    readSpy.mockRestore();
+  });
+
+  it("ignores Client Hints, which the signature does not cover", async () => {
+    const app = express();
+    app.get(
+      "/s",
+      registerServe({ baseDir: assetDir, signingSecret: "k", clientHints: {} }),
+    );
+    const signed = `/s?${signPixelUrl({ src: "noimage.jpg" }, "k")}`;
+
+    const plain = await request(app).get(signed).parse(bufferParser);
+    const hinted = await request(app)
+      .get(signed)
+      .set({ "Sec-CH-Width": "40", "Save-Data": "on" })
+      .parse(bufferParser);
+
+    expect(hinted.status).toBe(200);
+    expect((hinted.body as Buffer).equals(plain.body as Buffer)).toBe(true);
+    expect(hinted.headers.etag).toBe(plain.headers.etag);
+    expect(hinted.headers.vary).toBe("Accept-Encoding");
+    expect(hinted.headers["accept-ch"]).toBeUndefined();
+  });
+});
+
+describe("expires deadline", () => {
+  const NOW_SECONDS = 1_800_000_000;
+
+  beforeEach(() => {
+    vi.spyOn(Date, "now").mockReturnValue(NOW_SECONDS * 1000);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const createApp = (
+    extra: Partial<PixelServeOptions> = {},
+  ): express.Express => {
+    const app = express();
+    app.get(
+      "/s",
+      registerServe({ baseDir: assetDir, signingSecret: "k1", ...extra }),
+    );
+    return app;
+  };
+
+  const signed = (params: Record<string, string | number>): string =>
+    `/s?${signPixelUrl(params, "k1")}`;
+
+  it("caps Cache-Control to the time left and drops stale-serving directives", async () => {
+    const res = await request(createApp()).get(
+      signed({ src: "noimage.jpg", expires: NOW_SECONDS + 120 }),
+    );
+    expect(res.status).toBe(200);
+    expect(res.headers["cache-control"]).toBe("public, max-age=120");
+
+    const custom = await request(
+      createApp({ cacheControl: "private, s-maxage=30, immutable, no-cache" }),
+    ).get(signed({ src: "noimage.jpg", expires: NOW_SECONDS + 120 }));
+    expect(custom.headers["cache-control"]).toBe(
+      "private, s-maxage=30, no-cache, max-age=120",
+    );
+  });
+
+  it("caps the soft-fallback lifetime too", async () => {
+    const res = await request(createApp()).get(
+      signed({ src: "missing.jpg", expires: NOW_SECONDS + 10 }),
+    );
+    expect(res.headers["cache-control"]).toBe("public, max-age=10");
+  });
+
+  it("caps the hard fallback and the status-mode error response", async () => {
+    const url = signed({
+      src: "noimage.jpg",
+      crop: "0,0,5000,5000",
+      expires: NOW_SECONDS + 10,
+    });
+    const fallback = await request(createApp()).get(url);
+    const problem = await request(createApp({ errorMode: "status" })).get(url);
+
+    expect(fallback.status).toBe(200);
+    expect(fallback.headers["cache-control"]).toBe("public, max-age=10");
+    expect(problem.status).toBe(400);
+    expect(problem.headers["cache-control"]).toBe("public, max-age=10");
+  });
+
+  it("caps the pre-Sharp 304", async () => {
+    const app = createApp();
+    const url = signed({ src: "noimage.jpg", expires: NOW_SECONDS + 300 });
+    const first = await request(app).get(url);
+    const second = await request(app)
+      .get(url)
+      .set("If-None-Match", first.headers.etag as string);
+    expect(second.status).toBe(304);
+    expect(second.headers["cache-control"]).toBe("public, max-age=300");
+  });
+
+  it("rejects an expired link before idHandler and getUserFolder run", async () => {
+    const onError = vi.fn();
+    const idHandler = vi.fn((id: string) => id);
+    const getUserFolder = vi.fn(async () => assetDir);
+    const res = await request(
+      createApp({ onError, idHandler, getUserFolder }),
+    ).get(
+      signed({
+        src: "noimage.jpg",
+        folder: "private",
+        userId: "u1",
+        type: "avatar",
+        expires: NOW_SECONDS,
+      }),
+    );
+
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toBe(mimeTypes.png);
+    expect(idHandler).not.toHaveBeenCalled();
+    expect(getUserFolder).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "url expired" }),
+      expect.objectContaining({ phase: "expired", userId: "u1" }),
+    );
+  });
+
+  it("is covered by the URL signature", async () => {
+    const onError = vi.fn();
+    const app = createApp({ onError });
+    const url = signed({ src: "noimage.jpg", expires: NOW_SECONDS + 60 });
+    const ok = await request(app).get(url);
+    const extended = await request(app).get(
+      url.replace(String(NOW_SECONDS + 60), String(NOW_SECONDS + 6e6)),
+    );
+
+    expect(ok.headers["cache-control"]).toBe("public, max-age=60");
+    expect(extended.headers["cache-control"]).toBe("public, max-age=60");
+    expect(onError.mock.calls.map((call) => call[1].phase)).toEqual([
+      "signature",
+    ]);
+  });
+
+  it("fails validation without signingSecret", async () => {
+    const onError = vi.fn();
+    const app = express();
+    app.get("/s", registerServe({ baseDir: assetDir, onError }));
+    const res = await request(app)
+      .get("/s")
+      .query({ src: "noimage.jpg", expires: NOW_SECONDS + 60 });
+
+    expect(res.headers["cache-control"]).toBe("public, max-age=60");
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "expires requires signingSecret" }),
+      expect.objectContaining({ phase: "validation" }),
+    );
+  });
+});
+
+describe("named presets", () => {
+  const presets = {
+    thumb: { width: 64, height: 64, format: "webp" as const, quality: 70 },
+  };
+
+  const createApp = (
+    extra: Partial<PixelServeOptions> = {},
+  ): express.Express => {
+    const app = express();
+    app.get("/s", registerServe({ baseDir: assetDir, presets, ...extra }));
+    return app;
+  };
+
+  it("serves the preset's transformation and shares its ETag", async () => {
+    const app = createApp();
+    const viaPreset = await request(app)
+      .get("/s")
+      .query({ src: "noimage.jpg", preset: "thumb" })
+      .parse(bufferParser);
+    const spelledOut = await request(app).get("/s").query({
+      src: "noimage.jpg",
+      width: 64,
+      height: 64,
+      format: "webp",
+      quality: 70,
+    });
+
+    expect(viaPreset.headers["content-type"]).toBe(mimeTypes.webp);
+    expect(await sharp(viaPreset.body as Buffer).metadata()).toMatchObject({
+      width: 64,
+      height: 64,
+    });
+    expect(viaPreset.headers.etag).toBe(spelledOut.headers.etag);
+  });
+
+  it("locks out arbitrary transformations in presetsOnly mode", async () => {
+    const onError = vi.fn();
+    const app = createApp({ presetsOnly: true, onError });
+    const ok = await request(app)
+      .get("/s")
+      .query({ src: "noimage.jpg", preset: "thumb" });
+    await request(app).get("/s").query({ src: "noimage.jpg", width: 64 });
+    await request(app)
+      .get("/s")
+      .query({ src: "noimage.jpg", preset: "thumb", width: 2000 });
+
+    expect(ok.headers["content-type"]).toBe(mimeTypes.webp);
+    expect(onError.mock.calls.map((call) => call[0].message)).toEqual([
+      "a preset is required",
+      "width cannot be set when presetsOnly is enabled",
+    ]);
+    expect(
+      onError.mock.calls.every((call) => call[1].phase === "validation"),
+    ).toBe(true);
+  });
+
+  it("lets preset dimensions win over Client Hints and ignores hints when locked", async () => {
+    const hinted = createApp({ clientHints: {} });
+    const res = await request(hinted)
+      .get("/s")
+      .query({ src: "noimage.jpg", preset: "thumb" })
+      .set("Sec-CH-Width", "200")
+      .set("Save-Data", "on")
+      .parse(bufferParser);
+    expect((await sharp(res.body as Buffer).metadata()).width).toBe(64);
+    expect(res.headers.vary).toBe("Accept-Encoding");
+
+    const locked = createApp({ clientHints: {}, presetsOnly: true });
+    const lockedRes = await request(locked)
+      .get("/s")
+      .query({ src: "noimage.jpg", preset: "thumb" })
+      .set("Sec-CH-Width", "200");
+    expect(lockedRes.headers["accept-ch"]).toBeUndefined();
+    expect(lockedRes.headers.etag).toBe(res.headers.etag);
+  });
+});
+
+describe("urlScheme path", () => {
+  const createApp = (
+    options: Partial<PixelServeOptions> = {},
+  ): express.Express => {
+    const app = express();
+    app.use(
+      "/img",
+      registerServe({ baseDir: assetDir, urlScheme: "path", ...options }),
+    );
+    return app;
+  };
+
+  it("reads the parameters from the path", async () => {
+    const res = await request(createApp())
+      .get("/img/w_64,h_80,f_webp,fit_fill/noimage.jpg")
+      .parse(bufferParser);
+    const meta = await sharp(res.body as Buffer).metadata();
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toBe(mimeTypes.webp);
+    expect([meta.width, meta.height]).toEqual([64, 80]);
+  });
+
+  it("produces the same ETag as the equivalent query URL", async () => {
+    const queryApp = express();
+    queryApp.get("/s", registerServe({ baseDir: assetDir }));
+    const fromQuery = await request(queryApp)
+      .get("/s")
+      .query({ src: "noimage.jpg", width: 64, format: "png" });
+    const built = buildPixelPath({
+      src: "noimage.jpg",
+      width: 64,
+      format: "png",
+    });
+    const fromPath = await request(createApp()).get(`/img${built}`);
+    expect(fromPath.headers.etag).toBe(fromQuery.headers.etag);
+  });
+
+  it("ignores the query string", async () => {
+    const res = await request(createApp())
+      .get("/img/w_64/noimage.jpg?width=300&format=avif")
+      .parse(bufferParser);
+    expect(res.headers["content-type"]).toBe(mimeTypes.jpeg);
+    expect((await sharp(res.body as Buffer).metadata()).width).toBe(64);
+  });
+
+  it("reports malformed paths as validation errors", async () => {
+    const onError = vi.fn();
+    const app = createApp({ onError });
+    const unknown = await request(app).get("/img/zoom_2/noimage.jpg");
+    const missing = await request(app).get("/img/w_64");
+    expect(unknown.status).toBe(200);
+    expect(unknown.headers["cache-control"]).toBe("public, max-age=60");
+    expect(missing.headers["cache-control"]).toBe("public, max-age=60");
+    expect(onError.mock.calls.map((call) => call[1].phase)).toEqual([
+      "validation",
+      "validation",
+    ]);
+  });
+
+  it("verifies signed paths built by buildPixelPath", async () => {
+    const onError = vi.fn();
+    const app = createApp({ signingSecret: "k1", onError });
+    const signed = buildPixelPath({ src: "noimage.jpg", width: 64 }, "k1");
+    const ok = await request(app).get(`/img${signed}`);
+    const tampered = await request(app).get(
+      `/img${signed.replace("w_64", "w_65")}`,
+    );
+    expect(ok.headers["cache-control"]).not.toBe("public, max-age=60");
+    expect(tampered.headers["cache-control"]).toBe("public, max-age=60");
+    expect(onError.mock.calls.map((call) => call[1].phase)).toEqual([
+      "signature",
+    ]);
+  });
+});
+
+describe("compat parameter vocabularies", () => {
+  it("serves imgix query parameters like their native equivalents", async () => {
+    const onError = vi.fn();
+    const app = express();
+    app.get(
+      "/s",
+      registerServe({ baseDir: assetDir, compat: "imgix", onError }),
+    );
+    const nativeApp = express();
+    nativeApp.get("/s", registerServe({ baseDir: assetDir }));
+
+    const res = await request(app)
+      .get("/s")
+      .query({ src: "noimage.jpg", w: 64, h: 80, fit: "scale", fm: "webp" })
+      .parse(bufferParser);
+    const native = await request(nativeApp).get("/s").query({
+      src: "noimage.jpg",
+      width: 64,
+      height: 80,
+      fit: "fill",
+      enlarge: true,
+      format: "webp",
+    });
+    const meta = await sharp(res.body as Buffer).metadata();
+
+    expect(res.headers["content-type"]).toBe(mimeTypes.webp);
+    expect([meta.width, meta.height]).toEqual([64, 80]);
+    expect(res.headers.etag).toBe(native.headers.etag);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it("reports unsupported parameters and serves the rest", async () => {
+    const onError = vi.fn();
+    const app = express();
+    app.get(
+      "/s",
+      registerServe({ baseDir: assetDir, compat: "imgix", onError }),
+    );
+    const res = await request(app)
+      .get("/s")
+      .query({ src: "noimage.jpg", w: 64, blur: 20, auto: "format,compress" })
+      .set("Accept", "image/webp")
+      .parse(bufferParser);
+
+    expect(res.headers["content-type"]).toBe(mimeTypes.webp);
+    expect((await sharp(res.body as Buffer).metadata()).width).toBe(64);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0]![0].message).toBe(
+      "unsupported imgix parameters: blur, auto=compress",
+    );
+    expect(onError.mock.calls[0]![1]).toEqual({
+      phase: "validation",
+      src: "noimage.jpg",
+    });
+  });
+
+  it("reads imgix and Cloudinary URL shapes under urlScheme path", async () => {
+    const imgix = express();
+    imgix.use(
+      "/img",
+      registerServe({ baseDir: assetDir, urlScheme: "path", compat: "imgix" }),
+    );
+    const cloudinary = express();
+    cloudinary.use(
+      "/img",
+      registerServe({
+        baseDir: assetDir,
+        urlScheme: "path",
+        compat: "cloudinary",
+      }),
+    );
+
+    const fromImgix = await request(imgix)
+      .get("/img/noimage.jpg?w=64&fm=png&fit=min")
+      .parse(bufferParser);
+    const fromCloudinary = await request(cloudinary)
+      .get("/img/w_64,f_png,c_lfill/noimage.jpg")
+      .parse(bufferParser);
+
+    for (const res of [fromImgix, fromCloudinary]) {
+      expect(res.headers["content-type"]).toBe(mimeTypes.png);
+      expect((await sharp(res.body as Buffer).metadata()).width).toBe(64);
+    }
+    expect(fromCloudinary.headers.etag).toBe(fromImgix.headers.etag);
+  });
+
+  it("verifies signatures over the parameters as sent", async () => {
+    const onError = vi.fn();
+    const app = express();
+    app.get(
+      "/s",
+      registerServe({
+        baseDir: assetDir,
+        compat: "imgix",
+        signingSecret: "k1",
+        onError,
+      }),
+    );
+    const ok = await request(app).get(
+      `/s?${signPixelUrl({ src: "noimage.jpg", w: 64 }, "k1")}`,
+    );
+    const nativeSigned = await request(app).get(
+      `/s?${signPixelUrl({ src: "noimage.jpg", width: 64 }, "k1")}&w=300`,
+    );
+    expect(ok.headers["cache-control"]).not.toBe("public, max-age=60");
+    expect(nativeSigned.headers["cache-control"]).toBe("public, max-age=60");
+    expect(onError.mock.calls.map((call) => call[1].phase)).toEqual([
+      "signature",
+    ]);
+  });
+});
+
+describe("createServeCore", () => {
+  it("turns a normalized request into status, headers and body", async () => {
+    const handle = createServeCore({ baseDir: assetDir });
+    const response = await handle({
+      method: "GET",
+      path: "/",
+      query: { src: "noimage.jpg", width: "64", format: "png" },
+      headers: {},
+      raw: undefined,
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers["Content-Type"]).toBe(mimeTypes.png);
+    expect(response.headers["Content-Length"]).toBe(
+      String(response.body.length),
+    );
+    expect((await sharp(response.body).metadata()).width).toBe(64);
+
+    const notModified = await handle({
+      method: "GET",
+      path: "/",
+      query: { src: "noimage.jpg", width: "64", format: "png" },
+      headers: { "if-none-match": [response.headers.ETag!] },
+      raw: undefined,
+    });
+    expect(notModified.status).toBe(304);
+    expect(notModified.body.length).toBe(0);
+  });
+
+  it("hands the adapter's raw request to getUserFolder", async () => {
+    const raw = { tenant: "acme" };
+    const getUserFolder = vi.fn((req: typeof raw): string =>
+      req.tenant === "acme" ? assetDir : "",
+    );
+    const handle = createServeCore({ baseDir: os.tmpdir(), getUserFolder });
+    const response = await handle({
+      method: "GET",
+      path: "/",
+      query: { src: "noavatar.png", folder: "private", userId: "u1" },
+      headers: {},
+      raw,
+    });
+
+    expect(getUserFolder).toHaveBeenCalledWith(raw, "u1");
+    expect(response.headers["Cache-Control"]).not.toBe("public, max-age=60");
+  });
+
+  it("advertises Client Hints on the hard fallback too", async () => {
+    const handle = createServeCore({ baseDir: assetDir, clientHints: {} });
+    const response = await handle({
+      method: "GET",
+      path: "/",
+      query: { src: "noimage.jpg", width: "99999" },
+      headers: {},
+      raw: undefined,
+    });
+    expect(response.headers["Cache-Control"]).toBe("public, max-age=60");
+    expect(response.headers["Accept-CH"]).toBe(
+      "Sec-CH-Width, Sec-CH-DPR, Sec-CH-Viewport-Width",
+    );
+  });
+});
+
+describe("HEAD requests", () => {
+  const createHeadApp = (
+    options: Partial<PixelServeOptions> = {},
+  ): ReturnType<typeof express> => {
+    const app = express();
+    app.get(
+      "/api/v1/pixel/serve",
+      registerServe({ baseDir: assetDir, ...options }),
+    );
+    return app;
+  };
+  const query = { src: "noimage.jpg", width: 64, format: "webp" };
+  const sharedHeaders = [
+    "content-type",
+    "etag",
+    "cache-control",
+    "content-disposition",
+    "vary",
+    "x-content-type-options",
+  ];
+
+  it("runs the pipeline for a variant not yet encoded and drops the body", async () => {
+    const onComplete = vi.fn();
+    const app = createHeadApp({ onComplete });
+    const head = await request(app).head("/api/v1/pixel/serve").query(query);
+    const get = await request(app)
+      .get("/api/v1/pixel/serve")
+      .query(query)
+      .parse(bufferParser);
+
+    expect(head.status).toBe(200);
+    for (const name of [...sharedHeaders, "content-length"]) {
+      expect(head.headers[name]).toBe(get.headers[name]);
+    }
+    expect(onComplete.mock.calls[0]![0]).toMatchObject({
+      format: "webp",
+      outputBytes: 0,
+      cached: false,
+      fallback: false,
+      head: true,
+    });
+    expect(onComplete.mock.calls[1]![0].head).toBeUndefined();
+  });
+
+  it("fills in Content-Length once the variant has been encoded", async () => {
+    const app = createHeadApp();
+    const get = await request(app)
+      .get("/api/v1/pixel/serve")
+      .query(query)
+      .parse(bufferParser);
+    const sharpSpy = vi.spyOn(sharp.prototype, "toBuffer");
+    const head = await request(app).head("/api/v1/pixel/serve").query(query);
+
+    expect(sharpSpy).not.toHaveBeenCalled();
+    expect(head.headers["content-length"]).toBe(
+      String((get.body as Buffer).length),
+    );
+    expect(head.headers.etag).toBe(get.headers.etag);
+    sharpSpy.mockRestore();
+  });
+
+  it("takes Content-Length from a derivative cache another instance filled", async () => {
+    const cacheStore = createMemoryCacheStore({ maxBytes: 10_000_000 });
+    const get = await request(createHeadApp({ cacheStore }))
+      .get("/api/v1/pixel/serve")
+      .query(query)
+      .parse(bufferParser);
+    const onComplete = vi.fn();
+    const sharpSpy = vi.spyOn(sharp.prototype, "toBuffer");
+    const head = await request(createHeadApp({ cacheStore, onComplete }))
+      .head("/api/v1/pixel/serve")
+      .query(query);
+
+    expect(sharpSpy).not.toHaveBeenCalled();
+    expect(head.headers["content-length"]).toBe(
+      String((get.body as Buffer).length),
+    );
+    expect(onComplete.mock.calls[0]![0]).toMatchObject({
+      cacheHit: "store",
+      outputBytes: 0,
+      head: true,
+    });
+    sharpSpy.mockRestore();
+  });
+
+  it("encodes once to settle format=auto, then answers from the record", async () => {
+    const app = createHeadApp();
+    const autoQuery = { src: "noimage.jpg", width: 64, format: "auto" };
+    const first = await request(app)
+      .head("/api/v1/pixel/serve")
+      .query(autoQuery);
+    const sharpSpy = vi.spyOn(sharp.prototype, "toBuffer");
+    const second = await request(app)
+      .head("/api/v1/pixel/serve")
+      .query(autoQuery);
+
+    expect(first.headers["content-type"]).toBe(mimeTypes.jpeg);
+    expect(Number(first.headers["content-length"])).toBeGreaterThan(0);
+    expect(sharpSpy).not.toHaveBeenCalled();
+    expect(second.headers["content-type"]).toBe(mimeTypes.jpeg);
+    expect(second.headers["content-length"]).toBe(
+      first.headers["content-length"],
+    );
+    sharpSpy.mockRestore();
+  });
+
+  it("runs the pipeline when only the outcome decides the headers", async () => {
+    const app = createHeadApp();
+    const missing = { src: "does-not-exist.jpg", width: 64 };
+    const head = await request(app).head("/api/v1/pixel/serve").query(missing);
+    const get = await request(app)
+      .get("/api/v1/pixel/serve")
+      .query(missing)
+      .parse(bufferParser);
+
+    expect(head.headers["cache-control"]).toBe("public, max-age=60");
+    for (const name of [...sharedHeaders, "content-length"]) {
+      expect(head.headers[name]).toBe(get.headers[name]);
+    }
+  });
+
+  it("sends the hard fallback's headers without its body", async () => {
+    const onComplete = vi.fn();
+    const head = await request(createHeadApp({ onComplete }))
+      .head("/api/v1/pixel/serve")
+      .query({ src: "noimage.jpg", width: 99999 });
+    const fallback = await FALLBACKIMAGES.normal();
+
+    expect(head.headers["cache-control"]).toBe("public, max-age=60");
+    expect(head.headers["content-length"]).toBe(String(fallback.length));
+    expect(onComplete.mock.calls[0]![0]).toMatchObject({
+      fallback: true,
+      outputBytes: 0,
+      head: true,
+    });
+  });
+
+  it("matches the GET status and headers for failing sources", async () => {
+    const sources = [
+      { src: "https://blocked.test/a.jpg", width: 64 },
+      { src: "noimage.jpg", width: 64, crop: "0,0,5000,5000" },
+    ];
+    for (const errorMode of ["fallback", "status"] as const) {
+      const app = createHeadApp({
+        errorMode,
+        allowedNetworkList: ["allowed.test"],
+      });
+      for (const failing of sources) {
+        const get = await request(app)
+          .get("/api/v1/pixel/serve")
+          .query(failing)
+          .parse(bufferParser);
+        const head = await request(app)
+          .head("/api/v1/pixel/serve")
+          .query(failing);
+
+        expect(head.status).toBe(get.status);
+        for (const name of [
+          "content-type",
+          "cache-control",
+          "content-length",
+          "accept-ranges",
+        ]) {
+          expect(head.headers[name]).toBe(get.headers[name]);
+        }
+        // Express adds its own weak ETag to a GET body that carries none.
+        const getEtag = get.headers.etag as string | undefined;
+        expect(head.headers.etag).toBe(
+          getEtag?.startsWith("W/") ? undefined : getEtag,
+        );
+      }
+    }
+  });
+
+  it("runs the pipeline for a remote source even after it was encoded", async () => {
+    const image = await sharp({
+      create: { width: 40, height: 40, channels: 3, background: "#00ff00" },
+    })
+      .png()
+      .toBuffer();
+    vi.mocked(axios.get).mockResolvedValueOnce({
+      data: image,
+      headers: { "content-type": mimeTypes.png },
+      status: 200,
+      statusText: "OK",
+      config: {},
+    });
+    vi.mocked(axios.get).mockRejectedValueOnce(new Error("origin down"));
+    const app = createHeadApp({ allowedNetworkList: ["allowed.test"] });
+    const remote = { src: "https://allowed.test/a.png", width: 32 };
+    const get = await request(app)
+      .get("/api/v1/pixel/serve")
+      .query(remote)
+      .parse(bufferParser);
+    const head = await request(app).head("/api/v1/pixel/serve").query(remote);
+
+    expect(get.headers["cache-control"]).not.toBe("public, max-age=60");
+    expect(head.status).toBe(200);
+    expect(head.headers["cache-control"]).toBe("public, max-age=60");
+    expect(head.headers["accept-ranges"]).toBeUndefined();
+    expect(head.headers.etag).not.toBe(get.headers.etag);
+  });
+
+  it("still answers a matching If-None-Match with 304", async () => {
+    const app = createHeadApp();
+    const first = await request(app).head("/api/v1/pixel/serve").query(query);
+    const second = await request(app)
+      .head("/api/v1/pixel/serve")
+      .query(query)
+      .set("If-None-Match", first.headers.etag!);
+
+    expect(second.status).toBe(304);
+  });
+});
+
+describe("Range requests", () => {
+  const createRangeApp = (
+    options: Partial<PixelServeOptions> = {},
+  ): ReturnType<typeof express> => {
+    const app = express();
+    app.get(
+      "/api/v1/pixel/serve",
+      registerServe({ baseDir: assetDir, ...options }),
+    );
+    return app;
+  };
+  const query = { src: "noimage.jpg", width: 200, format: "png" };
+  const fetchFull = async (
+    app: ReturnType<typeof express>,
+  ): Promise<Response> =>
+    request(app).get("/api/v1/pixel/serve").query(query).parse(bufferParser);
+  const fetchRange = async (
+    app: ReturnType<typeof express>,
+    range: string,
+    ifRange?: string,
+  ): Promise<Response> => {
+    const req = request(app)
+      .get("/api/v1/pixel/serve")
+      .query(query)
+      .set("Range", range);
+    if (ifRange !== undefined) req.set("If-Range", ifRange);
+    return req.parse(bufferParser);
+  };
+
+  it("advertises byte ranges on image responses", async () => {
+    const full = await fetchFull(createRangeApp());
+
+    expect(full.status).toBe(200);
+    expect(full.headers["accept-ranges"]).toBe("bytes");
+  });
+
+  it("answers a single range with 206 and the matching slice", async () => {
+    const onComplete = vi.fn();
+    const app = createRangeApp({ onComplete });
+    const full = (await fetchFull(app)).body as Buffer;
+    const partial = await fetchRange(app, "bytes=10-109");
+
+    expect(partial.status).toBe(206);
+    expect(partial.headers["content-range"]).toBe(
+      `bytes 10-109/${full.length}`,
+    );
+    expect(partial.headers["content-length"]).toBe("100");
+    expect(partial.headers["content-type"]).toBe(mimeTypes.png);
+    expect(partial.headers.etag).toBeDefined();
+    expect((partial.body as Buffer).equals(full.subarray(10, 110))).toBe(true);
+    expect(onComplete.mock.calls[1]![0].outputBytes).toBe(100);
+  });
+
+  it("reads open-ended and suffix ranges, clamping the end", async () => {
+    const app = createRangeApp();
+    const full = (await fetchFull(app)).body as Buffer;
+    const tail = await fetchRange(app, `bytes=${full.length - 5}-`);
+    const suffix = await fetchRange(app, "bytes=-5");
+    const clamped = await fetchRange(app, `bytes=0-${full.length + 100}`);
+    const oversizedSuffix = await fetchRange(
+      app,
+      `bytes=-${full.length + 100}`,
+    );
+
+    for (const res of [tail, suffix]) {
+      expect(res.status).toBe(206);
+      expect((res.body as Buffer).equals(full.subarray(-5))).toBe(true);
+    }
+    for (const res of [clamped, oversizedSuffix]) {
+      expect(res.status).toBe(206);
+      expect(res.headers["content-range"]).toBe(
+        `bytes 0-${full.length - 1}/${full.length}`,
+      );
+    }
+  });
+
+  it("answers an unsatisfiable range with 416", async () => {
+    const app = createRangeApp();
+    const full = (await fetchFull(app)).body as Buffer;
+
+    for (const range of [`bytes=${full.length}-`, "bytes=-0"]) {
+      const res = await fetchRange(app, range);
+      expect(res.status).toBe(416);
+      expect(res.headers["content-range"]).toBe(`bytes */${full.length}`);
+      expect((res.body as Buffer).length).toBe(0);
+    }
+  });
+
+  it("ignores malformed, multi-part and non-byte ranges", async () => {
+    const app = createRangeApp();
+    const full = (await fetchFull(app)).body as Buffer;
+
+    for (const range of [
+      "bytes=5-1",
+      "bytes=-",
+      "bytes=0-1,4-5",
+      "items=0-1",
+      "bytes=abc",
+    ]) {
+      const res = await fetchRange(app, range);
+      expect(res.status).toBe(200);
+      expect((res.body as Buffer).length).toBe(full.length);
+    }
+  });
+
+  it("applies the range only when If-Range names the current ETag", async () => {
+    const app = createRangeApp();
+    const full = await fetchFull(app);
+    const etag = full.headers.etag!;
+
+    expect((await fetchRange(app, "bytes=0-9", etag)).status).toBe(206);
+    expect((await fetchRange(app, "bytes=0-9", '"stale"')).status).toBe(200);
+    expect((await fetchRange(app, "bytes=0-9", `W/${etag}`)).status).toBe(200);
+    expect(
+      (await fetchRange(app, "bytes=0-9", "Wed, 21 Oct 2015 07:28:00 GMT"))
+        .status,
+    ).toBe(200);
+    const noEtag = createRangeApp({ etag: false });
+    expect((await fetchRange(noEtag, "bytes=0-9", etag)).status).toBe(200);
+  });
+
+  it("slices bodies served from the derivative cache", async () => {
+    const onComplete = vi.fn();
+    const app = createRangeApp({
+      memoryCache: { maxBytes: 10_000_000 },
+      onComplete,
+    });
+    const full = (await fetchFull(app)).body as Buffer;
+    const partial = await fetchRange(app, "bytes=0-9");
+
+    expect(partial.status).toBe(206);
+    expect((partial.body as Buffer).equals(full.subarray(0, 10))).toBe(true);
+    expect(onComplete.mock.calls[1]![0].cacheHit).toBe("memory");
+  });
+
+  it("keeps both fallback paths on full 200 responses", async () => {
+    const app = createRangeApp();
+    const soft = await request(app)
+      .get("/api/v1/pixel/serve")
+      .query({ src: "does-not-exist.jpg", width: 64 })
+      .set("Range", "bytes=0-9")
+      .parse(bufferParser);
+    const hard = await request(app)
+      .get("/api/v1/pixel/serve")
+      .query({ src: "noimage.jpg", width: 99999 })
+      .set("Range", "bytes=0-9")
+      .parse(bufferParser);
+
+    expect(soft.status).toBe(200);
+    expect(soft.headers["cache-control"]).toBe("public, max-age=60");
+    expect(soft.headers["accept-ranges"]).toBeUndefined();
+    expect(Number(soft.headers["content-length"])).toBeGreaterThan(10);
+    expect(hard.status).toBe(200);
+    expect(hard.headers["accept-ranges"]).toBeUndefined();
+    expect((hard.body as Buffer).length).toBe(
+      (await FALLBACKIMAGES.normal()).length,
+    );
+  });
+
+  it("ignores Range on HEAD", async () => {
+    const res = await request(createRangeApp())
+      .head("/api/v1/pixel/serve")
+      .query(query)
+      .set("Range", "bytes=0-9");
+
+    expect(res.status).toBe(200);
+    expect(res.headers["accept-ranges"]).toBe("bytes");
+    expect(res.headers["content-range"]).toBeUndefined();
+  });
+});
+
+describe("Last-Modified validation", () => {
+  const createLastModifiedApp = (
+    options: Partial<PixelServeOptions> = {},
+  ): ReturnType<typeof express> => {
+    const app = express();
+    app.get(
+      "/s",
+      registerServe({
+        baseDir: assetDir,
+        allowedNetworkList: ["allowed.test"],
+        ...options,
+      }),
+    );
+    return app;
+  };
+  const query = { src: "noimage.jpg", width: 64 };
+  const sourceDate = async (): Promise<string> => {
+    const { mtimeMs } = await fsp.stat(path.join(assetDir, "noimage.jpg"));
+    return new Date(Math.floor(mtimeMs / 1000) * 1000).toUTCString();
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("sends the local file's modification time", async () => {
+    const res = await request(createLastModifiedApp()).get("/s").query(query);
+
+    expect(res.status).toBe(200);
+    expect(res.headers["last-modified"]).toBe(await sourceDate());
+  });
+
+  it("answers If-Modified-Since with a 304 before Sharp runs", async () => {
+    const onComplete = vi.fn();
+    const app = createLastModifiedApp({ onComplete });
+    const first = await request(app).get("/s").query(query);
+    const sharpSpy = vi.spyOn(sharp.prototype, "toBuffer");
+    const res = await request(app)
+      .get("/s")
+      .query(query)
+      .set("If-Modified-Since", first.headers["last-modified"]!);
+
+    expect(res.status).toBe(304);
+    expect(sharpSpy).not.toHaveBeenCalled();
+    expect(res.headers["last-modified"]).toBe(first.headers["last-modified"]);
+    expect(res.headers.etag).toBe(first.headers.etag);
+    expect(onComplete.mock.calls[1]![0].cached).toBe(true);
+  });
+
+  it("serves the image for an earlier or unparseable date", async () => {
+    const app = createLastModifiedApp();
+    const earlier = new Date(
+      Date.parse(await sourceDate()) - 1000,
+    ).toUTCString();
+
+    for (const since of [earlier, "not a date"]) {
+      const res = await request(app)
+        .get("/s")
+        .query(query)
+        .set("If-Modified-Since", since);
+      expect(res.status).toBe(200);
+    }
+  });
+
+  it("lets If-None-Match decide alone when both validators are sent", async () => {
+    const app = createLastModifiedApp();
+    const first = await request(app).get("/s").query(query);
+    const stale = await request(app)
+      .get("/s")
+      .query(query)
+      .set("If-None-Match", '"stale"')
+      .set("If-Modified-Since", first.headers["last-modified"]!);
+    const fresh = await request(app)
+      .get("/s")
+      .query(query)
+      .set("If-None-Match", first.headers.etag!)
+      .set("If-Modified-Since", "Thu, 01 Jan 1970 00:00:00 GMT");
+
+    expect(stale.status).toBe(200);
+    expect(fresh.status).toBe(304);
+  });
+
+  it("validates by date alone when ETags are disabled", async () => {
+    const res = await request(createLastModifiedApp({ etag: false }))
+      .get("/s")
+      .query(query)
+      .set("If-Modified-Since", await sourceDate());
+
+    expect(res.status).toBe(304);
+    expect(res.headers.etag).toBeUndefined();
+    expect(res.headers["last-modified"]).toBe(await sourceDate());
+  });
+
+  it("can be turned off with lastModified: false", async () => {
+    const res = await request(createLastModifiedApp({ lastModified: false }))
+      .get("/s")
+      .query(query)
+      .set("If-Modified-Since", await sourceDate());
+
+    expect(res.status).toBe(200);
+    expect(res.headers["last-modified"]).toBeUndefined();
+  });
+
+  it("clamps a modification time in the future to now", async () => {
+    const dir = await fsp.mkdtemp(path.join(os.tmpdir(), "pixel-lm-"));
+    try {
+      await fsp.copyFile(
+        path.join(assetDir, "noimage.jpg"),
+        path.join(dir, "future.jpg"),
+      );
+      const future = new Date(Date.now() + 86_400_000);
+      await fsp.utimes(path.join(dir, "future.jpg"), future, future);
+      const res = await request(createLastModifiedApp({ baseDir: dir }))
+        .get("/s")
+        .query({ src: "future.jpg", width: 64 });
+
+      expect(Date.parse(res.headers["last-modified"]!)).toBeLessThanOrEqual(
+        Date.now(),
+      );
+    } finally {
+      await fsp.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("omits the header for fallbacks and uncached remote sources", async () => {
+    const app = createLastModifiedApp();
+    const missing = await request(app)
+      .get("/s")
+      .query({ src: "does-not-exist.jpg", width: 64 });
+    vi.mocked(axios.get).mockResolvedValueOnce({
+      data: await fsp.readFile(path.join(assetDir, "noimage.jpg")),
+      headers: {
+        "content-type": mimeTypes.jpeg,
+        "last-modified": "Wed, 21 Oct 2015 07:28:00 GMT",
+      },
+      status: 200,
+      statusText: "OK",
+      config: {},
+    });
+    const remote = await request(app)
+      .get("/s")
+      .query({ src: "https://allowed.test/hero.jpg" });
+
+    expect(missing.headers["last-modified"]).toBeUndefined();
+    expect(remote.status).toBe(200);
+    expect(remote.headers["last-modified"]).toBeUndefined();
+  });
+
+  it("uses the origin's Last-Modified for sources in upstreamCache", async () => {
+    const originDate = "Wed, 21 Oct 2015 07:28:00 GMT";
+    vi.mocked(axios.get).mockResolvedValueOnce({
+      data: await fsp.readFile(path.join(assetDir, "noimage.jpg")),
+      headers: {
+        "content-type": mimeTypes.jpeg,
+        "cache-control": "max-age=300",
+        "last-modified": originDate,
+      },
+      status: 200,
+      statusText: "OK",
+      config: {},
+    });
+    const app = createLastModifiedApp({
+      upstreamCache: { maxBytes: 10_000_000 },
+    });
+    const remote = { src: "https://allowed.test/hero.jpg" };
+    const first = await request(app).get("/s").query(remote);
+    const second = await request(app)
+      .get("/s")
+      .query(remote)
+      .set("If-Modified-Since", originDate);
+
+    expect(first.headers["last-modified"]).toBe(originDate);
+    expect(second.status).toBe(304);
+    expect(axios.get).toHaveBeenCalledTimes(1);
+  });
+
+  it("accepts the Last-Modified date as an If-Range validator", async () => {
+    const app = createLastModifiedApp();
+    const date = await sourceDate();
+    const matching = await request(app)
+      .get("/s")
+      .query(query)
+      .set("Range", "bytes=0-9")
+      .set("If-Range", date);
+    const older = await request(app)
+      .get("/s")
+      .query(query)
+      .set("Range", "bytes=0-9")
+      .set("If-Range", "Thu, 01 Jan 1970 00:00:00 GMT");
+
+    expect(matching.status).toBe(206);
+    expect(older.status).toBe(200);
+  });
+});
+
+describe("errorMode status", () => {
+  const createStatusApp = (
+    options: Partial<PixelServeOptions> = {},
+  ): ReturnType<typeof express> => {
+    const app = express();
+    app.get(
+      "/s",
+      registerServe({
+        baseDir: assetDir,
+        allowedNetworkList: ["allowed.test"],
+        errorMode: "status",
+        ...options,
+      }),
+    );
+    return app;
+  };
+  const remote = { src: "https://allowed.test/hero.jpg" };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("answers a missing file with a 404 problem document", async () => {
+    const onError = vi.fn();
+    const onComplete = vi.fn();
+    const toBuffer = vi.spyOn(sharp.prototype, "toBuffer");
+    const res = await request(createStatusApp({ onError, onComplete }))
+      .get("/s")
+      .query({ src: "does-not-exist.jpg", width: 64 });
+
+    expect(res.status).toBe(404);
+    expect(res.headers["content-type"]).toMatch(/^application\/problem\+json/);
+    expect(JSON.parse(res.text)).toEqual({
+      type: "about:blank",
+      title: "Not Found",
+      status: 404,
+    });
+    expect(res.headers["cache-control"]).toBe("public, max-age=60");
+    expect(res.headers["x-content-type-options"]).toBe("nosniff");
+    expect(toBuffer).not.toHaveBeenCalled();
+    expect(onError.mock.calls[0]![1].phase).toBe("fs");
+    expect(onComplete).not.toHaveBeenCalled();
+  });
+
+  it("maps request failures to 400 and 403", async () => {
+    const onError = vi.fn();
+    const app = createStatusApp({ onError });
+
+    const invalid = await request(app)
+      .get("/s")
+      .query({ src: "noimage.jpg", width: 99999 });
+    const traversal = await request(app)
+      .get("/s")
+      .query({ src: "../secret.jpg" });
+    const blocked = await request(app)
+      .get("/s")
+      .query({ src: "https://blocked.test/a.jpg" });
+    const noSource = await request(app).get("/s");
+
+    expect(invalid.status).toBe(400);
+    expect(traversal.status).toBe(403);
+    expect(blocked.status).toBe(403);
+    expect(noSource.status).toBe(400);
+    expect(onError.mock.calls.map((call) => call[1].phase)).toEqual([
+      "validation",
+      "fs",
+      "fetch",
+    ]);
+  });
+
+  it("answers failed signatures and expired URLs with 403", async () => {
+    const signed = createStatusApp({ signingSecret: "k1" });
+    const unsigned = await request(signed)
+      .get("/s")
+      .query({ src: "noimage.jpg" });
+    const expired = await request(signed).get(
+      `/s?${signPixelUrl({ src: "noimage.jpg", expires: 1 }, "k1")}`,
+    );
+
+    expect(unsigned.status).toBe(403);
+    expect(expired.status).toBe(403);
+  });
+
+  it("answers oversize sources with 413", async () => {
+    const tooLarge = await request(createStatusApp({ maxDownloadBytes: 10 }))
+      .get("/s")
+      .query({ src: "noimage.jpg" });
+    const tooManyPixels = await request(createStatusApp({ maxInputPixels: 10 }))
+      .get("/s")
+      .query({ src: "noimage.jpg" });
+
+    expect(tooLarge.status).toBe(413);
+    expect(tooManyPixels.status).toBe(413);
+  });
+
+  it("answers upstream failures with 502 and timeouts with 504", async () => {
+    const app = createStatusApp();
+    vi.mocked(axios.get).mockResolvedValueOnce({
+      data: Buffer.from(""),
+      headers: {},
+      status: 503,
+      statusText: "Service Unavailable",
+      config: {},
+    });
+    const failed = await request(app).get("/s").query(remote);
+    vi.mocked(axios.get).mockRejectedValueOnce(
+      Object.assign(new Error("timeout of 10000ms exceeded"), {
+        code: "ECONNABORTED",
+      }),
+    );
+    const timedOut = await request(app).get("/s").query(remote);
+
+    expect(failed.status).toBe(502);
+    expect(timedOut.status).toBe(504);
+    expect(JSON.parse(timedOut.text).title).toBe("Gateway Timeout");
+  });
+
+  it("keeps the status for remote sources resolved through upstreamCache", async () => {
+    vi.mocked(axios.get).mockResolvedValueOnce({
+      data: Buffer.from(""),
+      headers: {},
+      status: 404,
+      statusText: "Not Found",
+      config: {},
+    });
+    const res = await request(
+      createStatusApp({ upstreamCache: { maxBytes: 10_000_000 } }),
+    )
+      .get("/s")
+      .query(remote);
+
+    expect(res.status).toBe(404);
+  });
+
+  it("answers undecodable and SVG sources with 500 and 415", async () => {
+    const dir = await fsp.mkdtemp(path.join(os.tmpdir(), "pixel-status-"));
+    try {
+      await fsp.writeFile(path.join(dir, "broken.jpg"), "not an image");
+      await fsp.writeFile(
+        path.join(dir, "vector.jpg"),
+        '<svg xmlns="http://www.w3.org/2000/svg"/>',
+      );
+      const app = createStatusApp({ baseDir: dir });
+      const broken = await request(app).get("/s").query({ src: "broken.jpg" });
+      const vector = await request(app).get("/s").query({ src: "vector.jpg" });
+
+      expect(broken.status).toBe(500);
+      expect(vector.status).toBe(415);
+    } finally {
+      await fsp.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("answers a crop outside the source with 400", async () => {
+    const res = await request(createStatusApp())
+      .get("/s")
+      .query({ src: "noimage.jpg", crop: "0,0,99999,10" });
+
+    expect(res.status).toBe(400);
+  });
+
+  it("sends the problem headers without a body on HEAD", async () => {
+    const res = await request(createStatusApp())
+      .head("/s")
+      .query({ src: "does-not-exist.jpg" });
+
+    expect(res.status).toBe(404);
+    expect(Number(res.headers["content-length"])).toBeGreaterThan(0);
+    expect(res.text).toBeUndefined();
+  });
+
+  it("serves genuine images unchanged", async () => {
+    const res = await request(createStatusApp())
+      .get("/s")
+      .query({ src: "noimage.jpg", width: 64 });
+
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toBe(mimeTypes.jpeg);
+  });
+});
+
+describe("custom fallbackImages", () => {
+  let dir: string;
+  let redPng: Buffer;
+  const createFallbackApp = (
+    options: Partial<PixelServeOptions> = {},
+  ): ReturnType<typeof express> => {
+    const app = express();
+    app.get(
+      "/s",
+      registerServe({
+        baseDir: assetDir,
+        allowedNetworkList: ["allowed.test"],
+        ...options,
+      }),
+    );
+    return app;
+  };
+  const isRed = async (image: Buffer): Promise<boolean> => {
+    const { channels } = await sharp(image).stats();
+    return channels[0]!.mean > 200 && channels[1]!.mean < 50;
+  };
+
+  beforeAll(async () => {
+    dir = await fsp.mkdtemp(path.join(os.tmpdir(), "pixel-fallbacks-"));
+    redPng = await sharp({
+      create: { width: 400, height: 300, channels: 3, background: "#ff0000" },
+    })
+      .png()
+      .toBuffer();
+    await fsp.writeFile(path.join(dir, "avatar.png"), redPng);
+    await fsp.writeFile(path.join(dir, "broken.jpg"), "not an image");
+    // A JPEG signature followed by nothing decodable.
+    await fsp.writeFile(
+      path.join(dir, "truncated.jpg"),
+      Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xe0]), redPng]),
+    );
+  });
+
+  afterAll(async () => {
+    await fsp.rm(dir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("resizes and re-encodes a buffer fallback for a missing source", async () => {
+    const res = await request(
+      createFallbackApp({ fallbackImages: { normal: redPng } }),
+    )
+      .get("/s")
+      .query({ src: "does-not-exist.jpg", width: 64, format: "webp" })
+      .buffer(true)
+      .parse(bufferParser);
+
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toBe(mimeTypes.webp);
+    expect(res.headers["cache-control"]).toBe("public, max-age=60");
+    const meta = await sharp(res.body as Buffer).metadata();
+    expect([meta.width, meta.height]).toEqual([64, 48]);
+    expect(await isRed(res.body as Buffer)).toBe(true);
+  });
+
+  it("reads a path fallback per type and keeps the bundled one for others", async () => {
+    const app = createFallbackApp({
+      fallbackImages: { avatar: path.join(dir, "avatar.png") },
+    });
+    const avatar = await request(app)
+      .get("/s")
+      .query({ src: "missing.png", type: "avatar", width: 64, height: 64 })
+      .buffer(true)
+      .parse(bufferParser);
+    const normal = await request(app)
+      .get("/s")
+      .query({ src: "missing.png", width: 64 })
+      .buffer(true)
+      .parse(bufferParser);
+
+    const meta = await sharp(avatar.body as Buffer).metadata();
+    expect([meta.width, meta.height]).toEqual([64, 64]);
+    expect(await isRed(avatar.body as Buffer)).toBe(true);
+    expect(await isRed(normal.body as Buffer)).toBe(false);
+  });
+
+  it("passes the request, type and failure phase to a resolver", async () => {
+    const resolver = vi.fn(async () => redPng);
+    const app = createFallbackApp({ fallbackImages: resolver });
+
+    await request(app).get("/s").query({ src: "missing.jpg", type: "avatar" });
+    await request(app).get("/s").query({ src: "https://blocked.test/a.jpg" });
+    const invalid = await request(app)
+      .get("/s")
+      .query({ src: "noimage.jpg", width: 99999 })
+      .buffer(true)
+      .parse(bufferParser);
+
+    expect(resolver.mock.calls.map((call) => call.slice(1))).toEqual([
+      ["avatar", "fs"],
+      ["normal", "fetch"],
+      ["normal", "validation"],
+    ]);
+    expect((resolver.mock.calls[0] as unknown[])[0]).toHaveProperty("query");
+    // Nothing of the request is known after a validation failure, so the
+    // fallback keeps its own size in the bundled placeholder's format.
+    expect(invalid.headers["content-type"]).toBe(mimeTypes.jpeg);
+    expect((await sharp(invalid.body as Buffer).metadata()).width).toBe(400);
+  });
+
+  it("resolves a fallback per request, even for concurrent ones", async () => {
+    const bluePng = await sharp({
+      create: { width: 40, height: 30, channels: 3, background: "#0000ff" },
+    })
+      .png()
+      .toBuffer();
+    const resolver = vi.fn(async (req: express.Request) => {
+      // Keeps the first request's run in flight while the second arrives.
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      return req.get("X-Brand") === "red" ? redPng : bluePng;
+    });
+    const app = createFallbackApp({ fallbackImages: resolver });
+    const fetchFor = (brand: string): Promise<Response> =>
+      request(app)
+        .get("/s")
+        .query({ src: "https://blocked.test/a.jpg" })
+        .set("X-Brand", brand)
+        .buffer(true)
+        .parse(bufferParser);
+
+    const [red, blue] = await Promise.all([fetchFor("red"), fetchFor("blue")]);
+
+    expect(resolver).toHaveBeenCalledTimes(2);
+    expect(await isRed(red.body as Buffer)).toBe(true);
+    expect(await isRed(blue.body as Buffer)).toBe(false);
+  });
+
+  it("resizes a fallback without the crop meant for the missing source", async () => {
+    const onError = vi.fn();
+    const resolver = vi.fn(async () => redPng);
+    const res = await request(
+      createFallbackApp({ fallbackImages: resolver, onError }),
+    )
+      .get("/s")
+      .query({
+        src: "missing.jpg",
+        crop: "0,0,500,500",
+        fx: 0.1,
+        fy: 0.9,
+        width: 64,
+        height: 64,
+        format: "webp",
+      })
+      .buffer(true)
+      .parse(bufferParser);
+
+    expect(res.headers["content-type"]).toBe(mimeTypes.webp);
+    const meta = await sharp(res.body as Buffer).metadata();
+    expect([meta.width, meta.height]).toEqual([64, 64]);
+    expect(await isRed(res.body as Buffer)).toBe(true);
+    expect(resolver).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls.map((call) => call[1].phase)).toEqual(["fs"]);
+  });
+
+  it("encodes the hard fallback at the requested size and format", async () => {
+    const onComplete = vi.fn();
+    const res = await request(
+      createFallbackApp({
+        baseDir: dir,
+        fallbackImages: { normal: redPng },
+        onComplete,
+      }),
+    )
+      .get("/s")
+      .query({ src: "broken.jpg", width: 64, format: "png" })
+      .buffer(true)
+      .parse(bufferParser);
+
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toBe(mimeTypes.png);
+    expect(res.headers["content-disposition"]).toBe(
+      'inline; filename="fallback.png"',
+    );
+    expect((await sharp(res.body as Buffer).metadata()).width).toBe(64);
+    expect(await isRed(res.body as Buffer)).toBe(true);
+    expect(onComplete.mock.calls[0]![0]).toMatchObject({
+      format: "png",
+      fallback: true,
+    });
+  });
+
+  it("falls back to the bundled placeholder when the custom one fails", async () => {
+    const bundled = await FALLBACKIMAGES.normal();
+    const cases: [PixelServeOptions["fallbackImages"], string[]][] = [
+      [(): undefined => undefined, ["validation"]],
+      [
+        (): never => {
+          throw new Error("resolver failed");
+        },
+        ["validation", "fallback"],
+      ],
+      [(): string => "relative/fallback.png", ["validation", "fallback"]],
+      [
+        (): Buffer => Buffer.from("<svg xmlns='http://www.w3.org/2000/svg'/>"),
+        ["validation", "fallback"],
+      ],
+    ];
+    for (const [fallbackImages, phases] of cases) {
+      const onError = vi.fn();
+      const res = await request(createFallbackApp({ fallbackImages, onError }))
+        .get("/s")
+        .query({ src: "noimage.jpg", width: 99999 })
+        .buffer(true)
+        .parse(bufferParser);
+
+      expect((res.body as Buffer).equals(bundled)).toBe(true);
+      expect(onError.mock.calls.map((call) => call[1].phase)).toEqual(phases);
+    }
+  });
+
+  it("serves the bundled placeholder when the custom one cannot be decoded", async () => {
+    const onError = vi.fn();
+    const res = await request(
+      createFallbackApp({
+        fallbackImages: { normal: path.join(dir, "truncated.jpg") },
+        onError,
+      }),
+    )
+      .get("/s")
+      .query({ src: "missing.jpg", width: 64 })
+      .buffer(true)
+      .parse(bufferParser);
+
+    expect(res.status).toBe(200);
+    expect((res.body as Buffer).equals(await FALLBACKIMAGES.normal())).toBe(
+      true,
+    );
+    expect(onError.mock.calls.map((call) => call[1].phase)).toEqual([
+      "fs",
+      "sharp",
+      "fallback",
+    ]);
+  });
+
+  it("is not consulted under errorMode status", async () => {
+    const resolver = vi.fn(() => redPng);
+    const res = await request(
+      createFallbackApp({ fallbackImages: resolver, errorMode: "status" }),
+    )
+      .get("/s")
+      .query({ src: "missing.jpg" });
+
+    expect(res.status).toBe(404);
+    expect(resolver).not.toHaveBeenCalled();
+  });
+
+  it("rejects unusable fallback images at registerServe time", () => {
+    const onError = vi.fn();
+    for (const fallbackImages of [
+      { normal: "relative.png" },
+      { avatar: path.join(dir, "missing.png") },
+      { normal: dir },
+      { normal: Buffer.alloc(0) },
+      { normal: path.join(dir, "broken.jpg") },
+      { avatar: Buffer.from("not an image") },
+      { thumbnail: redPng },
+    ]) {
+      expect(() =>
+        registerServe({
+          baseDir: assetDir,
+          onError,
+          fallbackImages: fallbackImages as PixelServeOptions["fallbackImages"],
+        }),
+      ).toThrow();
+    }
+    expect(onError).toHaveBeenCalledTimes(7);
+    expect(onError.mock.calls[0]![1]).toEqual({ phase: "schema" });
+  });
+});
+
+describe("generated placeholders", () => {
+  const createPlaceholderApp = (
+    options: Partial<PixelServeOptions> = {},
+  ): ReturnType<typeof express> => {
+    const app = express();
+    app.get(
+      "/s",
+      registerServe({
+        baseDir: assetDir,
+        placeholders: { background: "#ff0000", color: "#ffffff" },
+        ...options,
+      }),
+    );
+    return app;
+  };
+  const isRed = async (image: Buffer): Promise<boolean> => {
+    const { dominant } = await sharp(image).stats();
+    return dominant.r > 200 && dominant.g < 50 && dominant.b < 50;
+  };
+
+  it("draws a missing source at the requested size and format", async () => {
+    const res = await request(createPlaceholderApp())
+      .get("/s")
+      .query({ src: "does-not-exist.jpg", width: 64, format: "webp" })
+      .buffer(true)
+      .parse(bufferParser);
+
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toBe(mimeTypes.webp);
+    expect(res.headers["cache-control"]).toBe("public, max-age=60");
+    const meta = await sharp(res.body as Buffer).metadata();
+    expect([meta.width, meta.height]).toEqual([64, 48]);
+    expect(await isRed(res.body as Buffer)).toBe(true);
+  });
+
+  it("draws avatars square and honours both requested dimensions", async () => {
+    const app = createPlaceholderApp();
+    const avatar = await request(app)
+      .get("/s")
+      .query({ src: "missing.png", type: "avatar", userId: "jane.doe" })
+      .buffer(true)
+      .parse(bufferParser);
+    const banner = await request(app)
+      .get("/s")
+      .query({ src: "missing.png", width: 300, height: 100 })
+      .buffer(true)
+      .parse(bufferParser);
+
+    const avatarMeta = await sharp(avatar.body as Buffer).metadata();
+    expect([avatarMeta.width, avatarMeta.height]).toEqual([256, 256]);
+    const bannerMeta = await sharp(banner.body as Buffer).metadata();
+    expect([bannerMeta.width, bannerMeta.height]).toEqual([300, 100]);
+    expect(await isRed(banner.body as Buffer)).toBe(true);
+  });
+
+  it("replaces the bundled hard fallback", async () => {
+    const onComplete = vi.fn();
+    const res = await request(createPlaceholderApp({ onComplete }))
+      .get("/s")
+      .query({ src: "noimage.jpg", width: 99999 })
+      .buffer(true)
+      .parse(bufferParser);
+
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toBe(mimeTypes.jpeg);
+    // Nothing of the request is known after a validation failure, so the
+    // placeholder takes the type's default size.
+    const meta = await sharp(res.body as Buffer).metadata();
+    expect([meta.width, meta.height]).toEqual([640, 480]);
+    expect(await isRed(res.body as Buffer)).toBe(true);
+    expect(onComplete.mock.calls[0]![0]).toMatchObject({ fallback: true });
+  });
+
+  it("encodes the hard fallback at the requested size and format", async () => {
+    const dir = await fsp.mkdtemp(path.join(os.tmpdir(), "pixel-placeholder-"));
+    try {
+      await fsp.writeFile(path.join(dir, "broken.jpg"), "not an image");
+      const res = await request(createPlaceholderApp({ baseDir: dir }))
+        .get("/s")
+        .query({ src: "broken.jpg", width: 64, format: "png" })
+        .buffer(true)
+        .parse(bufferParser);
+
+      expect(res.headers["content-type"]).toBe(mimeTypes.png);
+      const meta = await sharp(res.body as Buffer).metadata();
+      expect([meta.width, meta.height]).toEqual([64, 48]);
+      expect(await isRed(res.body as Buffer)).toBe(true);
+    } finally {
+      await fsp.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("yields to a custom fallback image", async () => {
+    const blue = await sharp({
+      create: { width: 40, height: 30, channels: 3, background: "#0000ff" },
+    })
+      .png()
+      .toBuffer();
+    const res = await request(
+      createPlaceholderApp({ fallbackImages: { normal: blue } }),
+    )
+      .get("/s")
+      .query({ src: "missing.jpg", width: 64 })
+      .buffer(true)
+      .parse(bufferParser);
+
+    const { dominant } = await sharp(res.body as Buffer).stats();
+    expect(dominant.b).toBeGreaterThan(200);
+    expect(dominant.r).toBeLessThan(50);
+  });
+
+  it("is not drawn under errorMode status", async () => {
+    const res = await request(createPlaceholderApp({ errorMode: "status" }))
+      .get("/s")
+      .query({ src: "missing.jpg", width: 64 });
+
+    expect(res.status).toBe(404);
+    expect(res.headers["content-type"]).toBe("application/problem+json");
+  });
+});
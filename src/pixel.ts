@@ -1,16 +1,27 @@
 import path from "node:path";
 import * as fs from "node:fs/promises";
 import { createHash } from "node:crypto";
-import sharp, { FormatEnum, ResizeOptions } from "sharp";
+import { STATUS_CODES } from "node:http";
+import sharp, { FormatEnum, Region, ResizeOptions } from "sharp";
 import type { Request, Response, NextFunction } from "express";
 import type {
+  CropLength,
+  CropRectangle,
   PixelServeOptions,
   ImageFormat,
   ImageType,
   PixelServeErrorContext,
+  PixelServeErrorPhase,
+  PixelServeErrorStatus,
   PixelServeOnError,
   PixelServeCompletionContext,
   PixelServeOnComplete,
+  PixelServeCacheEntry,
+  PixelServeCacheStore,
+  PixelServePreset,
+  PixelServeHandler,
+  PixelServeRequest,
+  PixelServeResponse,
 } from "./types";
 import {
   allowedFormats,
@@ -26,12 +37,18 @@ import {
 } from "./functions";
 import { renderOptions, renderUserData } from "./renders";
 import type { ParsedOptions } from "./schema";
+import { createFileSystemCacheStore, createMemoryCacheStore } from "./cache";
+import { createUpstreamCache, type UpstreamCache } from "./upstream";
+import { readCompatPath, translateCompatParams } from "./compat";
+import { parsePixelPath } from "./paths";
+import { verifyPixelSignature } from "./signing";
+import { renderPlaceholder } from "./placeholders";
 
 /**
  * Best-effort observability hook dispatcher. Swallows hook errors so a buggy
  * logger never crashes a request. Returns void.
  */
-const reportError = (
+export const reportError = (
   hook: PixelServeOnError | undefined,
   err: unknown,
   context: PixelServeErrorContext,
@@ -108,6 +125,106 @@ const DEFAULT_CACHE_CONTROL =
   "public, max-age=86400, stale-while-revalidate=604800";
 const FALLBACK_CACHE_CONTROL = "public, max-age=60";
 
+/** Body of every `304 Not Modified` and every `HEAD` response. */
+const EMPTY_BODY = Buffer.alloc(0);
+
+/**
+ * An error thrown through the pipeline to its outer catch, carrying the
+ * status `errorMode: "status"` answers with and the `onError` phase the
+ * throw site reported the original error (kept as its `cause`) under. Any
+ * other error reaching the catch is answered with `500`.
+ */
+type StatusError = Error & {
+  status: PixelServeErrorStatus;
+  phase: PixelServeErrorPhase;
+};
+
+const withStatus = (
+  status: PixelServeErrorStatus,
+  cause: unknown,
+  phase: PixelServeErrorPhase,
+): StatusError =>
+  Object.assign(new Error(`request failed with status ${status}`, { cause }), {
+    status,
+    phase,
+  });
+
+/**
+ * Builds the `errorMode: "status"` answer to a failed request: the status
+ * with an RFC 9457 `application/problem+json` body naming it. Like a
+ * fallback image it is cacheable only briefly, so a transient failure is
+ * not remembered as permanent.
+ */
+const buildProblemResponse = (
+  status: PixelServeErrorStatus,
+  headers: Record<string, string>,
+  cacheControl: string,
+  head: boolean,
+): PixelServeResponse => {
+  const problem = Buffer.from(
+    JSON.stringify({
+      type: "about:blank",
+      title: STATUS_CODES[status],
+      status,
+    }),
+  );
+  return {
+    status,
+    headers: {
+      ...headers,
+      "Content-Type": "application/problem+json",
+      Vary: "Accept-Encoding",
+      "X-Content-Type-Options": "nosniff",
+      "Cache-Control": cacheControl,
+      "Content-Length": problem.length.toString(),
+    },
+    body: head ? EMPTY_BODY : problem,
+  };
+};
+
+/**
+ * How many encoded variants `ServeRuntime.variants` remembers. Each entry
+ * is a cache key plus a format and a length, so the cap bounds the map to
+ * roughly a megabyte.
+ */
+const MAX_REMEMBERED_VARIANTS = 10_000;
+
+/**
+ * Rewrites a `Cache-Control` value so no cache may reuse the response for
+ * longer than `maxAgeSeconds`: `max-age` and `s-maxage` are lowered to it
+ * (and `max-age` added when absent), and the directives that license reuse
+ * beyond the freshness lifetime — `stale-while-revalidate`,
+ * `stale-if-error`, `immutable` — are dropped.
+ */
+const capCacheControl = (header: string, maxAgeSeconds: number): string => {
+  let hasMaxAge = false;
+  const directives = header
+    .split(",")
+    .map((directive) => directive.trim())
+    .filter((directive) => directive !== "")
+    .flatMap((directive) => {
+      const [rawName = "", rawValue] = directive.split("=");
+      const name = rawName.trim().toLowerCase();
+      if (name === "max-age" || name === "s-maxage") {
+        hasMaxAge ||= name === "max-age";
+        const seconds = Number(rawValue?.trim().replace(/^"(.*)"$/, "$1"));
+        return [
+          `${name}=${Number.isFinite(seconds) ? Math.min(seconds, maxAgeSeconds) : maxAgeSeconds}`,
+        ];
+      }
+      if (
+        name === "stale-while-revalidate" ||
+        name === "stale-if-error" ||
+        name === "immutable"
+      ) {
+        return [];
+      }
+      return [directive];
+    });
+  if (!hasMaxAge) directives.push(`max-age=${maxAgeSeconds}`);
+  return directives.join(", ");
+};
+
 export const buildFilename = (
   rawSrc: string | undefined,
   outputFormat: string,
@@ -217,7 +334,12 @@ export const buildFilename = (
  *    forever.
  *  - Any other `http(s)` URL contributes the resolved URL string. The
  *    framework cannot cheaply re-fetch HEAD per request, so the URL is the
- *    strongest identifier available without paying for the body.
+ *    strongest identifier available without paying for the body. When the
+ *    caller already holds the origin bytes — `upstreamCache` resolves remote
+ *    sources before the ETag is built — it passes their SHA-256 as
+ *    `options.upstreamVersion` and the identifier becomes
+ *    `url:<src>#<version>`, so the ETag changes whenever the origin's
+ *    content does.
  *  - A local file (direct path OR resolved from an internal-host URL) whose
  *    size exceeds the optional `options.maxBytes` returns `null` instead of
  *    a `file:` identifier: `readLocalImage` refuses to serve a file that
@@ -227,6 +349,10 @@ export const buildFilename = (
  *  - Anything else (missing file, out-of-tree/traversal path, fallback
  *    paths) returns `null` so the caller falls back to the post-Sharp
  *    buffer hash — which always matches the bytes actually sent.
+ *
+ * `options.onLastModified` receives the file's `mtimeMs` whenever a `file:`
+ * identifier is returned, so the caller can send `Last-Modified` without a
+ * second `fs.stat`.
  */
 export const buildSourceIdentifier = async (
   src: string | undefined,
@@ -236,6 +362,8 @@ export const buildSourceIdentifier = async (
     apiRegex?: RegExp;
     apiPrefix?: string;
     maxBytes?: number;
+    upstreamVersion?: string;
+    onLastModified?: (mtimeMs: number) => void;
   },
 ): Promise<string | null> => {
   if (!src) return null;
@@ -248,6 +376,7 @@ export const buildSourceIdentifier = async (
       if (options?.maxBytes !== undefined && stats.size > options.maxBytes) {
         return null;
       }
+      options?.onLastModified?.(stats.mtimeMs);
       return `file:${stats.mtimeMs}:${stats.size}`;
     } catch {
       return null;
@@ -264,7 +393,9 @@ export const buildSourceIdentifier = async (
     if (internalLocalPath !== null) {
       return statLocalFile(internalLocalPath);
     }
-    return `url:${src}`;
+    return options?.upstreamVersion
+      ? `url:${src}#${options.upstreamVersion}`
+      : `url:${src}`;
   }
 
   return statLocalFile(src);
@@ -290,6 +421,13 @@ export const buildDeterministicEtag = (
     type: ImageType;
     folder: "public" | "private";
     parsedUserId: string | undefined;
+    fit?: string;
+    enlarge?: boolean;
+    background?: string;
+    position?: string;
+    fx?: number;
+    fy?: number;
+    crop?: CropRectangle;
   },
   sourceIdentifier: string,
 ): string => {
@@ -302,6 +440,16 @@ export const buildDeterministicEtag = (
     t: fields.type,
     fo: fields.folder,
     u: fields.parsedUserId ?? "",
+    // Resize options are optional in the key: `JSON.stringify` drops
+    // `undefined` members, so requests that omit them keep the ETags they
+    // had before these parameters existed.
+    fit: fields.fit,
+    en: fields.enlarge,
+    bg: fields.background,
+    pos: fields.position,
+    fx: fields.fx,
+    fy: fields.fy,
+    cr: fields.crop,
     sid: sourceIdentifier,
   });
   return `"${createHash("sha256").update(key).digest("hex")}"`;
@@ -605,33 +753,444 @@ export const looksLikeSvg = (buf: Buffer): boolean => {
   return headLooksLikeSvg(head);
 };
 
+/**
+ * One level of the derivative cache, named for `onComplete`'s `cacheHit`.
+ * Tiers are ordered cheapest first: `memoryCache`, `diskCache`, then the
+ * operator's `cacheStore`.
+ */
+type CacheTier = {
+  name: NonNullable<PixelServeCompletionContext["cacheHit"]>;
+  store: PixelServeCacheStore;
+  ttlMs?: number;
+};
+
+/**
+ * Per-instance state built once by `registerServe` and shared by every
+ * request that instance serves. Kept separate from `ParsedOptions` so the
+ * validated option values stay plain data.
+ */
+type ServeRuntime = {
+  cacheTiers: CacheTier[];
+  inFlight: Map<string, Promise<PipelineResult>>;
+  upstreamCache?: UpstreamCache;
+  upstreamInFlight: Map<string, Promise<UpstreamResult>>;
+  variants: Map<string, EncodedVariant>;
+};
+
+/**
+ * The format and byte length a deterministic cache key last encoded to,
+ * kept without the body so a `HEAD` request can send `Content-Type` and
+ * `Content-Length` without running Sharp even when no derivative cache
+ * holds the bytes.
+ */
+type EncodedVariant = {
+  format: ImageFormat;
+  length: number;
+};
+
+/**
+ * Records `variant` under `key`, dropping the oldest entry once
+ * `MAX_REMEMBERED_VARIANTS` is exceeded. Re-inserting moves a key to the
+ * back, so frequently served variants are the last to go.
+ */
+const rememberVariant = (
+  variants: Map<string, EncodedVariant>,
+  key: string,
+  variant: EncodedVariant,
+): void => {
+  variants.delete(key);
+  variants.set(key, variant);
+  if (variants.size > MAX_REMEMBERED_VARIANTS) {
+    variants.delete(variants.keys().next().value!);
+  }
+};
+
+/**
+ * A remote source resolved ahead of the ETag computation because
+ * `upstreamCache` is enabled. `version` (the SHA-256 of `body`) is present
+ * only when `body` is the origin's bytes rather than a placeholder;
+ * `lastModified` is the origin's `Last-Modified` for those bytes, if any.
+ * `failureStatus` describes why a placeholder was returned.
+ */
+type UpstreamResult = {
+  body: Buffer;
+  softFallback: boolean;
+  version?: string;
+  lastModified?: string;
+  failureStatus?: PixelServeErrorStatus;
+};
+
+/**
+ * Returns `true` when an `Accept` header lists `mediaType` with a non-zero
+ * quality. Only explicit entries count: wildcard ranges such as `image/*`
+ * are sent by clients that cannot decode AVIF or WebP, so they prove
+ * nothing.
+ */
+const acceptsMediaType = (
+  accept: string | undefined,
+  mediaType: string,
+): boolean =>
+  (accept ?? "").split(",").some((entry) => {
+    const [type, ...params] = entry.split(";").map((part) => part.trim());
+    if (type?.toLowerCase() !== mediaType) return false;
+    const q = params.find((param) => /^q=/i.test(param));
+    return q === undefined || Number(q.slice(2)) > 0;
+  });
+
+/**
+ * Reads one request header as a single string. A repeated header arrives
+ * from `node:http` as an array; its values are joined as one list, the
+ * way the Fetch API's `Headers.get` reports them.
+ */
+const headerValue = (
+  headers: PixelServeRequest["headers"],
+  name: string,
+): string | undefined => {
+  const value = headers[name];
+  return Array.isArray(value) ? value.join(", ") : value;
+};
+
+/**
+ * Formats epoch milliseconds as an HTTP-date (`Wed, 21 Oct 2015 07:28:00
+ * GMT`). The date is truncated to whole seconds, the precision validators
+ * are compared at, and a future date — clock skew, or a file touched
+ * ahead of time — is clamped to now (RFC 9110 §8.8.2.1).
+ */
+const formatHttpDate = (ms: number): string =>
+  new Date(Math.min(Math.floor(ms / 1000) * 1000, Date.now())).toUTCString();
+
+/**
+ * `true` when an `If-Modified-Since` header names a date at or after
+ * `lastModified`. A missing or unparseable header never matches.
+ */
+const isNotModifiedSince = (
+  header: string | undefined,
+  lastModified: string,
+): boolean => {
+  const since = Date.parse(header ?? "");
+  return !Number.isNaN(since) && Date.parse(lastModified) <= since;
+};
+
+/** An inclusive byte range of a response body. */
+type ByteRange = { start: number; end: number };
+
+/**
+ * Reads a `Range` header against a body of `size` bytes (RFC 9110 §14.1.2).
+ * Returns the single range it selects, `"unsatisfiable"` when it selects
+ * nothing (a start past the end, or an empty suffix), or `undefined` when
+ * the header is absent, malformed, in another unit, or lists several
+ * ranges — all of which the server may ignore by sending the full body.
+ */
+const parseByteRange = (
+  header: string | undefined,
+  size: number,
+): ByteRange | "unsatisfiable" | undefined => {
+  const match = /^bytes=\s*(\d*)\s*-\s*(\d*)\s*$/i.exec(header ?? "");
+  if (!match) return undefined;
+  const [, first, last] = match;
+  if (first === "") {
+    if (last === "") return undefined;
+    const suffix = Number(last);
+    if (suffix === 0) return "unsatisfiable";
+    return { start: Math.max(0, size - suffix), end: size - 1 };
+  }
+  const start = Number(first);
+  if (last !== "" && Number(last) < start) return undefined;
+  if (start >= size) return "unsatisfiable";
+  return {
+    start,
+    end: last === "" ? size - 1 : Math.min(Number(last), size - 1),
+  };
+};
+
+/**
+ * Picks the output format for `format=auto`: AVIF, then WebP, when the
+ * client advertises it. `undefined` leaves the choice between PNG and JPEG
+ * to the source's alpha channel once it has been decoded.
+ */
+const negotiateFormat = (
+  accept: string | undefined,
+): ImageFormat | undefined => {
+  if (acceptsMediaType(accept, "image/avif")) return "avif";
+  if (acceptsMediaType(accept, "image/webp")) return "webp";
+  return undefined;
+};
+
+/** Client Hints requested from browsers when `clientHints` is enabled. */
+const CLIENT_HINTS = "Sec-CH-Width, Sec-CH-DPR, Sec-CH-Viewport-Width";
+
+/** Parses a numeric hint header; `undefined` unless finite and positive. */
+const parseHintNumber = (value: string | undefined): number | undefined => {
+  const parsed = value === undefined ? NaN : Number(value.trim());
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+/**
+ * Fills the query parameters a request left out from its Client Hints, so
+ * the hint-derived values pass through `renderUserData`'s validation,
+ * `dpr` scaling and clamping exactly like explicit ones — and therefore
+ * land in the deterministic ETag key. Explicit query values always win.
+ * Hint values are coerced into the schema's windows (widths up to 4000,
+ * DPR `1`–`4`) so a device outside them is served its nearest size rather
+ * than a fallback. `vary` lists the hint headers the response depends on.
+ */
+const applyClientHints = (
+  query: Record<string, unknown>,
+  headers: PixelServeRequest["headers"],
+  saveDataQuality: number,
+  presets: Record<string, PixelServePreset> | undefined,
+): { query: Record<string, unknown>; vary: string[] } => {
+  const hinted = { ...query };
+  const vary: string[] = [];
+  // A preset's parameters count as explicit, just like the query's own.
+  const preset =
+    typeof query.preset === "string" &&
+    presets &&
+    Object.hasOwn(presets, query.preset)
+      ? presets[query.preset]
+      : undefined;
+  const explicit = { ...preset, ...query };
+  if (explicit.width === undefined && explicit.height === undefined) {
+    vary.push("Sec-CH-Width", "Sec-CH-Viewport-Width", "Sec-CH-DPR");
+    const width = parseHintNumber(headerValue(headers, "sec-ch-width"));
+    const viewportWidth = parseHintNumber(
+      headerValue(headers, "sec-ch-viewport-width"),
+    );
+    const dpr = parseHintNumber(headerValue(headers, "sec-ch-dpr"));
+    // `Sec-CH-Width` is already in physical pixels, so no DPR — not even a
+    // query or preset `dpr` — applies on top of it; only the CSS-pixel
+    // viewport width is scaled.
+    if (width !== undefined) {
+      hinted.width = String(Math.min(Math.ceil(width), 4000));
+      hinted.dpr = "1";
+    } else if (viewportWidth !== undefined) {
+      hinted.width = String(Math.min(Math.ceil(viewportWidth), 4000));
+      if (dpr !== undefined && explicit.dpr === undefined) {
+        hinted.dpr = String(Math.min(Math.max(dpr, 1), 4));
+      }
+    }
+  }
+  if (explicit.quality === undefined) {
+    vary.push("Save-Data");
+    if (headerValue(headers, "save-data")?.trim().toLowerCase() === "on") {
+      hinted.quality = String(saveDataQuality);
+    }
+  }
+  return { query: hinted, vary };
+};
+
+/**
+ * Returns the in-flight run for `key` when there is one, otherwise starts
+ * `task` and records it until it settles. `joined` tells the caller which
+ * case applied. A rejection reaches every caller holding the promise.
+ */
+const coalesce = <T>(
+  inFlight: Map<string, Promise<T>>,
+  key: string,
+  task: () => Promise<T>,
+): { promise: Promise<T>; joined: boolean } => {
+  const pending = inFlight.get(key);
+  if (pending) return { promise: pending, joined: true };
+  const promise = task().finally(() => {
+    inFlight.delete(key);
+  });
+  inFlight.set(key, promise);
+  return { promise, joined: false };
+};
+
+/**
+ * Plans a `fit=cover` resize that keeps a focal point in view: scale the
+ * source just enough to cover `box` (never past its own size unless
+ * `enlarge`), then cut a `box`-sized window centered on the focal point,
+ * shifted inward where it would cross an image edge. `source` must be the
+ * auto-rotated dimensions. A source too small to fill the box yields a
+ * window clipped to the scaled image, matching Sharp's own cover crop
+ * under `withoutEnlargement`.
+ */
+const planFocalCrop = (
+  source: { width: number; height: number },
+  box: { width: number; height: number },
+  focal: { x: number; y: number },
+  enlarge: boolean,
+): { width: number; height: number; extract: Region } => {
+  let scale = Math.max(box.width / source.width, box.height / source.height);
+  if (!enlarge) scale = Math.min(scale, 1);
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+  const cropWidth = Math.min(box.width, width);
+  const cropHeight = Math.min(box.height, height);
+  const clampOffset = (center: number, size: number, max: number): number =>
+    Math.min(Math.max(Math.round(center - size / 2), 0), max - size);
+  return {
+    width,
+    height,
+    extract: {
+      left: clampOffset(focal.x * width, cropWidth, width),
+      top: clampOffset(focal.y * height, cropHeight, height),
+      width: cropWidth,
+      height: cropHeight,
+    },
+  };
+};
+
+/**
+ * Converts a `crop` rectangle to a pixel region of `source` (the
+ * auto-rotated dimensions). Percentages are resolved edge by edge — the
+ * right edge is rounded from `x + w` rather than adding two rounded values
+ * — so `0%,0%,100%,100%` always maps to the whole image. Returns
+ * `undefined` when the region is empty or reaches past the source.
+ */
+const resolveCropRegion = (
+  crop: CropRectangle,
+  source: { width: number; height: number },
+): Region | undefined => {
+  const toPixels = (length: CropLength, dimension: number): number =>
+    length.unit === "%" ? (length.value / 100) * dimension : length.value;
+  const left = Math.round(toPixels(crop.x, source.width));
+  const top = Math.round(toPixels(crop.y, source.height));
+  const right = Math.round(
+    toPixels(crop.x, source.width) + toPixels(crop.width, source.width),
+  );
+  const bottom = Math.round(
+    toPixels(crop.y, source.height) + toPixels(crop.height, source.height),
+  );
+  if (right > source.width || bottom > source.height) return undefined;
+  if (right <= left || bottom <= top) return undefined;
+  return { left, top, width: right - left, height: bottom - top };
+};
+
+/**
+ * How a custom fallback image is encoded: the requested output format,
+ * quality and resize, as far as they were known when the request failed.
+ */
+type FallbackEncoding = {
+  format: ImageFormat;
+  quality?: number;
+  resize?: ResizeOptions;
+};
+
+/**
+ * Loads the operator's `fallbackImages` choice for a failed request, or
+ * `undefined` to keep the bundled placeholder. A resolver is awaited under
+ * `requestTimeoutMs`. A throw, a timeout, an unreadable or relative path, a
+ * value that is neither a path nor a `Buffer`, and an SVG while
+ * `allowSvgInput` is off are reported with `phase: "fallback"` and also
+ * yield `undefined`, so a broken fallback never breaks the response.
+ */
+const loadFallbackImage = async (
+  req: PixelServeRequest,
+  parsedOptions: ParsedOptions,
+  type: ImageType,
+  phase: PixelServeErrorPhase,
+  context: Omit<PixelServeErrorContext, "phase">,
+): Promise<Buffer | undefined> => {
+  const fallbackImages = parsedOptions.fallbackImages;
+  if (!fallbackImages) return undefined;
+  try {
+    const image =
+      typeof fallbackImages === "function"
+        ? await raceWithTimeout(
+            Promise.resolve().then(() => fallbackImages(req.raw, type, phase)),
+            parsedOptions.requestTimeoutMs,
+            "fallbackImages",
+          )
+        : fallbackImages[type];
+    if (image === undefined) return undefined;
+    let body: Buffer;
+    if (Buffer.isBuffer(image)) {
+      body = image;
+    } else if (typeof image === "string" && path.isAbsolute(image)) {
+      body = await fs.readFile(image);
+    } else {
+      throw new Error("fallback image must be a Buffer or an absolute path");
+    }
+    if (!parsedOptions.allowSvgInput && looksLikeSvg(body)) {
+      throw new Error("svg fallback image rejected");
+    }
+    return body;
+  } catch (err) {
+    reportError(parsedOptions.onError, err, { ...context, phase: "fallback" });
+    return undefined;
+  }
+};
+
+/**
+ * Resizes and re-encodes a custom fallback image the way the request asked
+ * for its real image, so a small slot never receives a full-size
+ * placeholder.
+ */
+const encodeFallbackImage = async (
+  image: Buffer,
+  encoding: FallbackEncoding,
+  maxInputPixels: number,
+): Promise<Buffer> => {
+  let pipeline = sharp(image, {
+    failOn: "warning",
+    limitInputPixels: maxInputPixels,
+  }).rotate();
+  if (encoding.resize) {
+    pipeline = pipeline.resize(encoding.resize);
+  }
+  return pipeline
+    .toFormat(encoding.format as keyof FormatEnum, {
+      quality: encoding.quality,
+    })
+    .toBuffer();
+};
+
+/**
+ * Outcome of one resolve → Sharp run: the encoded body, the format it was
+ * encoded in, and whether it is a soft-fallback placeholder. Shared by every
+ * request coalesced onto the run. Under `errorMode: "status"` a source that
+ * failed to resolve is not encoded at all: `failureStatus` is set instead
+ * and `body` is empty.
+ */
+type PipelineResult = {
+  body: Buffer;
+  format: ImageFormat;
+  softFallback: boolean;
+  failureStatus?: PixelServeErrorStatus;
+};
+
 /**
  * @function serveImage
- * @description Processes and serves an image based on user data and options.
- * @param {Request} req - The Express request object.
- * @param {Response} res - The Express response object.
- * @param {NextFunction} next - The Express next function.
+ * @description Processes a normalized request and builds the response for
+ *   an adapter to send. Framework-agnostic: it reads only the fields of
+ *   `PixelServeRequest` and never touches a framework response object.
+ * @param {PixelServeRequest} req - The normalized request.
  * @param {ParsedOptions} parsedOptions - Already-validated options produced
- *   once by `registerServe`. The Zod schema parse is paid at factory time
+ *   once by `createServeCore`. The Zod schema parse is paid at factory time
  *   so the request hot path is purely arithmetic — see Task 4.
  * @param {string | undefined} cachedRealRoot - Optional pre-resolved
  *   realpath of `options.getUserFolderRootDir`, populated once by the
  *   middleware factory so per-request containment checks do not pay a
  *   fresh `fs.realpath` syscall on the root side.
- * @returns {Promise<void>}
+ * @param {ServeRuntime} runtime - Per-instance caches and in-flight
+ *   pipelines created by the middleware factory.
+ * @returns {Promise<PixelServeResponse>} Rejects only when the bundled
+ *   fallback image itself cannot be read.
  */
 const serveImage = async (
-  req: Request,
-  res: Response,
-  next: NextFunction,
+  req: PixelServeRequest,
   parsedOptions: ParsedOptions,
   cachedRealRoot?: string,
-): Promise<void> => {
+  runtime: ServeRuntime = {
+    cacheTiers: [],
+    inFlight: new Map(),
+    upstreamInFlight: new Map(),
+    variants: new Map(),
+  },
+): Promise<PixelServeResponse> => {
   // Monotonic timestamp captured at the top of every request so the onComplete
   // hook can report end-to-end pipeline latency regardless of which branch
   // (200 happy path, 304 cached short-circuit, or fallback path) was taken.
   const startedAt = process.hrtime.bigint();
   let requestedType: ImageType = "normal";
+  // What is known of the requested output, for encoding a custom fallback
+  // image after a failure. Empty until the parameters are validated.
+  let requestedEncoding: Partial<FallbackEncoding> = {};
+  // A HEAD response carries the headers its GET would, but no body.
+  const isHead = req.method === "HEAD";
   // The schema parse already ran once at factory time, so `onError` and
   // `onComplete` are already the validated function references. Aliased into
   // locals so the outer catch (and the same-named helpers below) can read
@@ -640,24 +1199,108 @@ const serveImage = async (
   const onComplete: PixelServeOnComplete | undefined = parsedOptions.onComplete;
   let observedSrc: string | undefined;
   let observedUserId: string | undefined;
+  let requestedVary = "Accept-Encoding";
+  // `Cache-Control` of a failure answered from the outer catch: the
+  // fallback policy, capped like every other response once an `expires`
+  // deadline is known.
+  let failureCacheControl = FALLBACK_CACHE_CONTROL;
+  // Hint-derived transformations are chosen by the client outside the
+  // query: a signature does not cover them, and preset-only deployments
+  // accept no request-chosen transformations.
+  const clientHints =
+    parsedOptions.signingSecret || parsedOptions.presetsOnly
+      ? undefined
+      : parsedOptions.clientHints;
+  // Headers every response carries, fallbacks included.
+  const baseHeaders: Record<string, string> = {};
+  let hintVary: string[] = [];
+  // Advertised on every response, fallbacks included, so a browser starts
+  // sending the hints from its next request whatever this one returns.
+  if (clientHints) {
+    baseHeaders["Accept-CH"] = CLIENT_HINTS;
+    baseHeaders["Critical-CH"] = CLIENT_HINTS;
+  }
   try {
+    // The path scheme reads every parameter from the path and ignores the
+    // query string, so a signed path cannot be widened by appending one.
+    const compat = parsedOptions.compat;
+    let params: Record<string, unknown> = req.query;
+    if (parsedOptions.urlScheme === "path") {
+      try {
+        params = compat
+          ? readCompatPath(req.path, req.query, compat)
+          : parsePixelPath(req.path);
+      } catch (err) {
+        reportError(onError, err, { phase: "validation" });
+        throw withStatus(400, err, "validation");
+      }
+    }
+
+    // Verified against the raw parameters before anything parses them, so
+    // a forged URL cannot reach the source, the caches or Sharp.
+    if (
+      parsedOptions.signingSecret &&
+      !verifyPixelSignature(params, parsedOptions.signingSecret)
+    ) {
+      const err = new Error("missing or invalid signature");
+      reportError(onError, err, { phase: "signature" });
+      throw withStatus(403, err, "signature");
+    }
+
+    if (compat) {
+      const translation = translateCompatParams(params, compat);
+      params = translation.params;
+      if (translation.unsupported.length > 0) {
+        reportError(
+          onError,
+          new Error(
+            `unsupported ${compat} parameters: ${translation.unsupported.join(", ")}`,
+          ),
+          {
+            phase: "validation",
+            src: typeof params.src === "string" ? params.src : undefined,
+          },
+        );
+      }
+    }
+
+    let query = params;
+    if (clientHints) {
+      ({ query, vary: hintVary } = applyClientHints(
+        params,
+        req.headers,
+        Math.min(clientHints.saveDataQuality, parsedOptions.defaultQuality),
+        parsedOptions.presets,
+      ));
+    }
+
     let userData: ReturnType<typeof renderUserData>;
     try {
-      // `req.query` is typed by Express as `ParsedQs` (recursive string /
-      // string[] / nested object). Pass through as `unknown` and let the
-      // Zod schema reject any shape that isn't a flat record of primitive
-      // strings/numbers — the schema preprocesses `src` to reject arrays
-      // (e.g., `?src[]=a&src[]=b`) with a clear error.
-      userData = renderUserData(req.query, {
+      // `PixelServeRequest.query` is whatever the adapter's query parser
+      // produced (`Record<string, unknown>`: repeated keys may arrive as
+      // arrays, nested keys as objects); path-scheme params are flat
+      // strings. Let the Zod schema reject any shape that isn't a flat
+      // record of primitive strings/numbers — the schema preprocesses `src`
+      // to reject arrays (e.g., `?src[]=a&src[]=b`) with a clear error.
+      userData = renderUserData(query, {
         minWidth: parsedOptions.minWidth,
         maxWidth: parsedOptions.maxWidth,
         minHeight: parsedOptions.minHeight,
         maxHeight: parsedOptions.maxHeight,
         defaultQuality: parsedOptions.defaultQuality,
+        allowedFits: parsedOptions.allowedFits,
+        maxDpr: parsedOptions.maxDpr,
+        presets: parsedOptions.presets,
+        presetsOnly: parsedOptions.presetsOnly,
       });
+      // Without a signature a client could drop or extend the deadline at
+      // will, so an unsigned deployment refuses the parameter outright.
+      if (userData.expires !== undefined && !parsedOptions.signingSecret) {
+        throw new Error("expires requires signingSecret");
+      }
     } catch (err) {
       reportError(onError, err, { phase: "validation" });
-      throw err;
+      throw withStatus(400, err, "validation");
     }
 
     observedSrc = userData.src;
@@ -665,6 +1308,35 @@ const serveImage = async (
     // userData.type is narrowed to `ImageType` by the schema enum default.
     requestedType = userData.type ?? "normal";
 
+    // Checked before `idHandler` and `getUserFolder`, so an expired link
+    // to a private image never reaches the operator's access logic.
+    const secondsLeft =
+      userData.expires === undefined
+        ? undefined
+        : userData.expires - Math.floor(Date.now() / 1000);
+    if (secondsLeft !== undefined && secondsLeft <= 0) {
+      const err = new Error("url expired");
+      reportError(onError, err, {
+        phase: "expired",
+        src: observedSrc,
+        userId: observedUserId,
+      });
+      throw withStatus(403, err, "expired");
+    }
+    // A response to an expiring URL must not be reusable past the deadline.
+    const imageCacheControl =
+      secondsLeft === undefined
+        ? (parsedOptions.cacheControl ?? DEFAULT_CACHE_CONTROL)
+        : capCacheControl(
+            parsedOptions.cacheControl ?? DEFAULT_CACHE_CONTROL,
+            secondsLeft,
+          );
+    const fallbackCacheControl =
+      secondsLeft === undefined
+        ? FALLBACK_CACHE_CONTROL
+        : capCacheControl(FALLBACK_CACHE_CONTROL, secondsLeft);
+    failureCacheControl = fallbackCacheControl;
+
     let baseDir = parsedOptions.baseDir;
     let parsedUserId: string | undefined;
 
@@ -716,7 +1388,7 @@ const serveImage = async (
         // synchronous throw from `getUserFolder` is captured as a rejection
         // and routed through the timeout race + onError hook.
         const folderPromise = Promise.resolve().then(() =>
-          parsedOptions.getUserFolder!(req, parsedUserId),
+          parsedOptions.getUserFolder!(req.raw, parsedUserId),
         );
         const dir = await raceWithTimeout(
           folderPromise,
@@ -767,13 +1439,108 @@ const serveImage = async (
       }
     }
 
-    // `userData.format` is narrowed to `ImageFormat` by the schema — invalid
-    // formats coerce to `undefined`, the renderer fills in `"jpeg"`. The
-    // `allowedFormats.includes` check is defensive in case `allowedFormats`
-    // drifts away from the schema in the future.
-    const outputFormat: ImageFormat = allowedFormats.includes(userData.format)
-      ? userData.format
-      : "jpeg";
+    // `userData.format` is narrowed to `ImageFormat | "auto"` by the schema —
+    // invalid formats coerce to `undefined`, the renderer fills in `"jpeg"`.
+    // The `allowedFormats.includes` check is defensive in case
+    // `allowedFormats` drifts away from the schema in the future.
+    //
+    // `format=auto` negotiates AVIF, then WebP, from `Accept` right here. A
+    // client accepting neither gets PNG or JPEG depending on whether the
+    // source has alpha, which is only known after decode — `outputFormat`
+    // stays `undefined` until the pipeline settles it. That choice is a pure
+    // function of the source bytes, which the source identifier already
+    // pins, so the ETag key records it as `"auto"`.
+    const autoFormat = userData.format === "auto";
+    const outputFormat: ImageFormat | undefined = autoFormat
+      ? negotiateFormat(headerValue(req.headers, "accept"))
+      : allowedFormats.includes(userData.format as ImageFormat)
+        ? (userData.format as ImageFormat)
+        : "jpeg";
+    // Negotiated and hint-derived responses differ by the request headers
+    // that chose them, so shared caches must key on those too.
+    const vary = [
+      "Accept-Encoding",
+      ...(autoFormat ? ["Accept"] : []),
+      ...hintVary,
+    ].join(", ");
+    requestedVary = vary;
+    requestedEncoding = {
+      format: outputFormat,
+      quality: userData.quality,
+      resize:
+        userData.width || userData.height
+          ? {
+              width: userData.width ?? undefined,
+              height: userData.height ?? undefined,
+              fit: userData.fit ?? sharp.fit.cover,
+              position: userData.position,
+              withoutEnlargement: !userData.enlarge,
+              background: userData.background,
+            }
+          : undefined,
+    };
+
+    // Remote sources behind `upstreamCache` are resolved here, before the
+    // deterministic ETag, so the ETag can name the origin bytes actually
+    // held rather than only the URL: a fresh entry costs no I/O, a stale
+    // one costs a conditional request, and an origin change yields a new
+    // ETag and derivative-cache key. Internal-host URLs are read from disk
+    // and keep their `mtime:size` identifier. Concurrent requests for the
+    // same source share one fetch; the key includes `type` because it
+    // selects the placeholder served when the fetch fails.
+    let upstream: UpstreamResult | undefined;
+    const upstreamCache = runtime.upstreamCache;
+    const remoteSrc =
+      userData.src?.startsWith("http://") ||
+      userData.src?.startsWith("https://")
+        ? userData.src
+        : undefined;
+    if (
+      upstreamCache &&
+      remoteSrc &&
+      resolveInternalLocalPath(
+        remoteSrc,
+        parsedOptions.websiteURL,
+        parsedOptions.apiRegex,
+        parsedOptions.apiPrefix,
+      ) === null
+    ) {
+      upstream = await coalesce(
+        runtime.upstreamInFlight,
+        `${userData.type}:${remoteSrc}`,
+        async () => {
+          let softFallback = false;
+          let failureStatus: PixelServeErrorStatus | undefined;
+          let version: string | undefined;
+          let lastModified: string | undefined;
+          const body = await fetchImage(
+            remoteSrc,
+            baseDir,
+            parsedOptions.websiteURL,
+            userData.type,
+            parsedOptions.apiRegex,
+            parsedOptions.allowedNetworkList,
+            {
+              timeoutMs: parsedOptions.requestTimeoutMs,
+              maxBytes: parsedOptions.maxDownloadBytes,
+              maxRedirects: parsedOptions.maxRedirects,
+              onError,
+              apiPrefix: parsedOptions.apiPrefix,
+              onFallback: (status) => {
+                softFallback = true;
+                failureStatus = status;
+              },
+              upstreamCache,
+              onVersion: (value, modified) => {
+                version = value;
+                lastModified = modified;
+              },
+            },
+          );
+          return { body, softFallback, version, lastModified, failureStatus };
+        },
+      ).promise;
+    }
 
     // ------------------------------------------------------------------
     // Deterministic ETag: built BEFORE any Sharp work so `If-None-Match`
@@ -791,112 +1558,566 @@ const serveImage = async (
     // mirror what `resolveBuffer` below passes to `fetchImage`/
     // `readLocalImage`, so the identifier this computes always matches the
     // branch that will actually serve the bytes.
-    const sourceIdentifier = await buildSourceIdentifier(
-      userData.src,
-      baseDir,
-      {
-        websiteURL: parsedOptions.websiteURL,
-        apiRegex: parsedOptions.apiRegex,
-        apiPrefix: parsedOptions.apiPrefix,
-        maxBytes: parsedOptions.maxDownloadBytes,
-      },
-    );
+    // With `upstreamCache`, a remote placeholder has no version and so no
+    // identifier: its ETag falls back to the buffer hash like any other
+    // soft fallback.
+    let sourceModifiedMs = upstream?.version
+      ? Date.parse(upstream.lastModified ?? "")
+      : undefined;
+    const sourceIdentifier =
+      upstream && !upstream.version
+        ? null
+        : await buildSourceIdentifier(userData.src, baseDir, {
+            websiteURL: parsedOptions.websiteURL,
+            apiRegex: parsedOptions.apiRegex,
+            apiPrefix: parsedOptions.apiPrefix,
+            maxBytes: parsedOptions.maxDownloadBytes,
+            upstreamVersion: upstream?.version,
+            onLastModified: (mtimeMs) => {
+              sourceModifiedMs = mtimeMs;
+            },
+          });
+
+    // A focal point only steers a cover crop into a fixed box, so anywhere
+    // else it is left out of the key rather than splitting identical output.
+    const focalApplies =
+      (userData.fit ?? sharp.fit.cover) === "cover" &&
+      Boolean(userData.width && userData.height);
+    // The deterministic key doubles as the derivative-cache key, so it is
+    // computed whenever a source identifier exists — even with `etag: false`,
+    // where it is simply never sent to the client.
+    const deterministicEtag = sourceIdentifier
+      ? buildDeterministicEtag(
+          {
+            src: userData.src,
+            width: userData.width,
+            height: userData.height,
+            format: outputFormat ?? "auto",
+            quality: userData.quality,
+            type: userData.type,
+            folder: userData.folder,
+            parsedUserId,
+            fit: userData.fit,
+            enlarge: userData.enlarge,
+            background: userData.background,
+            position: userData.position,
+            fx: focalApplies ? userData.fx : undefined,
+            fy: focalApplies ? userData.fy : undefined,
+            crop: userData.crop,
+          },
+          sourceIdentifier,
+        )
+      : undefined;
+    const cacheKey = deterministicEtag?.slice(1, -1);
 
+    const ifNoneMatch = headerValue(req.headers, "if-none-match");
     let etag: string | undefined;
-    if (parsedOptions.etag && sourceIdentifier) {
-      etag = buildDeterministicEtag(
-        {
-          src: userData.src,
-          width: userData.width,
-          height: userData.height,
-          format: outputFormat,
-          quality: userData.quality,
-          type: userData.type,
-          folder: userData.folder,
-          parsedUserId,
+    if (parsedOptions.etag && deterministicEtag) {
+      etag = deterministicEtag;
+    }
+    // Like the ETag, `Last-Modified` is only sent when the source is pinned
+    // by a deterministic key, and it is cleared again for a soft fallback.
+    // An unparseable origin date leaves `sourceModifiedMs` as NaN.
+    let lastModified: string | undefined;
+    if (
+      parsedOptions.lastModified &&
+      deterministicEtag &&
+      sourceModifiedMs !== undefined &&
+      !Number.isNaN(sourceModifiedMs)
+    ) {
+      lastModified = formatHttpDate(sourceModifiedMs);
+    }
+    // RFC 9110 §13.2.2: a present `If-None-Match` decides alone, so
+    // `If-Modified-Since` is only consulted without one, and only for GET
+    // and HEAD.
+    const unchanged =
+      ifNoneMatch !== undefined
+        ? etag !== undefined && ifNoneMatch === etag
+        : lastModified !== undefined &&
+          (req.method === "GET" || isHead) &&
+          isNotModifiedSince(
+            headerValue(req.headers, "if-modified-since"),
+            lastModified,
+          );
+    if (unchanged) {
+      // Short-circuit BEFORE Sharp is touched at all. RFC 9110 §15.4.5: a
+      // 304 SHOULD echo the validators its 200 counterpart would have
+      // sent. This branch only ever matches a genuine deterministic ETag
+      // or source date (a soft fallback always clears both, so a client
+      // can never hold one for a placeholder), so Cache-Control here is
+      // unconditionally the configured/default value.
+      const notModified: PixelServeResponse = {
+        status: 304,
+        headers: {
+          ...baseHeaders,
+          Vary: vary,
+          "Cache-Control": imageCacheControl,
+          ...(etag ? { ETag: etag } : {}),
+          ...(lastModified ? { "Last-Modified": lastModified } : {}),
         },
-        sourceIdentifier,
+        body: EMPTY_BODY,
+      };
+      safeOnComplete(onComplete, {
+        src: observedSrc,
+        userId: observedUserId,
+        // An undecided `format=auto` reports the format an earlier encode
+        // of this variant recorded, and none when no encode was seen.
+        format:
+          outputFormat ??
+          (cacheKey ? runtime.variants.get(cacheKey)?.format : undefined),
+        outputBytes: 0,
+        cached: true,
+        durationMs: elapsedMs(startedAt),
+        // No bytes are sent on a 304 — there is nothing to characterize as
+        // fallback-or-not for this response.
+        fallback: false,
+      });
+      return notModified;
+    }
+
+    // `body` is absent only for a HEAD answered without encoding, whose
+    // `Content-Length` is then whatever an earlier encode recorded.
+    const sendImage = (
+      body: Buffer | undefined,
+      format: ImageFormat,
+      softFallback: boolean,
+      extra: Pick<PixelServeCompletionContext, "cacheHit" | "coalesced"> = {},
+    ): PixelServeResponse => {
+      const { asciiFilename, encodedFilename } = buildFilename(
+        userData.src,
+        format,
       );
-      if (req.headers["if-none-match"] === etag) {
-        // Short-circuit BEFORE Sharp is touched at all. RFC 9110 §15.4.5: a
-        // 304 SHOULD echo the validators its 200 counterpart would have
-        // sent. This branch only ever matches a genuine deterministic ETag
-        // (a soft fallback always clears `etag`, so a client can never hold
-        // a deterministic ETag for a placeholder), so Cache-Control here is
-        // unconditionally the configured/default value.
-        res.setHeader("Vary", "Accept-Encoding");
-        res.setHeader(
-          "Cache-Control",
-          parsedOptions.cacheControl ?? DEFAULT_CACHE_CONTROL,
-        );
-        res.setHeader("ETag", etag);
-        res.status(304).end();
-        safeOnComplete(onComplete, {
-          src: observedSrc,
-          userId: observedUserId,
-          format: outputFormat,
-          outputBytes: 0,
-          cached: true,
-          durationMs: elapsedMs(startedAt),
-          // No bytes are sent on a 304 — there is nothing to characterize as
-          // fallback-or-not for this response.
-          fallback: false,
-        });
-        return;
+      const headers: Record<string, string> = {
+        ...baseHeaders,
+        "Content-Type": mimeTypes[format],
+        "Content-Disposition": `inline; filename="${asciiFilename}"; filename*=UTF-8''${encodedFilename}`,
+        Vary: vary,
+        "X-Content-Type-Options": "nosniff",
+        "Cache-Control": softFallback
+          ? fallbackCacheControl
+          : imageCacheControl,
+      };
+      if (etag) {
+        headers.ETag = etag;
       }
-    }
+      if (lastModified) {
+        headers["Last-Modified"] = lastModified;
+      }
+      // A placeholder is always sent whole, so only genuine images
+      // advertise ranges.
+      if (!softFallback) {
+        headers["Accept-Ranges"] = "bytes";
+      }
+      const length =
+        body?.length ??
+        (cacheKey ? runtime.variants.get(cacheKey)?.length : undefined);
+      if (length !== undefined) {
+        headers["Content-Length"] = length.toString();
+      }
+      // `If-Range` only lets the range through when it names this exact
+      // representation, by ETag or by an identical `Last-Modified` date;
+      // any other validator gets the full body instead.
+      const ifRange = headerValue(req.headers, "if-range");
+      const range =
+        body &&
+        !softFallback &&
+        req.method === "GET" &&
+        (ifRange === undefined ||
+          (etag !== undefined && ifRange === etag) ||
+          (lastModified !== undefined && ifRange === lastModified))
+          ? parseByteRange(headerValue(req.headers, "range"), body.length)
+          : undefined;
+      let response: PixelServeResponse = {
+        status: 200,
+        headers,
+        body: isHead || !body ? EMPTY_BODY : body,
+      };
+      if (range === "unsatisfiable") {
+        response = {
+          status: 416,
+          headers: {
+            ...baseHeaders,
+            "Accept-Ranges": "bytes",
+            "Content-Range": `bytes */${length}`,
+          },
+          body: EMPTY_BODY,
+        };
+      } else if (range) {
+        headers["Content-Range"] =
+          `bytes ${range.start}-${range.end}/${length}`;
+        headers["Content-Length"] = (range.end - range.start + 1).toString();
+        response = {
+          status: 206,
+          headers,
+          body: body!.subarray(range.start, range.end + 1),
+        };
+      }
+      safeOnComplete(onComplete, {
+        src: observedSrc,
+        userId: observedUserId,
+        format,
+        outputBytes: response.body.length,
+        cached: false,
+        durationMs: elapsedMs(startedAt),
+        fallback: softFallback,
+        ...extra,
+        ...(isHead ? { head: true } : {}),
+      });
+      return response;
+    };
 
-    // Set by `markSoftFallback` (threaded into `resolveBuffer` below) when
-    // the resolved buffer turned out to be a bundled placeholder rather than
-    // genuinely-resolved bytes (missing/invalid local file, blocked host,
-    // SSRF-reject, oversized file, transport failure, etc.) — a "soft"
-    // fallback that still flows through Sharp and gets re-encoded like any
-    // other image. Declared fresh on every `serveImage` invocation (never
-    // module- or factory-scoped) so concurrent requests cannot leak the mark
-    // between each other.
-    let servedSoftFallback = false;
-    const markSoftFallback = (): void => {
-      servedSoftFallback = true;
+    // Writes `entry` to every tier in `tiers`. A failing tier is reported
+    // and skipped — the response itself never depends on the cache.
+    const writeCacheTiers = async (
+      tiers: CacheTier[],
+      key: string,
+      entry: PixelServeCacheEntry,
+    ): Promise<void> => {
+      for (const tier of tiers) {
+        try {
+          await tier.store.set(key, entry, tier.ttlMs);
+        } catch (err) {
+          reportError(onError, err, {
+            phase: "cache",
+            src: observedSrc,
+            userId: observedUserId,
+          });
+        }
+      }
     };
 
-    const resolveBuffer = async (): Promise<Buffer> => {
-      if (!userData.src) {
-        // userData.type is always present (schema defaults to "normal").
-        markSoftFallback();
-        return FALLBACKIMAGES[userData.type]();
+    // Derivative cache lookups: a hit skips `resolveBuffer` and Sharp
+    // entirely. Only genuinely resolved images are ever written (see the
+    // write below), so a hit is never a placeholder. Tiers are tried
+    // cheapest first, and a hit is copied into the tiers in front of the
+    // one that answered so the next request stops earlier.
+    if (cacheKey) {
+      for (const [position, tier] of runtime.cacheTiers.entries()) {
+        let hit: PixelServeCacheEntry | undefined;
+        try {
+          hit = await tier.store.get(cacheKey);
+        } catch (err) {
+          reportError(onError, err, {
+            phase: "cache",
+            src: observedSrc,
+            userId: observedUserId,
+          });
+        }
+        if (hit) {
+          await writeCacheTiers(
+            runtime.cacheTiers.slice(0, position),
+            cacheKey,
+            hit,
+          );
+          rememberVariant(runtime.variants, cacheKey, {
+            format: hit.format,
+            length: hit.body.length,
+          });
+          return sendImage(hit.body, hit.format, false, {
+            cacheHit: tier.name,
+          });
+        }
       }
-      if (
-        userData.src.startsWith("http://") ||
-        userData.src.startsWith("https://")
-      ) {
-        return fetchImage(
+    }
+
+    // A HEAD request is answered without resolving the source or running
+    // Sharp only when an earlier encode under the same deterministic key
+    // proves its GET succeeds; the format and `Content-Length` are the ones
+    // that encode recorded. A remote `url:` source can start failing under
+    // an unchanged key, and a crop rectangle is only checked against the
+    // decoded source, so those — like every variant never encoded here —
+    // run the pipeline like a GET and drop the body, keeping the status
+    // and headers exactly those of the GET.
+    const encodedVariant = cacheKey
+      ? runtime.variants.get(cacheKey)
+      : undefined;
+    if (
+      isHead &&
+      encodedVariant &&
+      !sourceIdentifier?.startsWith("url:") &&
+      !userData.crop
+    ) {
+      return sendImage(undefined, encodedVariant.format, false);
+    }
+
+    // One resolve → Sharp run. Concurrent requests for the same cache key
+    // share a single invocation (see the coalescing block below), so
+    // everything request-specific — 304 handling, headers, `onComplete` —
+    // stays outside it; only the bytes and the soft-fallback mark come out.
+    const runPipeline = async (): Promise<PipelineResult> => {
+      // Set by `markSoftFallback` (threaded into `resolveBuffer` below) when
+      // the resolved buffer turned out to be a bundled placeholder rather than
+      // genuinely-resolved bytes (missing/invalid local file, blocked host,
+      // SSRF-reject, oversized file, transport failure, etc.) — a "soft"
+      // fallback that still flows through Sharp and gets re-encoded like any
+      // other image. Declared fresh on every pipeline run (never module- or
+      // factory-scoped) so concurrent runs cannot leak the mark between each
+      // other; coalesced requests receive it through `PipelineResult`.
+      let servedSoftFallback = false;
+      let failureStatus: PixelServeErrorStatus | undefined;
+      let fallbackPhase: PixelServeErrorPhase = "fs";
+      const markSoftFallback = (
+        status?: PixelServeErrorStatus,
+        phase?: PixelServeErrorPhase,
+      ): void => {
+        servedSoftFallback = true;
+        failureStatus = status;
+        if (phase) fallbackPhase = phase;
+      };
+
+      const resolveBuffer = async (): Promise<Buffer> => {
+        if (upstream) {
+          if (upstream.softFallback) {
+            markSoftFallback(upstream.failureStatus, "fetch");
+          }
+          return upstream.body;
+        }
+        if (!userData.src) {
+          // userData.type is always present (schema defaults to "normal").
+          markSoftFallback(400, "validation");
+          return FALLBACKIMAGES[userData.type]();
+        }
+        if (
+          userData.src.startsWith("http://") ||
+          userData.src.startsWith("https://")
+        ) {
+          return fetchImage(
+            userData.src,
+            baseDir,
+            parsedOptions.websiteURL,
+            userData.type,
+            parsedOptions.apiRegex,
+            parsedOptions.allowedNetworkList,
+            {
+              timeoutMs: parsedOptions.requestTimeoutMs,
+              maxBytes: parsedOptions.maxDownloadBytes,
+              maxRedirects: parsedOptions.maxRedirects,
+              onError,
+              apiPrefix: parsedOptions.apiPrefix,
+              onFallback: markSoftFallback,
+            },
+          );
+        }
+        return readLocalImage(
           userData.src,
           baseDir,
-          parsedOptions.websiteURL,
           userData.type,
-          parsedOptions.apiRegex,
-          parsedOptions.allowedNetworkList,
-          {
-            timeoutMs: parsedOptions.requestTimeoutMs,
-            maxBytes: parsedOptions.maxDownloadBytes,
-            maxRedirects: parsedOptions.maxRedirects,
-            onError,
-            apiPrefix: parsedOptions.apiPrefix,
-            onFallback: markSoftFallback,
-          },
+          parsedOptions.maxDownloadBytes,
+          onError,
+          markSoftFallback,
         );
+      };
+
+      let imageBuffer = await resolveBuffer();
+
+      // There is no placeholder to encode when the failure is answered
+      // with its status instead.
+      if (parsedOptions.errorMode === "status" && servedSoftFallback) {
+        return {
+          body: EMPTY_BODY,
+          format: outputFormat ?? "jpeg",
+          softFallback: true,
+          failureStatus: failureStatus ?? 500,
+        };
       }
-      return readLocalImage(
-        userData.src,
-        baseDir,
-        userData.type,
-        parsedOptions.maxDownloadBytes,
-        onError,
-        markSoftFallback,
-      );
+
+      // A custom fallback image, or else a generated placeholder drawn at
+      // the requested size, replaces the bundled placeholder and then flows
+      // through Sharp exactly as the bundled one would.
+      if (servedSoftFallback) {
+        imageBuffer =
+          (await loadFallbackImage(
+            req,
+            parsedOptions,
+            userData.type,
+            fallbackPhase,
+            { src: observedSrc, userId: observedUserId },
+          )) ??
+          (parsedOptions.placeholders
+            ? await renderPlaceholder(parsedOptions.placeholders, {
+                type: userData.type,
+                width: userData.width ?? undefined,
+                height: userData.height ?? undefined,
+                userId: observedUserId,
+              })
+            : imageBuffer);
+      }
+
+      if (!parsedOptions.allowSvgInput && looksLikeSvg(imageBuffer)) {
+        const err = new Error("svg input rejected");
+        reportError(onError, err, {
+          phase: "sharp",
+          src: observedSrc,
+          userId: observedUserId,
+        });
+        throw withStatus(415, err, "sharp");
+      }
+
+      let processedImage: Buffer;
+      let format: ImageFormat;
+      // A crop rectangle can only be checked against the decoded
+      // dimensions, so that request error surfaces here rather than in
+      // `renderUserData`.
+      let failurePhase: "sharp" | "validation" = "sharp";
+      let sharpFailureStatus: PixelServeErrorStatus = 500;
+      try {
+        let image = sharp(imageBuffer, {
+          failOn: "warning",
+          limitInputPixels: parsedOptions.maxInputPixels,
+          sequentialRead: true,
+          unlimited: false,
+        });
+
+        // Peek metadata first to avoid the expensive decode for hostile inputs.
+        const meta = await image.metadata();
+        if (meta.width && meta.height) {
+          if (meta.width * meta.height > parsedOptions.maxInputPixels) {
+            sharpFailureStatus = 413;
+            throw new Error("input exceeds maxInputPixels");
+          }
+        }
+        if (!parsedOptions.allowSvgInput && meta.format === "svg") {
+          sharpFailureStatus = 415;
+          throw new Error("svg input rejected");
+        }
+        format = outputFormat ?? (meta.hasAlpha ? "png" : "jpeg");
+
+        // Re-instantiate Sharp because metadata() consumed the stream state.
+        image = sharp(imageBuffer, {
+          failOn: "warning",
+          limitInputPixels: parsedOptions.maxInputPixels,
+          sequentialRead: true,
+          unlimited: false,
+        }).rotate();
+
+        // EXIF orientations 5–8 are quarter turns, so `.rotate()` swaps the
+        // dimensions that crop rectangles and focal fractions refer to.
+        const quarterTurn = (meta.orientation ?? 1) >= 5;
+        let source =
+          meta.width && meta.height
+            ? {
+                width: quarterTurn ? meta.height : meta.width,
+                height: quarterTurn ? meta.width : meta.height,
+              }
+            : undefined;
+
+        // The crop rectangle and focal point describe the missing source,
+        // not a fallback image standing in for it, which is only resized
+        // and encoded.
+        if (userData.crop && !servedSoftFallback) {
+          const region = source && resolveCropRegion(userData.crop, source);
+          if (!region) {
+            failurePhase = "validation";
+            sharpFailureStatus = 400;
+            throw new Error(
+              source
+                ? `crop rectangle exceeds the ${source.width}x${source.height} source`
+                : "crop requires known source dimensions",
+            );
+          }
+          // Called before `resize`, so Sharp extracts from the rotated
+          // source rather than from the resized output.
+          image = image.extract(region);
+          source = { width: region.width, height: region.height };
+        }
+
+        const fit = userData.fit ?? sharp.fit.cover;
+        const hasFocalPoint =
+          userData.fx !== undefined || userData.fy !== undefined;
+        if (
+          hasFocalPoint &&
+          !servedSoftFallback &&
+          fit === "cover" &&
+          userData.width &&
+          userData.height &&
+          source
+        ) {
+          const plan = planFocalCrop(
+            source,
+            { width: userData.width, height: userData.height },
+            { x: userData.fx ?? 0.5, y: userData.fy ?? 0.5 },
+            userData.enlarge === true,
+          );
+          image = image
+            .resize({ width: plan.width, height: plan.height, fit: "fill" })
+            .extract(plan.extract);
+        } else if (userData.width || userData.height) {
+          const resizeOptions: ResizeOptions = {
+            width: userData.width ?? undefined,
+            height: userData.height ?? undefined,
+            fit,
+            position: userData.position,
+            withoutEnlargement: !userData.enlarge,
+            background: userData.background,
+          };
+          image = image.resize(resizeOptions);
+        }
+
+        processedImage = await image
+          .toFormat(format as keyof FormatEnum, {
+            quality: userData.quality,
+          })
+          .toBuffer();
+      } catch (err) {
+        reportError(onError, err, {
+          phase: failurePhase,
+          src: observedSrc,
+          userId: observedUserId,
+        });
+        // Sharp enforces `limitInputPixels` itself whenever it reads the
+        // header before the explicit check above can.
+        throw withStatus(
+          err instanceof Error && err.message.includes("exceeds pixel limit")
+            ? 413
+            : sharpFailureStatus,
+          err,
+          failurePhase,
+        );
+      }
+
+      // Persist before sending so a follow-up request is guaranteed to see
+      // the entry.
+      if (cacheKey && !servedSoftFallback) {
+        await writeCacheTiers(runtime.cacheTiers, cacheKey, {
+          body: processedImage,
+          format,
+        });
+        rememberVariant(runtime.variants, cacheKey, {
+          format,
+          length: processedImage.length,
+        });
+      }
+
+      return { body: processedImage, format, softFallback: servedSoftFallback };
     };
 
-    const imageBuffer = await resolveBuffer();
+    // Request coalescing: while a pipeline for this cache key is in flight,
+    // identical requests await it instead of starting their own fetch and
+    // Sharp run. The entry is removed as soon as the run settles, so a
+    // later request consults the derivative cache (or starts afresh) rather
+    // than reusing a stale result. A rejection reaches every waiter, and
+    // each one serves its own hard fallback below. Sources without a
+    // deterministic key are never coalesced — nothing proves two such
+    // requests would produce the same bytes — and neither is any request
+    // while a `fallbackImages` resolver may pick each one its own fallback.
+    const { promise: pipeline, joined: coalesced } =
+      cacheKey && typeof parsedOptions.fallbackImages !== "function"
+        ? coalesce(runtime.inFlight, cacheKey, runPipeline)
+        : { promise: runPipeline(), joined: false };
+    const {
+      body: processedImage,
+      format: processedFormat,
+      softFallback: servedSoftFallback,
+      failureStatus,
+    } = await pipeline;
+    if (failureStatus) {
+      return buildProblemResponse(
+        failureStatus,
+        baseHeaders,
+        fallbackCacheControl,
+        isHead,
+      );
+    }
 
     // A soft fallback served a bundled placeholder, not the requested bytes.
     // Do not let it inherit the real-image cache profile: discard any
@@ -910,68 +2131,7 @@ const serveImage = async (
     // 304-locked onto the placeholder.
     if (servedSoftFallback) {
       etag = undefined;
-    }
-
-    if (!parsedOptions.allowSvgInput && looksLikeSvg(imageBuffer)) {
-      const err = new Error("svg input rejected");
-      reportError(onError, err, {
-        phase: "sharp",
-        src: observedSrc,
-        userId: observedUserId,
-      });
-      throw err;
-    }
-
-    let processedImage: Buffer;
-    try {
-      let image = sharp(imageBuffer, {
-        failOn: "warning",
-        limitInputPixels: parsedOptions.maxInputPixels,
-        sequentialRead: true,
-        unlimited: false,
-      });
-
-      // Peek metadata first to avoid the expensive decode for hostile inputs.
-      const meta = await image.metadata();
-      if (meta.width && meta.height) {
-        if (meta.width * meta.height > parsedOptions.maxInputPixels) {
-          throw new Error("input exceeds maxInputPixels");
-        }
-      }
-      if (!parsedOptions.allowSvgInput && meta.format === "svg") {
-        throw new Error("svg input rejected");
-      }
-
-      // Re-instantiate Sharp because metadata() consumed the stream state.
-      image = sharp(imageBuffer, {
-        failOn: "warning",
-        limitInputPixels: parsedOptions.maxInputPixels,
-        sequentialRead: true,
-        unlimited: false,
-      }).rotate();
-
-      if (userData.width || userData.height) {
-        const resizeOptions: ResizeOptions = {
-          width: userData.width ?? undefined,
-          height: userData.height ?? undefined,
-          fit: sharp.fit.cover,
-          withoutEnlargement: true,
-        };
-        image = image.resize(resizeOptions);
-      }
-
-      processedImage = await image
-        .toFormat(outputFormat as keyof FormatEnum, {
-          quality: userData.quality,
-        })
-        .toBuffer();
-    } catch (err) {
-      reportError(onError, err, {
-        phase: "sharp",
-        src: observedSrc,
-        userId: observedUserId,
-      });
-      throw err;
+      lastModified = undefined;
     }
 
     // Fallback ETag: if no deterministic source identifier was available, OR
@@ -982,26 +2142,29 @@ const serveImage = async (
     // response on the placeholder bytes actually sent.
     if (parsedOptions.etag && !etag) {
       etag = `"${createHash("sha256").update(processedImage).digest("hex")}"`;
-      if (req.headers["if-none-match"] === etag) {
+      if (ifNoneMatch === etag) {
         // RFC 9110 §15.4.5: echo the same validators the 200 would have
         // sent. Unlike the pre-Sharp 304 above, `servedSoftFallback` is
         // already known here, so Cache-Control must track it too — otherwise
         // a recurring placeholder (e.g. a still-missing local file) would get
         // re-validated under the long-lived real-image policy instead of the
         // short fallback one it was originally served with.
-        res.setHeader("Vary", "Accept-Encoding");
-        res.setHeader(
-          "Cache-Control",
-          servedSoftFallback
-            ? FALLBACK_CACHE_CONTROL
-            : (parsedOptions.cacheControl ?? DEFAULT_CACHE_CONTROL),
-        );
-        res.setHeader("ETag", etag);
-        res.status(304).end();
+        const notModified: PixelServeResponse = {
+          status: 304,
+          headers: {
+            ...baseHeaders,
+            Vary: vary,
+            "Cache-Control": servedSoftFallback
+              ? fallbackCacheControl
+              : imageCacheControl,
+            ETag: etag,
+          },
+          body: EMPTY_BODY,
+        };
         safeOnComplete(onComplete, {
           src: observedSrc,
           userId: observedUserId,
-          format: outputFormat,
+          format: processedFormat,
           outputBytes: 0,
           cached: true,
           durationMs: elapsedMs(startedAt),
@@ -1010,78 +2173,84 @@ const serveImage = async (
           // (hashed above) happened to be a soft-fallback placeholder.
           fallback: false,
         });
-        return;
+        return notModified;
       }
     }
 
-    const { asciiFilename, encodedFilename } = buildFilename(
-      userData.src,
-      outputFormat,
-    );
-
-    res.type(mimeTypes[outputFormat]);
-    res.setHeader(
-      "Content-Disposition",
-      `inline; filename="${asciiFilename}"; filename*=UTF-8''${encodedFilename}`,
-    );
-    res.setHeader("Vary", "Accept-Encoding");
-    res.setHeader("X-Content-Type-Options", "nosniff");
-    res.setHeader(
-      "Cache-Control",
-      servedSoftFallback
-        ? FALLBACK_CACHE_CONTROL
-        : (parsedOptions.cacheControl ?? DEFAULT_CACHE_CONTROL),
-    );
-    if (etag) {
-      res.setHeader("ETag", etag);
-    }
-    res.setHeader("Content-Length", processedImage.length.toString());
-    res.send(processedImage);
-    safeOnComplete(onComplete, {
-      src: observedSrc,
-      userId: observedUserId,
-      format: outputFormat,
-      outputBytes: processedImage.length,
-      cached: false,
-      durationMs: elapsedMs(startedAt),
-      fallback: servedSoftFallback,
+    return sendImage(processedImage, processedFormat, servedSoftFallback, {
+      coalesced: coalesced || undefined,
     });
-  } catch {
-    // If the success path already started flushing the response (e.g., a
-    // future streaming refactor calls `res.write` before `res.send`), we
-    // cannot recover into a fresh fallback without tripping
-    // ERR_HTTP_HEADERS_SENT. Surface to the Express error handler instead so
-    // the connection is torn down cleanly. Today the happy path only flushes
-    // via `res.send` at the very end, so this guard is defence-in-depth.
-    if (res.headersSent) {
-      const flushedError = new Error("response already flushed");
-      reportError(onError, flushedError, {
-        phase: "fs",
-        src: observedSrc,
-        userId: observedUserId,
-      });
-      next(flushedError);
-      return;
+  } catch (err) {
+    if (parsedOptions.errorMode === "status") {
+      return buildProblemResponse(
+        (err as Partial<StatusError>).status ?? 500,
+        baseHeaders,
+        failureCacheControl,
+        isHead,
+      );
     }
     try {
       const fallbackType = requestedType === "avatar" ? "avatar" : "normal";
-      const fallback = await FALLBACKIMAGES[fallbackType]();
       // The bundled fallback assets are pre-encoded and sent here VERBATIM
       // (this error path deliberately skips Sharp re-encoding), so the
       // response Content-Type and filename extension must match the asset
       // actually served: the avatar fallback (`noavatar.png`) is a PNG while
       // the normal fallback (`noimage.jpg`) is a JPEG. Hardcoding JPEG here
       // mislabels the PNG avatar bytes as `image/jpeg`.
-      const fallbackFormat = fallbackType === "avatar" ? "png" : "jpeg";
-      res.type(mimeTypes[fallbackFormat]);
-      res.setHeader(
-        "Content-Disposition",
-        `inline; filename="fallback.${fallbackFormat}"`,
+      const bundledFormat = fallbackType === "avatar" ? "png" : "jpeg";
+      let fallbackFormat: ImageFormat = bundledFormat;
+      let fallbackVary = "Accept-Encoding";
+      let fallback: Buffer | undefined;
+      // A custom fallback image, or else a generated placeholder, is
+      // encoded like the requested image. Every throw site tags its error
+      // with its phase; an untagged one can only be a failed read of the
+      // bundled placeholder.
+      const custom = await loadFallbackImage(
+        req,
+        parsedOptions,
+        fallbackType,
+        (err as Partial<StatusError>).phase ?? "fs",
+        { src: observedSrc, userId: observedUserId },
       );
-      res.setHeader("Vary", "Accept-Encoding");
-      res.setHeader("X-Content-Type-Options", "nosniff");
-      res.setHeader("Cache-Control", FALLBACK_CACHE_CONTROL);
-      res.send(fallback);
+      const placeholders = parsedOptions.placeholders;
+      if (custom || placeholders) {
+        try {
+          fallbackFormat = requestedEncoding.format ?? bundledFormat;
+          fallback = await encodeFallbackImage(
+            custom ??
+              (await renderPlaceholder(placeholders!, {
+                type: fallbackType,
+                width: requestedEncoding.resize?.width,
+                height: requestedEncoding.resize?.height,
+                userId: observedUserId,
+              })),
+            { ...requestedEncoding, format: fallbackFormat },
+            parsedOptions.maxInputPixels,
+          );
+          fallbackVary = requestedVary;
+        } catch (encodeError) {
+          reportError(onError, encodeError, {
+            phase: "fallback",
+            src: observedSrc,
+            userId: observedUserId,
+          });
+          fallbackFormat = bundledFormat;
+        }
+      }
+      fallback ??= await FALLBACKIMAGES[fallbackType]();
+      const response: PixelServeResponse = {
+        status: 200,
+        headers: {
+          ...baseHeaders,
+          "Content-Type": mimeTypes[fallbackFormat],
+          "Content-Disposition": `inline; filename="fallback.${fallbackFormat}"`,
+          Vary: fallbackVary,
+          "X-Content-Type-Options": "nosniff",
+          "Cache-Control": failureCacheControl,
+          "Content-Length": fallback.length.toString(),
+        },
+        body: isHead ? EMPTY_BODY : fallback,
+      };
       // The hard-fallback path now fires onComplete too (fallback:true) so
       // every response that resolves to a 200 fires the hook exactly once —
       // previously this catch branch left onComplete silent entirely,
@@ -1092,27 +2261,32 @@ const serveImage = async (
         src: observedSrc,
         userId: observedUserId,
         format: fallbackFormat,
-        outputBytes: fallback.length,
+        outputBytes: isHead ? 0 : fallback.length,
         cached: false,
         durationMs: elapsedMs(startedAt),
         fallback: true,
+        ...(isHead ? { head: true } : {}),
       });
+      return response;
     } catch (fallbackError) {
       reportError(onError, fallbackError, {
         phase: "fs",
         src: observedSrc,
         userId: observedUserId,
       });
-      next(fallbackError);
+      throw fallbackError;
     }
   }
 };
 
 /**
- * @function registerServe
- * @description A function to register the serveImage function as middleware for Express.
+ * @function createServeCore
+ * @description Builds the framework-agnostic request handler every adapter
+ *   — `registerServe` for Express, `pixelServeFastify`, and any custom
+ *   one — runs on: a normalized `PixelServeRequest` in, the status, headers
+ *   and body to send out.
  * @param {PixelServeOptions} options - The options object for image processing.
- * @returns {function(Request, Response, NextFunction): Promise<void>} The middleware function.
+ * @returns {PixelServeHandler} The core request handler.
  *
  * The factory eagerly validates `options` via `optionsSchema.parse` exactly
  * **once** at registration time (Task 4) so the request hot path does not
@@ -1131,9 +2305,9 @@ const serveImage = async (
  * lexical `path.resolve` so the containment check still works for lazily-
  * created trees.
  */
-const registerServe = (
-  options: PixelServeOptions,
-): ((req: Request, res: Response, next: NextFunction) => Promise<void>) => {
+export const createServeCore = <TRequest = unknown>(
+  options: PixelServeOptions<TRequest>,
+): PixelServeHandler<TRequest> => {
   // Validate options exactly once at factory time. On failure, fire the
   // eagerly-captured onError hook with `phase: "schema"` so operators that
   // wired up observability still see the misconfiguration, then re-throw so
@@ -1168,18 +2342,101 @@ const registerServe = (
     return pendingResolution;
   };
 
+  const cacheTiers: CacheTier[] = [];
+  if (parsedOptions.memoryCache) {
+    cacheTiers.push({
+      name: "memory",
+      store: createMemoryCacheStore(parsedOptions.memoryCache),
+    });
+  }
+  if (parsedOptions.diskCache) {
+    cacheTiers.push({
+      name: "disk",
+      store: createFileSystemCacheStore(parsedOptions.diskCache),
+    });
+  }
+  if (parsedOptions.cacheStore) {
+    cacheTiers.push({
+      name: "store",
+      store: parsedOptions.cacheStore,
+      ttlMs: parsedOptions.cacheStoreTtlMs,
+    });
+  }
+  const runtime: ServeRuntime = {
+    cacheTiers,
+    inFlight: new Map(),
+    upstreamCache: parsedOptions.upstreamCache
+      ? createUpstreamCache(parsedOptions.upstreamCache)
+      : undefined,
+    upstreamInFlight: new Map(),
+    variants: new Map(),
+  };
+
   return async (
-    req: Request,
-    res: Response,
-    next: NextFunction,
-  ): Promise<void> => {
+    request: PixelServeRequest<TRequest>,
+  ): Promise<PixelServeResponse> => {
     let rootForRequest: string | undefined;
     if (parsedOptions.getUserFolderRootDir) {
       rootForRequest = await ensureCachedRealRoot(
         parsedOptions.getUserFolderRootDir,
       );
     }
-    return serveImage(req, res, next, parsedOptions, rootForRequest);
+    return serveImage(request, parsedOptions, rootForRequest, runtime);
+  };
+};
+
+/**
+ * @function registerServe
+ * @description A function to register the serveImage function as middleware for Express.
+ * @param {PixelServeOptions} options - The options object for image processing.
+ * @returns {function(Request, Response, NextFunction): Promise<void>} The middleware function.
+ *
+ * A thin adapter over `createServeCore`, so options are validated (and a
+ * misconfiguration thrown) when it is called, not on the first request.
+ * `req.path` is relative to the mount point, which is what
+ * `urlScheme: "path"` parses. The response is written with `res.send`,
+ * so Express's own freshness check and `etag` setting apply as before.
+ */
+const registerServe = (
+  options: PixelServeOptions,
+): ((req: Request, res: Response, next: NextFunction) => Promise<void>) => {
+  const handle = createServeCore(options);
+  const onError = options.onError;
+
+  return async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    let response: PixelServeResponse;
+    try {
+      response = await handle({
+        method: req.method,
+        path: req.path,
+        query: req.query,
+        headers: req.headers,
+        raw: req,
+      });
+    } catch (err) {
+      next(err);
+      return;
+    }
+    // Another middleware may already have started this response; writing
+    // our headers now would throw ERR_HTTP_HEADERS_SENT, so hand the
+    // request to Express's error handling to tear the connection down.
+    if (res.headersSent) {
+      const flushedError = new Error("response already flushed");
+      reportError(onError, flushedError, { phase: "fs" });
+      next(flushedError);
+      return;
+    }
+    res.status(response.status).set(response.headers);
+    // `res.send` would overwrite `Content-Length` with the empty body's.
+    if (response.status === 304 || req.method === "HEAD") {
+      res.end();
+    } else {
+      res.send(response.body);
+    }
   };
 };
 
@@ -0,0 +1,125 @@
+import sharp from "sharp";
+import { describe, expect, it } from "vitest";
+import {
+  initialsFor,
+  placeholderLabel,
+  placeholderSize,
+  renderPlaceholder,
+} from "./placeholders";
+
+describe("initialsFor", () => {
+  it("takes the first and last words' first characters", () => {
+    expect(initialsFor("jane.doe")).toBe("JD");
+    expect(initialsFor("Mary Ann_van-Dyke")).toBe("MD");
+    expect(initialsFor("élodie-ŝmith")).toBe("ÉŜ");
+  });
+
+  it("takes the first two characters of a single word", () => {
+    expect(initialsFor("u42")).toBe("U4");
+    expect(initialsFor("x")).toBe("X");
+    expect(initialsFor("--..--")).toBe("");
+  });
+});
+
+describe("placeholderSize", () => {
+  it("keeps both requested dimensions", () => {
+    expect(placeholderSize({ type: "normal", width: 30, height: 90 })).toEqual({
+      width: 30,
+      height: 90,
+    });
+  });
+
+  it("derives a missing dimension from the type's aspect ratio", () => {
+    expect(placeholderSize({ type: "normal", width: 200 })).toEqual({
+      width: 200,
+      height: 150,
+    });
+    expect(placeholderSize({ type: "normal", height: 150 })).toEqual({
+      width: 200,
+      height: 150,
+    });
+    expect(placeholderSize({ type: "avatar", height: 48 })).toEqual({
+      width: 48,
+      height: 48,
+    });
+  });
+
+  it("falls back to the type's default size", () => {
+    expect(placeholderSize({ type: "normal" })).toEqual({
+      width: 640,
+      height: 480,
+    });
+    expect(placeholderSize({ type: "avatar" })).toEqual({
+      width: 256,
+      height: 256,
+    });
+  });
+});
+
+describe("placeholderLabel", () => {
+  const size = { width: 64, height: 48 };
+
+  it("shows initials on avatars and dimensions otherwise under auto", () => {
+    expect(
+      placeholderLabel("auto", { type: "avatar", userId: "jane.doe" }, size),
+    ).toBe("JD");
+    expect(
+      placeholderLabel("auto", { type: "normal", userId: "jane.doe" }, size),
+    ).toBe("64×48");
+    expect(placeholderLabel("auto", { type: "avatar" }, size)).toBe("64×48");
+  });
+
+  it("follows an explicit choice", () => {
+    const target = { type: "avatar" as const, userId: "jane.doe" };
+    expect(placeholderLabel("dimensions", target, size)).toBe("64×48");
+    expect(placeholderLabel("initials", { type: "normal" }, size)).toBe("");
+    expect(placeholderLabel(false, target, size)).toBe("");
+  });
+});
+
+describe("renderPlaceholder", () => {
+  it("renders a PNG of the background color at the placeholder size", async () => {
+    const image = await renderPlaceholder(
+      { background: "#00ff00", color: "#000000", label: "auto" },
+      { type: "avatar", width: 96, userId: "<&>'\"" },
+    );
+
+    const meta = await sharp(image).metadata();
+    expect([meta.format, meta.width, meta.height]).toEqual(["png", 96, 96]);
+    const { dominant } = await sharp(image).stats();
+    expect(dominant.g).toBeGreaterThan(200);
+    expect(dominant.r).toBeLessThan(50);
+  });
+
+  it("draws only the letters of a markup-like userId", async () => {
+    const settings = {
+      background: "#ffffff",
+      color: "#000000",
+      label: "initials",
+    } as const;
+    const pixels = async (userId: string): Promise<Buffer> =>
+      sharp(
+        await renderPlaceholder(settings, {
+          type: "avatar",
+          width: 96,
+          userId,
+        }),
+      )
+        .raw()
+        .toBuffer();
+
+    const markup = await pixels("<b>&");
+    expect(markup.equals(await pixels("b"))).toBe(true);
+    expect(markup.equals(await pixels(""))).toBe(false);
+  });
+
+  it("leaves out a label too small to read", async () => {
+    const image = await renderPlaceholder(
+      { background: "#0000ff", color: "#ffffff", label: "dimensions" },
+      { type: "normal", width: 8, height: 8 },
+    );
+
+    const { channels } = await sharp(image).stats();
+    expect(channels[0]!.max).toBeLessThan(50);
+  });
+});
@@ -0,0 +1,126 @@
+import sharp from "sharp";
+import type { ImageType, PixelServePlaceholderLabel } from "./types";
+
+/** Placeholder settings after schema defaults are applied. */
+export type PlaceholderSettings = {
+  background: string;
+  color: string;
+  label: PixelServePlaceholderLabel;
+};
+
+/** What is known of the failed request a placeholder stands in for. */
+export type PlaceholderTarget = {
+  type: ImageType;
+  width?: number;
+  height?: number;
+  userId?: string;
+};
+
+/**
+ * Size of a placeholder when the request named neither dimension: the
+ * typical slot of each image type. With one dimension given, the other
+ * follows the same aspect ratio (4:3 for images, square for avatars).
+ */
+const DEFAULT_PLACEHOLDER_SIZE: Record<
+  ImageType,
+  { width: number; height: number }
+> = {
+  normal: { width: 640, height: 480 },
+  avatar: { width: 256, height: 256 },
+};
+
+/**
+ * Up to two upper-case initials for `userId`: the first letter or digit of
+ * its first and last words, or the first two of a single word, so
+ * `jane.doe` becomes `JD` and `u42` becomes `U4`. Empty when `userId` has
+ * no letters or digits.
+ */
+export const initialsFor = (userId: string): string => {
+  const words = userId.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  if (words.length === 0) return "";
+  const first = Array.from(words[0]!);
+  const initials =
+    words.length === 1
+      ? first.slice(0, 2)
+      : [first[0]!, Array.from(words[words.length - 1]!)[0]!];
+  return initials.join("").toUpperCase();
+};
+
+/**
+ * The placeholder's pixel size: the requested dimensions, the missing one
+ * derived from the type's aspect ratio, or the type's default size.
+ */
+export const placeholderSize = (
+  target: PlaceholderTarget,
+): { width: number; height: number } => {
+  const size = DEFAULT_PLACEHOLDER_SIZE[target.type];
+  const { width, height } = target;
+  if (width && height) return { width, height };
+  if (width) {
+    return {
+      width,
+      height: Math.max(1, Math.round((width * size.height) / size.width)),
+    };
+  }
+  if (height) {
+    return {
+      width: Math.max(1, Math.round((height * size.width) / size.height)),
+      height,
+    };
+  }
+  return size;
+};
+
+/**
+ * The text drawn on a placeholder. `"auto"` shows an avatar's initials,
+ * and the dimensions for images and for avatars whose `userId` is unknown.
+ */
+export const placeholderLabel = (
+  label: PixelServePlaceholderLabel,
+  target: PlaceholderTarget,
+  size: { width: number; height: number },
+): string => {
+  if (label === false) return "";
+  const initials =
+    label !== "dimensions" && target.userId ? initialsFor(target.userId) : "";
+  if (label === "initials") return initials;
+  if (label === "auto" && target.type === "avatar" && initials) {
+    return initials;
+  }
+  return `${size.width}×${size.height}`;
+};
+
+/**
+ * @function renderPlaceholder
+ * @description Draws a flat placeholder for a failed request: the settings'
+ *   background color with the label centred on it, at the requested size.
+ * @param {PlaceholderSettings} settings - Colors and label choice.
+ * @param {PlaceholderTarget} target - The type, size and user requested.
+ * @returns {Promise<Buffer>} A lossless PNG, re-encoded by the caller into
+ *   the requested format.
+ *
+ * The drawing is an SVG built here from hex colors and a label of letters,
+ * digits and `×` only — nothing in it needs escaping — and rasterized by
+ * Sharp, so it is not subject to `allowSvgInput`. The label is scaled to
+ * the shorter side — larger for the two letters of initials — and left out
+ * when it could not fit legibly.
+ */
+export const renderPlaceholder = async (
+  settings: PlaceholderSettings,
+  target: PlaceholderTarget,
+): Promise<Buffer> => {
+  const { width, height } = placeholderSize(target);
+  const label = placeholderLabel(settings.label, target, { width, height });
+  const fontSize = Math.floor(
+    Math.min(
+      Math.min(width, height) * (label.length <= 2 ? 0.4 : 0.15),
+      (width * 0.9) / Math.max(label.length * 0.6, 1),
+    ),
+  );
+  const text =
+    label && fontSize >= 8
+      ? `<text x="50%" y="50%" fill="${settings.color}" font-family="sans-serif" font-size="${fontSize}" text-anchor="middle" dominant-baseline="central">${label}</text>`
+      : "";
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><rect width="100%" height="100%" fill="${settings.background}"/>${text}</svg>`;
+  return sharp(Buffer.from(svg)).png().toBuffer();
+};
@@ -238,6 +238,45 @@ describe("renderUserData", () => {
     expect(result.format).toBe("jpeg");
   });
 
+  it("rejects a fit outside bounds.allowedFits", () => {
+    const bounds = { ...defaultBounds, allowedFits: ["cover" as const] };
+    expect(() => renderUserData({ fit: "fill" }, bounds)).toThrow(
+      /not in allowedFits/,
+    );
+    expect(renderUserData({ fit: "cover" }, bounds).fit).toBe("cover");
+    expect(renderUserData({ fit: "fill" }, defaultBounds).fit).toBe("fill");
+  });
+
+  it("folds the gravity alias into position, position winning", () => {
+    const aliased = renderUserData({ gravity: "north" }, defaultBounds);
+    expect(aliased.position).toBe("north");
+    expect("gravity" in aliased).toBe(false);
+    expect(
+      renderUserData({ gravity: "north", position: "south" }, defaultBounds)
+        .position,
+    ).toBe("south");
+  });
+
+  it("multiplies width and height by dpr before clamping", () => {
+    const result = renderUserData(
+      { width: 150, height: "101", dpr: "1.5" },
+      defaultBounds,
+    );
+    expect(result).toMatchObject({ width: 225, height: 152, dpr: 1.5 });
+    expect(renderUserData({ width: 3000, dpr: 2 }, defaultBounds).width).toBe(
+      4000,
+    );
+    expect(renderUserData({ width: 100 }, defaultBounds).dpr).toBeUndefined();
+  });
+
+  it("caps dpr to bounds.maxDpr", () => {
+    const result = renderUserData(
+      { width: 100, dpr: 4 },
+      { ...defaultBounds, maxDpr: 2 },
+    );
+    expect(result).toMatchObject({ width: 200, dpr: 2 });
+  });
+
   describe("quality propagation outside defaultQuality (Task 14)", () => {
     it("rejects quality above the schema max (101+) before clamping ever runs", () => {
       // The schema enforces `min(1).max(100)` at validation time, so a
@@ -305,3 +344,54 @@ describe("renderUserData", () => {
     });
   });
 });
+
+describe("renderUserData presets", () => {
+  const bounds = {
+    minWidth: 50,
+    maxWidth: 1000,
+    minHeight: 50,
+    maxHeight: 4000,
+    defaultQuality: 80,
+    presets: {
+      thumb: { width: 320, height: 320, format: "webp" as const, quality: 70 },
+      hero: { width: "800", dpr: 2 },
+    },
+  };
+
+  it("expands the named preset before validation and clamping", () => {
+    expect(
+      renderUserData({ src: "a.jpg", preset: "thumb" }, bounds),
+    ).toMatchObject({ width: 320, height: 320, format: "webp", quality: 70 });
+    // 800 x dpr 2 = 1600, clamped to maxWidth.
+    expect(renderUserData({ preset: "hero" }, bounds).width).toBe(1000);
+  });
+
+  it("lets explicit query parameters override the preset", () => {
+    expect(
+      renderUserData({ preset: "thumb", quality: "40" }, bounds),
+    ).toMatchObject({ width: 320, quality: 40 });
+  });
+
+  it("rejects unknown presets, including inherited property names", () => {
+    expect(() => renderUserData({ preset: "banner" }, bounds)).toThrow(
+      'unknown preset "banner"',
+    );
+    expect(() => renderUserData({ preset: "toString" }, bounds)).toThrow(
+      /unknown preset/,
+    );
+    expect(() =>
+      renderUserData({ preset: "thumb" }, { ...bounds, presets: undefined }),
+    ).toThrow(/unknown preset/);
+  });
+
+  it("requires a preset and forbids overrides in presetsOnly mode", () => {
+    const locked = { ...bounds, presetsOnly: true };
+    expect(renderUserData({ preset: "thumb" }, locked).width).toBe(320);
+    expect(() => renderUserData({ src: "a.jpg" }, locked)).toThrow(
+      "a preset is required",
+    );
+    expect(() =>
+      renderUserData({ preset: "thumb", width: 2000, dpr: 2 }, locked),
+    ).toThrow("width, dpr cannot be set when presetsOnly is enabled");
+  });
+});
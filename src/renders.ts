@@ -1,6 +1,12 @@
 import { optionsSchema, userDataSchema } from "./schema";
 import type { ParsedOptions, ParsedUserData } from "./schema";
-import type { ImageFormat, PixelServeOptions } from "./types";
+import type {
+  ImageFit,
+  ImageFormat,
+  PixelServeOptions,
+  PixelServePreset,
+} from "./types";
+import { transformParams } from "./variables";
 
 /**
  * @typedef {("avatar" | "normal")} ImageType
@@ -26,13 +32,25 @@ import type { ImageFormat, PixelServeOptions } from "./types";
 /**
  * @typedef {Object} UserData
  * @property {number|string} quality - Quality of the image (1–100).
- * @property {ImageFormat} format - Desired format of the image.
+ * @property {ImageFormat|"auto"} format - Desired format of the image, or
+ *   `"auto"` to negotiate it from the request's `Accept` header.
  * @property {string} [src] - Source path or URL for the image.
  * @property {string} [folder] - The folder type ("public" or "private").
  * @property {ImageType} [type] - Type of the image ("avatar" or "normal").
  * @property {string|null} [userId] - Optional user identifier.
  * @property {number|string} [width] - Desired image width.
  * @property {number|string} [height] - Desired image height.
+ * @property {ImageFit} [fit] - Resize fit mode (defaults to `cover`).
+ * @property {boolean|string} [enlarge] - Allow upscaling past the source size.
+ * @property {string} [background] - Hex letterbox color for `fit=contain`.
+ * @property {ImagePosition} [position] - Crop anchor or smart-crop strategy.
+ * @property {ImagePosition} [gravity] - Alias of `position`.
+ * @property {number|string} [fx] - Horizontal focal point, `0`–`1`.
+ * @property {number|string} [fy] - Vertical focal point, `0`–`1`.
+ * @property {string} [crop] - Source rectangle `x,y,w,h` (px or %).
+ * @property {string} [preset] - Name of a configured preset to expand.
+ * @property {number|string} [dpr] - Device pixel ratio multiplied into
+ *   width/height.
  */
 
 /**
@@ -41,8 +59,9 @@ import type { ImageFormat, PixelServeOptions } from "./types";
  * @param {Partial<Options>} options - The user-provided options.
  * @returns {Options} The rendered options object.
  */
-export const renderOptions = (options: PixelServeOptions): ParsedOptions =>
-  optionsSchema.parse(options);
+export const renderOptions = <TRequest>(
+  options: PixelServeOptions<TRequest>,
+): ParsedOptions => optionsSchema.parse(options);
 
 /**
  * Renders the user data object with default values and user-provided values.
@@ -52,17 +71,59 @@ export const renderOptions = (options: PixelServeOptions): ParsedOptions =>
  */
 /**
  * Result of `renderUserData`. Narrower than `ParsedUserData` (Zod-inferred):
- * `format` is guaranteed to be an `ImageFormat` (defaulting to `"jpeg"`),
+ * `format` is guaranteed to be an `ImageFormat` (defaulting to `"jpeg"`) or
+ * the literal `"auto"`,
  * and `quality` is guaranteed to be a number (defaulting to
- * `bounds.defaultQuality`). The remaining fields keep their Zod-inferred
- * types, so callers can drop ad-hoc `as ImageFormat` / `as ImageType`
- * casts in favor of the validated shape.
+ * `bounds.defaultQuality`). A `preset` has been expanded, the `gravity`
+ * alias is folded into `position`, and `width`/`height` are physical
+ * pixels: already multiplied by `dpr` (capped to `bounds.maxDpr`) and
+ * clamped. The remaining fields keep their Zod-inferred types, so callers
+ * can drop ad-hoc `as ImageFormat` / `as ImageType` casts in favor of the
+ * validated shape.
  */
-export type RenderedUserData = Omit<ParsedUserData, "format" | "quality"> & {
-  format: ImageFormat;
+export type RenderedUserData = Omit<
+  ParsedUserData,
+  "format" | "quality" | "gravity"
+> & {
+  format: ImageFormat | "auto";
   quality: number;
 };
 
+/**
+ * Merges the preset a request names under the request's own parameters,
+ * before anything is parsed, so the merged values get the same validation,
+ * `dpr` scaling and clamping as hand-written ones. In `presetsOnly` mode a
+ * request must name a preset and may not set transformation parameters
+ * itself.
+ */
+const expandPreset = (
+  userData: unknown,
+  presets: Record<string, PixelServePreset> | undefined,
+  presetsOnly: boolean,
+): unknown => {
+  if (typeof userData !== "object" || userData === null) return userData;
+  const query = userData as Record<string, unknown>;
+  const name = query.preset;
+  if (presetsOnly) {
+    if (name === undefined) throw new Error("a preset is required");
+    const overridden = transformParams.filter(
+      (param) => query[param] !== undefined,
+    );
+    if (overridden.length > 0) {
+      throw new Error(
+        `${overridden.join(", ")} cannot be set when presetsOnly is enabled`,
+      );
+    }
+  }
+  if (name === undefined) return userData;
+  const preset =
+    typeof name === "string" && presets && Object.hasOwn(presets, name)
+      ? presets[name]
+      : undefined;
+  if (!preset) throw new Error(`unknown preset "${String(name)}"`);
+  return { ...preset, ...query };
+};
+
 export const renderUserData = (
   userData: unknown,
   bounds: {
@@ -71,9 +132,23 @@ export const renderUserData = (
     minHeight: number;
     maxHeight: number;
     defaultQuality: number;
+    allowedFits?: ImageFit[];
+    maxDpr?: number;
+    presets?: Record<string, PixelServePreset>;
+    presetsOnly?: boolean;
   },
 ): RenderedUserData => {
-  const parsed = userDataSchema.parse(userData);
+  const parsed = userDataSchema.parse(
+    expandPreset(userData, bounds.presets, bounds.presetsOnly ?? false),
+  );
+
+  if (
+    parsed.fit &&
+    bounds.allowedFits &&
+    !bounds.allowedFits.includes(parsed.fit)
+  ) {
+    throw new Error(`fit "${parsed.fit}" is not in allowedFits`);
+  }
 
   const clamp = (
     value: number | undefined,
@@ -84,10 +159,22 @@ export const renderUserData = (
     return Math.min(Math.max(value, min), max);
   };
 
+  // `gravity` is only an alias; fold it into `position` so the pipeline and
+  // the ETag key see a single field.
+  const { gravity, ...rest } = parsed;
+
+  // CSS pixels → physical pixels. Multiplying before the clamp keeps a
+  // high-density request inside the operator's bounds.
+  const dpr = Math.min(parsed.dpr ?? 1, bounds.maxDpr ?? 4);
+  const scale = (value: number | undefined): number | undefined =>
+    value === undefined ? undefined : Math.round(value * dpr);
+
   return {
-    ...parsed,
-    width: clamp(parsed.width, bounds.minWidth, bounds.maxWidth),
-    height: clamp(parsed.height, bounds.minHeight, bounds.maxHeight),
+    ...rest,
+    position: parsed.position ?? gravity,
+    dpr: parsed.dpr === undefined ? undefined : dpr,
+    width: clamp(scale(parsed.width), bounds.minWidth, bounds.maxWidth),
+    height: clamp(scale(parsed.height), bounds.minHeight, bounds.maxHeight),
     quality: parsed.quality ?? bounds.defaultQuality,
     format: parsed.format ?? "jpeg",
   };
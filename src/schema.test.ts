@@ -1,3 +1,7 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import sharp from "sharp";
 import { describe, expect, it } from "vitest";
 import { optionsSchema, userDataSchema } from "./schema";
 
@@ -55,6 +59,10 @@ describe("userDataSchema", () => {
     expect(result.format).toBe("webp");
   });
 
+  it("keeps the auto negotiation keyword, case-insensitively", () => {
+    expect(userDataSchema.parse({ format: "AUTO" }).format).toBe("auto");
+  });
+
   it("returns undefined for invalid format", () => {
     const result = userDataSchema.parse({ format: "invalid" });
     expect(result.format).toBeUndefined();
@@ -171,6 +179,7 @@ describe("optionsSchema", () => {
     expect(result.requestTimeoutMs).toBe(5000);
     expect(result.maxDownloadBytes).toBe(5_000_000);
     expect(result.etag).toBe(true);
+    expect(result.lastModified).toBe(true);
     expect(result.allowedNetworkList).toEqual([]);
   });
 
@@ -187,6 +196,7 @@ describe("optionsSchema", () => {
       allowedNetworkList: ["cdn.example.com", "images.example.com"],
       cacheControl: "private, max-age=3600",
       etag: false,
+      lastModified: false,
       minWidth: 100,
       maxWidth: 2000,
       minHeight: 100,
@@ -207,6 +217,7 @@ describe("optionsSchema", () => {
     ]);
     expect(result.cacheControl).toBe("private, max-age=3600");
     expect(result.etag).toBe(false);
+    expect(result.lastModified).toBe(false);
   });
 
   it("rejects empty baseDir", () => {
@@ -811,3 +822,332 @@ describe("src optionality (Task 13)", () => {
     expect(result.src).toBeUndefined();
   });
 });
+
+describe("fit, enlarge and background", () => {
+  it("normalizes fit case and rejects unknown modes", () => {
+    expect(userDataSchema.parse({ fit: "Contain" }).fit).toBe("contain");
+    expect(userDataSchema.parse({}).fit).toBeUndefined();
+    expect(() => userDataSchema.parse({ fit: "stretch" })).toThrow();
+  });
+
+  it("reads enlarge from booleans and their query-string spellings", () => {
+    expect(userDataSchema.parse({ enlarge: "1" }).enlarge).toBe(true);
+    expect(userDataSchema.parse({ enlarge: "true" }).enlarge).toBe(true);
+    expect(userDataSchema.parse({ enlarge: false }).enlarge).toBe(false);
+    expect(userDataSchema.parse({ enlarge: "0" }).enlarge).toBe(false);
+    expect(userDataSchema.parse({}).enlarge).toBeUndefined();
+    expect(() => userDataSchema.parse({ enlarge: "yes" })).toThrow();
+  });
+
+  it("normalizes hex backgrounds and rejects anything else", () => {
+    expect(userDataSchema.parse({ background: "FFF" }).background).toBe("#fff");
+    expect(userDataSchema.parse({ background: "#00FF0080" }).background).toBe(
+      "#00ff0080",
+    );
+    expect(() => userDataSchema.parse({ background: "red" })).toThrow();
+    expect(() => userDataSchema.parse({ background: "#12345" })).toThrow();
+  });
+
+  it("defaults allowedFits to every mode and requires cover", () => {
+    expect(optionsSchema.parse({ baseDir: "/tmp" }).allowedFits).toEqual([
+      "cover",
+      "contain",
+      "fill",
+      "inside",
+      "outside",
+    ]);
+    expect(() =>
+      optionsSchema.parse({ baseDir: "/tmp", allowedFits: ["contain"] }),
+    ).toThrow(/cover/);
+    expect(() =>
+      optionsSchema.parse({ baseDir: "/tmp", allowedFits: [] }),
+    ).toThrow();
+  });
+});
+
+describe("position, gravity and focal point", () => {
+  it("normalizes position case and the centre spelling", () => {
+    expect(userDataSchema.parse({ position: "NorthEast" }).position).toBe(
+      "northeast",
+    );
+    expect(userDataSchema.parse({ gravity: "centre" }).gravity).toBe("center");
+    expect(() => userDataSchema.parse({ position: "top" })).toThrow();
+  });
+
+  it("coerces focal coordinates and bounds them to [0, 1]", () => {
+    expect(userDataSchema.parse({ fx: "0.25", fy: 1 })).toMatchObject({
+      fx: 0.25,
+      fy: 1,
+    });
+    expect(() => userDataSchema.parse({ fx: -0.1 })).toThrow();
+    expect(() => userDataSchema.parse({ fy: "abc" })).toThrow();
+    expect(() => userDataSchema.parse({ fx: "" })).toThrow();
+    expect(() => userDataSchema.parse({ fy: " " })).toThrow();
+  });
+});
+
+describe("crop rectangle parsing", () => {
+  it("parses pixel and percentage parts", () => {
+    expect(userDataSchema.parse({ crop: "10, 20,50%,12.5%" }).crop).toEqual({
+      x: { value: 10, unit: "px" },
+      y: { value: 20, unit: "px" },
+      width: { value: 50, unit: "%" },
+      height: { value: 12.5, unit: "%" },
+    });
+    expect(userDataSchema.parse({}).crop).toBeUndefined();
+  });
+
+  it("rejects malformed, fractional-pixel, over-100% and empty rectangles", () => {
+    for (const crop of [
+      "1,2,3",
+      "1,2,3,4,5",
+      "a,0,1,1",
+      "-1,0,1,1",
+      "0.5,0,1,1",
+      "0,0,101%,1",
+      "0,0,0,1",
+      "0,0,1,0%",
+    ]) {
+      expect(() => userDataSchema.parse({ crop }), crop).toThrow(/crop must/);
+    }
+  });
+});
+
+describe("dpr", () => {
+  it("accepts ratios inside [1, 4] and rejects the rest", () => {
+    expect(userDataSchema.parse({ dpr: "2.5" }).dpr).toBe(2.5);
+    expect(() => userDataSchema.parse({ dpr: 0.5 })).toThrow(/dpr too small/);
+    expect(() => userDataSchema.parse({ dpr: "5" })).toThrow(/dpr too large/);
+  });
+
+  it("defaults maxDpr to 4 and bounds it to [1, 4]", () => {
+    expect(optionsSchema.parse({ baseDir: "/tmp" }).maxDpr).toBe(4);
+    expect(() => optionsSchema.parse({ baseDir: "/tmp", maxDpr: 0 })).toThrow();
+    expect(() => optionsSchema.parse({ baseDir: "/tmp", maxDpr: 5 })).toThrow();
+  });
+});
+
+describe("clientHints option", () => {
+  it("defaults saveDataQuality to 50 and rejects unknown keys", () => {
+    expect(
+      optionsSchema.parse({ baseDir: "/tmp", clientHints: {} }).clientHints,
+    ).toEqual({ saveDataQuality: 50 });
+    expect(() =>
+      optionsSchema.parse({
+        baseDir: "/tmp",
+        clientHints: { saveDataQuality: 0 },
+      }),
+    ).toThrow();
+    expect(() =>
+      optionsSchema.parse({ baseDir: "/tmp", clientHints: { width: true } }),
+    ).toThrow();
+  });
+});
+
+describe("signingSecret option", () => {
+  it("normalizes a single secret to a list", () => {
+    expect(
+      optionsSchema.parse({ baseDir: "/tmp", signingSecret: "k1" })
+        .signingSecret,
+    ).toEqual(["k1"]);
+    expect(
+      optionsSchema.parse({ baseDir: "/tmp", signingSecret: ["k2", "k1"] })
+        .signingSecret,
+    ).toEqual(["k2", "k1"]);
+  });
+
+  it("rejects empty secrets and empty lists", () => {
+    for (const signingSecret of ["", [], ["k1", ""]]) {
+      expect(() =>
+        optionsSchema.parse({ baseDir: "/tmp", signingSecret }),
+      ).toThrow();
+    }
+  });
+
+  it("lets the signature parameter through userDataSchema", () => {
+    expect(userDataSchema.parse({ signature: "abc" }).signature).toBe("abc");
+  });
+});
+
+describe("expires", () => {
+  it("coerces epoch seconds and rejects non-integers", () => {
+    expect(userDataSchema.parse({ expires: "1800000000" }).expires).toBe(
+      1_800_000_000,
+    );
+    expect(() => userDataSchema.parse({ expires: "soon" })).toThrow();
+    expect(() => userDataSchema.parse({ expires: 1.5 })).toThrow();
+    expect(() => userDataSchema.parse({ expires: 0 })).toThrow();
+  });
+});
+
+describe("presets option", () => {
+  it("accepts valid presets and defaults presetsOnly to false", () => {
+    const parsed = optionsSchema.parse({
+      baseDir: "/tmp",
+      presets: { thumb: { width: 320, format: "webp", fit: "contain" } },
+    });
+    expect(parsed.presets?.thumb).toEqual({
+      width: 320,
+      format: "webp",
+      fit: "contain",
+    });
+    expect(parsed.presetsOnly).toBe(false);
+  });
+
+  it("rejects invalid names, values and non-transformation keys", () => {
+    for (const presets of [
+      { "bad name": { width: 10 } },
+      { thumb: { width: 9000 } },
+      { thumb: { src: "a.jpg" } },
+      { thumb: { folder: "private" } },
+    ]) {
+      expect(() => optionsSchema.parse({ baseDir: "/tmp", presets })).toThrow();
+    }
+  });
+
+  it("requires presets for presetsOnly", () => {
+    expect(() =>
+      optionsSchema.parse({ baseDir: "/tmp", presetsOnly: true }),
+    ).toThrow(/presetsOnly requires presets/);
+  });
+});
+
+describe("urlScheme option", () => {
+  it("defaults to query and accepts only query or path", () => {
+    expect(optionsSchema.parse({ baseDir: "/tmp" }).urlScheme).toBe("query");
+    expect(
+      optionsSchema.parse({ baseDir: "/tmp", urlScheme: "path" }).urlScheme,
+    ).toBe("path");
+    expect(() =>
+      optionsSchema.parse({ baseDir: "/tmp", urlScheme: "hash" }),
+    ).toThrow();
+  });
+});
+
+describe("compat option", () => {
+  it("accepts imgix and cloudinary only", () => {
+    expect(optionsSchema.parse({ baseDir: "/tmp" }).compat).toBeUndefined();
+    expect(
+      optionsSchema.parse({ baseDir: "/tmp", compat: "cloudinary" }).compat,
+    ).toBe("cloudinary");
+    expect(() =>
+      optionsSchema.parse({ baseDir: "/tmp", compat: "thumbor" }),
+    ).toThrow();
+  });
+});
+
+describe("errorMode option", () => {
+  it("defaults to fallback and accepts status", () => {
+    expect(optionsSchema.parse({ baseDir: "/tmp" }).errorMode).toBe("fallback");
+    expect(
+      optionsSchema.parse({ baseDir: "/tmp", errorMode: "status" }).errorMode,
+    ).toBe("status");
+    expect(() =>
+      optionsSchema.parse({ baseDir: "/tmp", errorMode: "strict" }),
+    ).toThrow();
+  });
+});
+
+describe("fallbackImages option", () => {
+  const assetPath = path.join(__dirname, "assets", "noimage.jpg");
+  const avatar = readFileSync(path.join(__dirname, "assets", "noavatar.png"));
+
+  it("accepts absolute file paths, buffers and resolvers", () => {
+    const resolver = (): undefined => undefined;
+    expect(
+      optionsSchema.parse({
+        baseDir: "/tmp",
+        fallbackImages: { normal: assetPath, avatar },
+      }).fallbackImages,
+    ).toEqual({ normal: assetPath, avatar });
+    const svg = Buffer.from(
+      "<?xml version='1.0'?>\n<svg xmlns='http://www.w3.org/2000/svg'/>",
+    );
+    expect(
+      optionsSchema.parse({ baseDir: "/tmp", fallbackImages: { normal: svg } })
+        .fallbackImages,
+    ).toEqual({ normal: svg });
+    expect(
+      optionsSchema.parse({ baseDir: "/tmp", fallbackImages: resolver })
+        .fallbackImages,
+    ).toBe(resolver);
+  });
+
+  it("rejects missing files, relative paths and empty buffers", () => {
+    for (const normal of [
+      "assets/noimage.jpg",
+      path.join(__dirname, "assets", "missing.jpg"),
+      Buffer.alloc(0),
+      42,
+    ]) {
+      expect(() =>
+        optionsSchema.parse({ baseDir: "/tmp", fallbackImages: { normal } }),
+      ).toThrow();
+    }
+  });
+
+  it("recognizes every raster format Sharp encodes", async () => {
+    for (const format of ["gif", "webp", "tiff", "avif"] as const) {
+      const normal = await sharp({
+        create: { width: 8, height: 8, channels: 3, background: "#000" },
+      })
+        .toFormat(format)
+        .toBuffer();
+      expect(() =>
+        optionsSchema.parse({ baseDir: "/tmp", fallbackImages: { normal } }),
+      ).not.toThrow();
+    }
+  });
+
+  it("rejects buffers and files that are not images", () => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), "pixel-schema-"));
+    try {
+      const textFile = path.join(dir, "notes.jpg");
+      writeFileSync(textFile, "not an image");
+      for (const normal of [
+        textFile,
+        Buffer.from("not an image"),
+        Buffer.from("<html><body>404</body></html>"),
+      ]) {
+        expect(() =>
+          optionsSchema.parse({ baseDir: "/tmp", fallbackImages: { normal } }),
+        ).toThrow(
+          "fallback image must be a JPEG, PNG, GIF, WebP, TIFF, AVIF/HEIF or SVG image",
+        );
+      }
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("placeholders option", () => {
+  it("fills in defaults and normalizes colors", () => {
+    expect(
+      optionsSchema.parse({ baseDir: "/tmp", placeholders: {} }).placeholders,
+    ).toEqual({ background: "#e5e7eb", color: "#6b7280", label: "auto" });
+    expect(
+      optionsSchema.parse({
+        baseDir: "/tmp",
+        placeholders: { background: "FFF", color: "#00000080", label: false },
+      }).placeholders,
+    ).toEqual({ background: "#fff", color: "#00000080", label: false });
+    expect(optionsSchema.parse({ baseDir: "/tmp" }).placeholders).toBe(
+      undefined,
+    );
+  });
+
+  it("rejects color names, unknown labels and unknown keys", () => {
+    for (const placeholders of [
+      { background: "red" },
+      { color: "#12345" },
+      { label: "name" },
+      { label: true },
+      { font: "serif" },
+    ]) {
+      expect(() =>
+        optionsSchema.parse({ baseDir: "/tmp", placeholders }),
+      ).toThrow();
+    }
+  });
+});
@@ -1,13 +1,107 @@
+import { closeSync, openSync, readSync, statSync } from "node:fs";
+import path from "node:path";
 import { z } from "zod";
 import type {
+  CropLength,
+  CropRectangle,
+  ImageFit,
   ImageFormat,
+  ImagePosition,
+  PixelServeCacheStore,
+  PixelServeFallbackResolver,
   PixelServeOnError,
+  PixelServePreset,
   PixelServeOnComplete,
 } from "./types";
-import { API_REGEX, allowedFormats } from "./variables";
+import {
+  API_REGEX,
+  allowedFormats,
+  imageFits,
+  imagePositions,
+  transformParams,
+} from "./variables";
+import { isCacheStore } from "./cache";
+
+/** A 3, 4, 6 or 8 digit hex color, `#` optional. */
+const HEX_COLOR_REGEX =
+  /^#?([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
 
 const imageFormatEnum = z.enum(allowedFormats as [string, ...string[]]);
 const imageTypeEnum = z.enum(["avatar", "normal"]);
+const imageFitEnum = z.enum(imageFits as [ImageFit, ...ImageFit[]]);
+const imagePositionEnum = z.enum(
+  imagePositions as [ImagePosition, ...ImagePosition[]],
+);
+
+/**
+ * Case-insensitive `position`/`gravity` value. The British `centre` is
+ * folded into `center` so both spellings share one ETag key.
+ */
+const imagePositionSchema = z
+  .string()
+  .optional()
+  .transform((value) => {
+    const lower = value?.toLowerCase();
+    return lower === "centre" ? "center" : lower;
+  })
+  .pipe(imagePositionEnum.optional());
+
+/**
+ * Parses `crop=x,y,w,h`. Each part is a whole pixel count or a percentage
+ * (`0`–`100`, decimals allowed); `w` and `h` must be positive. Whether the
+ * rectangle fits the source can only be checked once its dimensions are
+ * known, in `serveImage`.
+ */
+const cropSchema = z
+  .string()
+  .optional()
+  .transform((value, ctx): CropRectangle | undefined => {
+    if (value === undefined) return undefined;
+    const parts = value.split(",").map((part): CropLength | undefined => {
+      const match = /^(\d+(?:\.\d+)?)(%?)$/.exec(part.trim());
+      if (!match) return undefined;
+      const length = Number(match[1]);
+      if (match[2])
+        return length <= 100 ? { value: length, unit: "%" } : undefined;
+      return Number.isInteger(length)
+        ? { value: length, unit: "px" }
+        : undefined;
+    });
+    const [x, y, width, height] = parts;
+    if (
+      parts.length !== 4 ||
+      !x ||
+      !y ||
+      !width ||
+      !height ||
+      width.value === 0 ||
+      height.value === 0
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message:
+          "crop must be x,y,w,h in whole pixels or percentages, with a positive w and h",
+      });
+      return z.NEVER;
+    }
+    return { x, y, width, height };
+  });
+
+/**
+ * A focal-point coordinate: a fraction in `[0, 1]`. An empty `fx=` is
+ * rejected rather than read as `Number("")`, which is `0`.
+ */
+const focalCoordinateSchema = z
+  .union([z.number(), z.string()])
+  .optional()
+  .transform((value) =>
+    value === undefined || value === null
+      ? undefined
+      : typeof value === "string" && value.trim() === ""
+        ? Number.NaN
+        : Number(value),
+  )
+  .pipe(z.number().min(0).max(1).optional());
 
 export const userDataSchema = z
   .object({
@@ -38,8 +132,10 @@ export const userDataSchema = z
     format: z
       .string()
       .optional()
-      .transform((val): ImageFormat | undefined => {
+      // `"auto"` opts into `Accept`-header negotiation in `serveImage`.
+      .transform((val): ImageFormat | "auto" | undefined => {
         const lower = val?.toLowerCase();
+        if (lower === "auto") return "auto";
         return lower && imageFormatEnum.options.includes(lower)
           ? (lower as ImageFormat)
           : undefined;
@@ -93,6 +189,60 @@ export const userDataSchema = z
         value === undefined || value === null ? undefined : Number(value),
       )
       .pipe(z.number().int().min(1).max(100).optional()),
+    fit: z
+      .string()
+      .optional()
+      .transform((value) => value?.toLowerCase())
+      .pipe(imageFitEnum.optional()),
+    // Query strings carry booleans as text; only the four unambiguous
+    // spellings are accepted so a typo is rejected rather than read as false.
+    enlarge: z
+      .union([z.boolean(), z.enum(["true", "false", "1", "0"])])
+      .optional()
+      .transform((value) =>
+        value === undefined
+          ? undefined
+          : value === true || value === "true" || value === "1",
+      ),
+    // Hex only — no CSS color names or functions — so the value space stays
+    // small and predictable for the ETag key. Normalized to a lower-case
+    // `#`-prefixed form so `FFF` and `#fff` share one key.
+    background: z
+      .string()
+      .regex(
+        HEX_COLOR_REGEX,
+        "background must be a 3, 4, 6 or 8 digit hex color",
+      )
+      .transform((value) => `#${value.replace(/^#/, "").toLowerCase()}`)
+      .optional(),
+    position: imagePositionSchema,
+    gravity: imagePositionSchema,
+    fx: focalCoordinateSchema,
+    fy: focalCoordinateSchema,
+    crop: cropSchema,
+    // Checked against the raw query by `serveImage` when `signingSecret` is
+    // set; accepted here so signed URLs pass the strict object check.
+    signature: z.string().optional(),
+    preset: z.string().optional(),
+    // Unix epoch seconds; compared with the clock by `serveImage`.
+    expires: z
+      .union([z.number(), z.string()])
+      .optional()
+      .transform((value) =>
+        value === undefined || value === null ? undefined : Number(value),
+      )
+      .pipe(z.number().int().positive().optional()),
+    // Device pixel ratio. The hard window is [1, 4]; a request inside it is
+    // then capped to the operator's `maxDpr` by renderUserData.
+    dpr: z
+      .union([z.number(), z.string()])
+      .optional()
+      .transform((value) =>
+        value === undefined || value === null ? undefined : Number(value),
+      )
+      .pipe(
+        z.number().min(1, "dpr too small").max(4, "dpr too large").optional(),
+      ),
     folder: z.enum(["public", "private"]).default("public"),
     type: imageTypeEnum.default("normal"),
     userId: z
@@ -113,6 +263,98 @@ export const userDataSchema = z
   })
   .strict();
 
+/**
+ * A preset must be a valid set of transformation parameters on its own —
+ * `userDataSchema` restricted to the keys a preset may set. It is only
+ * checked here; the raw values are kept and merged into each request's
+ * query, so they are parsed again together with it.
+ */
+const presetSchema = userDataSchema.pick(
+  Object.fromEntries(transformParams.map((name) => [name, true])) as Record<
+    (typeof transformParams)[number],
+    true
+  >,
+);
+
+/** Bytes read from a fallback image file to recognize its format. */
+const IMAGE_HEAD_BYTES = 4096;
+
+/**
+ * Whether `head` — the first bytes of a file or buffer — opens like an
+ * image Sharp decodes: JPEG, PNG, GIF, WebP, TIFF, an ISO-BMFF container
+ * (AVIF/HEIF) or an SVG document. Only the container signature is checked,
+ * so a truncated image still passes here and is reported when served.
+ */
+const looksLikeImage = (head: Buffer): boolean => {
+  const ascii = (start: number, end: number): string =>
+    head.subarray(start, end).toString("latin1");
+  if (head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) return true;
+  if (ascii(0, 8) === "\x89PNG\r\n\x1a\n") return true;
+  if (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a") return true;
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return true;
+  if (ascii(0, 4) === "II*\0" || ascii(0, 4) === "MM\0*") return true;
+  if (ascii(4, 8) === "ftyp") return true;
+  const text = head.toString("utf8");
+  return /^\ufeff?\s*</.test(text) && /<svg[\s>]/i.test(text);
+};
+
+/** The first `IMAGE_HEAD_BYTES` of `file`. */
+const readFileHead = (file: string): Buffer => {
+  const head = Buffer.alloc(IMAGE_HEAD_BYTES);
+  const fd = openSync(file, "r");
+  try {
+    return head.subarray(0, readSync(fd, head, 0, IMAGE_HEAD_BYTES, 0));
+  } finally {
+    closeSync(fd);
+  }
+};
+
+const NOT_AN_IMAGE =
+  "fallback image must be a JPEG, PNG, GIF, WebP, TIFF, AVIF/HEIF or SVG image";
+
+/**
+ * A fallback image given up front. A path is checked once, at
+ * `registerServe()`, so a typo or a file that is not an image fails at
+ * startup rather than on the first broken image; it is read again each
+ * time it is served. Options are parsed synchronously, so the check
+ * recognizes the image format rather than decoding it.
+ */
+const fallbackImageSchema = z.union([
+  z.string().superRefine((file, ctx) => {
+    let head: Buffer;
+    try {
+      if (!path.isAbsolute(file) || !statSync(file).isFile()) {
+        throw new Error("not a file");
+      }
+      head = readFileHead(file);
+    } catch {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "fallback image must be an absolute path to an existing file",
+      });
+      return;
+    }
+    if (!looksLikeImage(head)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: NOT_AN_IMAGE });
+    }
+  }),
+  z
+    .instanceof(Buffer)
+    .refine((image) => image.length > 0, {
+      message: "fallback image buffer cannot be empty",
+      abort: true,
+    })
+    .refine((image) => looksLikeImage(image.subarray(0, IMAGE_HEAD_BYTES)), {
+      message: NOT_AN_IMAGE,
+    }),
+]);
+
+/** A placeholder color, normalized like the `background` parameter. */
+const hexColorSchema = z
+  .string()
+  .regex(HEX_COLOR_REGEX, "must be a 3, 4, 6 or 8 digit hex color")
+  .transform((value) => `#${value.replace(/^#/, "").toLowerCase()}`);
+
 export const optionsSchema = z
   .object({
     baseDir: z.string().min(1, "baseDir is required"),
@@ -204,10 +446,20 @@ export const optionsSchema = z
       .default([]),
     cacheControl: z.string().optional(),
     etag: z.boolean().default(true),
+    lastModified: z.boolean().default(true),
     minWidth: z.number().int().positive().default(50),
     maxWidth: z.number().int().positive().default(4000),
     minHeight: z.number().int().positive().default(50),
     maxHeight: z.number().int().positive().default(4000),
+    allowedFits: z
+      .array(imageFitEnum)
+      .min(1)
+      .refine((fits) => fits.includes("cover"), {
+        message: "allowedFits must include cover, the default fit",
+      })
+      .default([...imageFits]),
+    // Requests may ask for up to 4x; this caps what is honoured.
+    maxDpr: z.number().min(1).max(4).default(4),
     defaultQuality: z.number().int().min(1).max(100).default(80),
     requestTimeoutMs: z.number().int().positive().default(5000),
     idHandlerTimeoutMs: z.number().int().positive().optional(),
@@ -229,8 +481,102 @@ export const optionsSchema = z
         message: "onComplete must be a function",
       })
       .optional(),
+    diskCache: z
+      .object({
+        dir: z.string().min(1, "diskCache.dir is required"),
+        maxBytes: z
+          .number()
+          .int()
+          .positive()
+          .default(256 * 1024 * 1024),
+        maxAgeMs: z
+          .number()
+          .int()
+          .positive()
+          .default(7 * 24 * 60 * 60 * 1000),
+      })
+      .strict()
+      .optional(),
+    memoryCache: z
+      .object({
+        maxBytes: z.number().int().positive(),
+      })
+      .strict()
+      .optional(),
+    cacheStore: z
+      .custom<PixelServeCacheStore>(isCacheStore, {
+        message: "cacheStore must implement get, set, delete and has",
+      })
+      .optional(),
+    cacheStoreTtlMs: z.number().int().positive().optional(),
+    upstreamCache: z
+      .object({
+        maxBytes: z.number().int().positive(),
+        defaultTtlMs: z.number().int().nonnegative().default(0),
+      })
+      .strict()
+      .optional(),
+    clientHints: z
+      .object({
+        saveDataQuality: z.number().int().min(1).max(100).default(50),
+      })
+      .strict()
+      .optional(),
+    // Normalized to a list so the verifier has one shape to handle.
+    signingSecret: z
+      .union([z.string().min(1), z.array(z.string().min(1)).min(1)])
+      .transform((secret) => (typeof secret === "string" ? [secret] : secret))
+      .optional(),
+    presets: z
+      .record(
+        z
+          .string()
+          .regex(
+            /^[A-Za-z0-9_-]+$/,
+            "preset names may only contain letters, digits, _ and -",
+          ),
+        z.custom<PixelServePreset>(
+          (preset) => presetSchema.safeParse(preset).success,
+          {
+            message: "preset must contain only valid transformation parameters",
+          },
+        ),
+      )
+      .optional(),
+    presetsOnly: z.boolean().default(false),
+    urlScheme: z.enum(["query", "path"]).default("query"),
+    compat: z.enum(["imgix", "cloudinary"]).optional(),
+    errorMode: z.enum(["fallback", "status"]).default("fallback"),
+    fallbackImages: z
+      .union([
+        z
+          .object({
+            normal: fallbackImageSchema.optional(),
+            avatar: fallbackImageSchema.optional(),
+          })
+          .strict(),
+        z.custom<PixelServeFallbackResolver<unknown>>(
+          (val) => typeof val === "function",
+          { message: "fallbackImages must be an object or a function" },
+        ),
+      ])
+      .optional(),
+    placeholders: z
+      .object({
+        background: hexColorSchema.default("#e5e7eb"),
+        color: hexColorSchema.default("#6b7280"),
+        label: z
+          .union([z.enum(["auto", "dimensions", "initials"]), z.literal(false)])
+          .default("auto"),
+      })
+      .strict()
+      .optional(),
   })
   .strict()
+  .refine((data) => !data.presetsOnly || data.presets !== undefined, {
+    message: "presetsOnly requires presets",
+    path: ["presetsOnly"],
+  })
   .refine((data) => data.minWidth <= data.maxWidth, {
     message: "minWidth must be less than or equal to maxWidth",
     path: ["minWidth"],
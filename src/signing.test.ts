@@ -0,0 +1,75 @@
+import { createHmac } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { signPixelUrl, verifyPixelSignature } from "./signing";
+
+const toQuery = (query: string): Record<string, string> =>
+  Object.fromEntries(new URLSearchParams(query));
+
+describe("signPixelUrl", () => {
+  it("signs the parameters in canonical order", () => {
+    const query = signPixelUrl(
+      { width: 300, src: "uploads/a b.jpg", format: "webp" },
+      "k1",
+    );
+    const expected = createHmac("sha256", "k1")
+      .update("format=webp&src=uploads%2Fa%20b.jpg&width=300")
+      .digest("base64url");
+    expect(query).toBe(
+      `format=webp&src=uploads%2Fa%20b.jpg&width=300&signature=${expected}`,
+    );
+  });
+
+  it("skips unset values and any signature already present", () => {
+    expect(
+      signPixelUrl(
+        { src: "a.jpg", width: undefined, height: null, signature: "x" },
+        "k1",
+      ),
+    ).toBe(signPixelUrl({ src: "a.jpg" }, "k1"));
+  });
+});
+
+describe("verifyPixelSignature", () => {
+  const signed = toQuery(
+    signPixelUrl({ src: "a.jpg", width: 300, enlarge: true }, "k1"),
+  );
+
+  it("accepts a signature made with any listed secret, in any order", () => {
+    const reordered = {
+      width: signed.width!,
+      signature: signed.signature!,
+      enlarge: signed.enlarge!,
+      src: signed.src!,
+    };
+    expect(verifyPixelSignature(reordered, ["k1"])).toBe(true);
+    expect(verifyPixelSignature(signed, ["k2", "k1"])).toBe(true);
+    expect(verifyPixelSignature(signed, ["k2"])).toBe(false);
+  });
+
+  it("rejects tampered, added and removed parameters", () => {
+    expect(verifyPixelSignature({ ...signed, width: "3000" }, ["k1"])).toBe(
+      false,
+    );
+    expect(verifyPixelSignature({ ...signed, quality: "100" }, ["k1"])).toBe(
+      false,
+    );
+    const { enlarge, ...removed } = signed;
+    expect(enlarge).toBe("true");
+    expect(verifyPixelSignature(removed, ["k1"])).toBe(false);
+  });
+
+  it("fails closed on missing signatures and non-string values", () => {
+    const { signature, ...unsigned } = signed;
+    expect(signature).toMatch(/^[\w-]{43}$/);
+    expect(verifyPixelSignature(unsigned, ["k1"])).toBe(false);
+    expect(verifyPixelSignature({ ...signed, signature: "" }, ["k1"])).toBe(
+      false,
+    );
+    expect(
+      verifyPixelSignature({ ...signed, src: ["a.jpg", "b.jpg"] }, ["k1"]),
+    ).toBe(false);
+    expect(
+      verifyPixelSignature({ ...signed, signature: "short" }, ["k1"]),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+/** Query parameter carrying the URL signature. */
+export const SIGNATURE_PARAM = "signature";
+
+/**
+ * Parameter values `signPixelUrl` accepts. `undefined` and `null` entries
+ * are left out of the URL entirely, so an options object with unset fields
+ * can be passed as-is.
+ */
+export type PixelUrlParams = Record<
+  string,
+  string | number | boolean | undefined | null
+>;
+
+/**
+ * The string a signature covers: every parameter except `signature`,
+ * sorted by name and percent-encoded, joined as a query string. Sorting
+ * makes the signature independent of parameter order, so a template
+ * engine or proxy that reorders the query does not invalidate it.
+ */
+const canonicalQuery = (params: Record<string, string>): string =>
+  Object.keys(params)
+    .filter((name) => name !== SIGNATURE_PARAM)
+    .sort()
+    .map(
+      (name) =>
+        `${encodeURIComponent(name)}=${encodeURIComponent(params[name]!)}`,
+    )
+    .join("&");
+
+/** HMAC-SHA256 of the canonical query, base64url-encoded. */
+const computeSignature = (
+  params: Record<string, string>,
+  secret: string,
+): string =>
+  createHmac("sha256", secret)
+    .update(canonicalQuery(params))
+    .digest("base64url");
+
+/** Drops unset values and any existing signature, stringifying the rest. */
+const stringifyParams = (params: PixelUrlParams): Record<string, string> => {
+  const values: Record<string, string> = {};
+  for (const [name, value] of Object.entries(params)) {
+    if (name === SIGNATURE_PARAM || value === undefined || value === null) {
+      continue;
+    }
+    values[name] = String(value);
+  }
+  return values;
+};
+
+/**
+ * The signature `verifyPixelSignature` expects for `params`, independent
+ * of how they are carried — shared by `signPixelUrl` and the path-scheme
+ * builder so one signature is valid in either URL form.
+ */
+export const createPixelSignature = (
+  params: PixelUrlParams,
+  secret: string,
+): string => computeSignature(stringifyParams(params), secret);
+
+/**
+ * Builds a signed query string (without the leading `?`) for the serve
+ * endpoint: the parameters in canonical order followed by `signature`.
+ * Sign with the newest of the secrets `signingSecret` lists; the middleware
+ * accepts a signature made with any of them.
+ *
+ * @example
+ * const query = signPixelUrl({ src: "uploads/cat.jpg", width: 300 }, secret);
+ * const url = `/api/v1/pixel/serve?${query}`;
+ */
+export const signPixelUrl = (
+  params: PixelUrlParams,
+  secret: string,
+): string => {
+  const values = stringifyParams(params);
+  const signature = computeSignature(values, secret);
+  return `${canonicalQuery(values)}&${SIGNATURE_PARAM}=${signature}`;
+};
+
+/**
+ * Checks a request query against every secret in `secrets`, in constant
+ * time per comparison. Fails closed: a missing signature, a repeated or
+ * nested parameter (anything but a plain string value), or a mismatch
+ * under every secret returns `false`.
+ */
+export const verifyPixelSignature = (
+  query: Record<string, unknown>,
+  secrets: readonly string[],
+): boolean => {
+  const values: Record<string, string> = {};
+  for (const [name, value] of Object.entries(query)) {
+    if (typeof value !== "string") return false;
+    values[name] = value;
+  }
+  const provided = Buffer.from(values[SIGNATURE_PARAM] ?? "");
+  if (provided.length === 0) return false;
+  return secrets.some((secret) => {
+    const expected = Buffer.from(computeSignature(values, secret));
+    return (
+      expected.length === provided.length && timingSafeEqual(expected, provided)
+    );
+  });
+};
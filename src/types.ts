@@ -11,6 +11,50 @@ export type ImageFormat =
   | "tiff"
   | "avif";
 
+/**
+ * How a resize fits the requested box, mirroring Sharp's `fit` modes:
+ * `cover` crops to fill it, `contain` letterboxes inside it, `fill`
+ * stretches to it, `inside` shrinks to fit within it, and `outside` grows to
+ * cover it while keeping the aspect ratio.
+ */
+export type ImageFit = "cover" | "contain" | "fill" | "inside" | "outside";
+
+/**
+ * Which part of the image a `cover` crop keeps (or where `contain` places
+ * the image in its box). Compass directions anchor to an edge or corner;
+ * `entropy` keeps the region with the most detail and `attention` the most
+ * salient region (skin tones, saturation, luminance), both `cover` only.
+ */
+export type ImagePosition =
+  | "center"
+  | "north"
+  | "northeast"
+  | "east"
+  | "southeast"
+  | "south"
+  | "southwest"
+  | "west"
+  | "northwest"
+  | "entropy"
+  | "attention";
+
+/**
+ * One edge or size of a `crop` rectangle: absolute pixels, or a percentage
+ * of the matching source dimension.
+ */
+export type CropLength = { value: number; unit: "px" | "%" };
+
+/**
+ * A parsed `crop=x,y,w,h` rectangle, measured on the auto-rotated source
+ * (what a viewer sees, not the stored raster).
+ */
+export type CropRectangle = {
+  x: CropLength;
+  y: CropLength;
+  width: CropLength;
+  height: CropLength;
+};
+
 /**
  * The known failure phases reported to `onError`. Listed for documentation;
  * the actual `phase` field is typed as `string` so future call sites can
@@ -24,7 +68,17 @@ export type ImageFormat =
  * - `"getUserFolder"` — User-supplied `getUserFolder` threw or exceeded
  *                       `requestTimeoutMs`.
  * - `"schema"`    — Zod parsing of `PixelServeOptions` failed.
- * - `"validation"`— Per-request user data validation failed (e.g., bad query).
+ * - `"validation"`— Per-request user data validation failed (e.g., bad query),
+ *                   or `compat` left out parameters it could not translate
+ *                   (the request then carries on without them).
+ * - `"cache"`     — Reading or writing a derivative cache entry failed. The
+ *                   request carries on as a cache miss.
+ * - `"signature"` — `signingSecret` is set and the request's `signature`
+ *                   was missing or did not match its parameters.
+ * - `"expired"`   — The request's `expires` deadline has passed.
+ * - `"fallback"`  — A custom `fallbackImages` entry could not be resolved,
+ *                   read or encoded, or a generated placeholder could not
+ *                   be encoded; the bundled placeholder was served.
  */
 export type PixelServeErrorPhase =
   | "sharp"
@@ -34,6 +88,10 @@ export type PixelServeErrorPhase =
   | "getUserFolder"
   | "schema"
   | "validation"
+  | "cache"
+  | "signature"
+  | "expired"
+  | "fallback"
   | string;
 
 /**
@@ -70,8 +128,12 @@ export type PixelServeOnError = (
  * verbatim after the outer pipeline catch).
  *
  * - `src` / `userId` carry the validated request inputs.
- * - `format` is the output format actually used by the response.
- * - `outputBytes` is the size of the response body in bytes (0 for 304s).
+ * - `format` is the output format actually used by the response. A `304`
+ *   for a `format=auto` request that needs the source to decide reports
+ *   the format this instance last encoded the variant to, and leaves it
+ *   absent when it has not encoded it.
+ * - `outputBytes` is the size of the response body in bytes (0 for 304s,
+ *   416s and `HEAD` responses; the range alone for a 206).
  * - `cached` is `true` when the response was served as 304 Not Modified.
  * - `durationMs` measures end-to-end pipeline latency from the start of
  *   `serveImage` to the moment `res.send` (or `res.end`) was invoked,
@@ -84,6 +146,19 @@ export type PixelServeOnError = (
  *   `false` for a genuinely resolved-and-encoded image. 304 short-circuits
  *   always report `false` — no bytes are sent, so there is nothing to
  *   characterize as fallback-or-not for that response.
+ * - `cacheHit` names the derivative cache that supplied the body when a
+ *   200 was served without resolving the source or running Sharp:
+ *   `"memory"` for the in-process `memoryCache`, `"disk"` for `diskCache`,
+ *   `"store"` for a custom `cacheStore`. Absent when the body was freshly
+ *   encoded (and on 304s, which send no body).
+ * - `coalesced` is `true` when this request arrived while an identical
+ *   request (same deterministic cache key) was already resolving and
+ *   encoding, and was answered from that shared run instead of starting its
+ *   own. Absent otherwise.
+ * - `head` is `true` when the request was a `HEAD`: the headers are the
+ *   ones its `GET` would carry, `outputBytes` is `0`, and — when an
+ *   earlier encode of the same variant proved its `GET` succeeds — no
+ *   source was read and Sharp did not run. Absent otherwise.
  *
  * Additional fields may be appended in the future; consumers should treat
  * the shape as open.
@@ -91,11 +166,14 @@ export type PixelServeOnError = (
 export type PixelServeCompletionContext = {
   src?: string;
   userId?: string;
-  format: ImageFormat;
+  format?: ImageFormat;
   outputBytes: number;
   cached: boolean;
   durationMs: number;
   fallback: boolean;
+  cacheHit?: "memory" | "disk" | "store";
+  coalesced?: boolean;
+  head?: boolean;
 };
 
 /**
@@ -114,7 +192,57 @@ export type PixelServeOnComplete = (
   context: PixelServeCompletionContext,
 ) => void;
 
-export type PixelServeOptions = {
+/**
+ * A processed image variant as held by a derivative cache: the encoded
+ * output bytes plus the format they were encoded to. The response
+ * `Content-Type` and `ETag` are derived from the format and the cache key
+ * at send time, so an entry never carries header values that could drift
+ * from what a fresh render would send.
+ */
+export type PixelServeCacheEntry = {
+  body: Buffer;
+  format: ImageFormat;
+};
+
+/**
+ * Storage backend for processed output, supplied through
+ * `PixelServeOptions.cacheStore`. Every method may be synchronous or return
+ * a promise. Keys are opaque hex strings derived from the deterministic
+ * ETag key, so they are safe to use verbatim as Redis keys or object names.
+ *
+ * - `get` resolves to the stored entry, or `undefined` on a miss. An entry
+ *   whose TTL has passed must be reported as a miss.
+ * - `set` stores an entry. `ttlMs`, when given, is how long the entry may
+ *   be served for; `undefined` leaves expiry to the store.
+ * - `delete` removes an entry; deleting an absent key is a no-op.
+ * - `has` reports whether a live entry exists without returning its body.
+ *
+ * A shared store (Redis, Memcached, S3, …) must serialize both fields of
+ * `PixelServeCacheEntry`. Throws and rejections are reported through
+ * `onError` with `phase: "cache"` and the request proceeds as a miss.
+ */
+export type PixelServeCacheStore = {
+  get: (
+    key: string,
+  ) =>
+    | PixelServeCacheEntry
+    | undefined
+    | Promise<PixelServeCacheEntry | undefined>;
+  set: (
+    key: string,
+    entry: PixelServeCacheEntry,
+    ttlMs?: number,
+  ) => void | Promise<void>;
+  delete: (key: string) => void | Promise<void>;
+  has: (key: string) => boolean | Promise<boolean>;
+};
+
+/**
+ * Options accepted by `registerServe` and every other adapter. `TRequest`
+ * is the framework's request object — Express's `Request` by default —
+ * which is what `getUserFolder` receives.
+ */
+export type PixelServeOptions<TRequest = Request> = {
   baseDir: string;
   /**
    * Transforms an incoming `userId` before it is handed to `getUserFolder`.
@@ -123,7 +251,7 @@ export type PixelServeOptions = {
    * under `idHandlerTimeoutMs` (defaults to `requestTimeoutMs`).
    */
   idHandler?: (id: string) => string | Promise<string>;
-  getUserFolder?: (req: Request, id?: string) => Promise<string> | string;
+  getUserFolder?: (req: TRequest, id?: string) => Promise<string> | string;
   /**
    * Optional containment root for `getUserFolder` results. When set, the
    * framework validates that the path returned by `getUserFolder` resolves
@@ -190,6 +318,13 @@ export type PixelServeOptions = {
   allowedNetworkList?: string[];
   cacheControl?: string;
   etag?: boolean;
+  /**
+   * Emit `Last-Modified` and answer `If-Modified-Since` with a `304` before
+   * Sharp runs. The date is the source's: a local file's `mtime`, or the
+   * origin's `Last-Modified` for a remote source held in `upstreamCache`.
+   * Responses whose source date is unknown carry none. Defaults to `true`.
+   */
+  lastModified?: boolean;
   /**
    * Operator dimension bounds. Requested `width`/`height` are first validated
    * against the framework's hard `[1, 4000]` window (out-of-window requests
@@ -202,6 +337,19 @@ export type PixelServeOptions = {
   maxWidth?: number;
   minHeight?: number;
   maxHeight?: number;
+  /**
+   * `fit` modes a request may ask for. A request naming any other mode is
+   * rejected (`onError` phase `"validation"`, fallback image). Defaults to
+   * all five; `cover` is always what an omitted `fit` resolves to, so it
+   * must be included.
+   */
+  allowedFits?: ImageFit[];
+  /**
+   * Highest `dpr` honoured. Requests may send `dpr` up to 4; larger ratios
+   * than this are capped to it before width/height are multiplied. Range
+   * `1..4`, default `4`.
+   */
+  maxDpr?: number;
   defaultQuality?: number;
   requestTimeoutMs?: number;
   /**
@@ -255,15 +403,402 @@ export type PixelServeOptions = {
    * is ignored.
    */
   onComplete?: PixelServeOnComplete;
+  /**
+   * Optional persistent cache of processed image variants. When set, every
+   * genuinely resolved-and-encoded response whose deterministic ETag key can
+   * be derived is written to `dir`, and a later request for the same key —
+   * from any client, with or without a cached ETag — is answered from disk
+   * without calling `resolveBuffer` or Sharp at all.
+   *
+   * The cache key is the deterministic ETag key (src, width, height, format,
+   * quality, type, folder, post-`idHandler` userId, source identifier), so a
+   * local file edit or an option change that alters the output also changes
+   * the key. Soft fallbacks and sources without a deterministic identifier
+   * are never cached. Entries older than `maxAgeMs` (default 7 days since
+   * their last hit) are treated as misses, and the least-recently-used
+   * entries are evicted whenever the directory grows past `maxBytes`
+   * (default 256 MiB). Read and write failures fire `onError` with
+   * `phase: "cache"` and the request proceeds as a miss.
+   */
+  diskCache?: {
+    dir: string;
+    maxBytes?: number;
+    maxAgeMs?: number;
+  };
+  /**
+   * Optional in-process LRU of encoded responses, bounded by the total size
+   * of the stored bodies (`maxBytes`) rather than by entry count. It uses
+   * the same key as `diskCache` and is consulted first, right after the
+   * deterministic ETag is computed: a hit skips `resolveBuffer` and Sharp
+   * and reports `cacheHit: "memory"` to `onComplete`. When both caches are
+   * configured, a disk hit is promoted into memory. Each `registerServe`
+   * instance owns its own LRU.
+   */
+  memoryCache?: {
+    maxBytes: number;
+  };
+  /**
+   * Optional custom storage for processed output, for deployments where a
+   * per-process cache is not enough (several instances behind a load
+   * balancer sharing Redis, for example). Uses the same key as
+   * `memoryCache`/`diskCache` and is consulted after them, so a fast local
+   * tier can front a shared one; hits report `cacheHit: "store"`. The
+   * bundled `createMemoryCacheStore` and `createFileSystemCacheStore`
+   * satisfy this interface.
+   */
+  cacheStore?: PixelServeCacheStore;
+  /**
+   * TTL (ms) passed to `cacheStore.set` for every entry written. Defaults
+   * to `undefined`, leaving expiry to the store.
+   */
+  cacheStoreTtlMs?: number;
+  /**
+   * Optional in-process cache of fetched origin bytes for remote `src`
+   * URLs, bounded by total body size (least-recently-used entries evicted
+   * first). Entries honor the origin's `Cache-Control` (`s-maxage`,
+   * `max-age`, `no-cache`, `no-store`, `private`) and `Expires`; a stale
+   * entry is revalidated with `If-None-Match` / `If-Modified-Since` and
+   * reused on `304 Not Modified`. `defaultTtlMs` (default 0 — revalidate
+   * every time) applies when the origin states no lifetime.
+   *
+   * With this set, remote sources are resolved before the deterministic
+   * ETag is built and their identifier includes a hash of the origin
+   * bytes, so the ETag and the derivative-cache key change when the
+   * origin's image does. Internal-host URLs are unaffected.
+   */
+  upstreamCache?: {
+    maxBytes: number;
+    defaultTtlMs?: number;
+  };
+  /**
+   * Opt into responsive images driven by Client Hints. Every response then
+   * advertises `Accept-CH` and `Critical-CH` for `Sec-CH-Width`,
+   * `Sec-CH-DPR` and `Sec-CH-Viewport-Width`. A request with neither
+   * `width` nor `height` in its query takes its width from `Sec-CH-Width`
+   * (physical pixels) or else `Sec-CH-Viewport-Width` (CSS pixels, scaled
+   * by `Sec-CH-DPR` unless `dpr` is in the query); a request without
+   * `quality` that sends `Save-Data: on` is encoded at `saveDataQuality`
+   * (default 50) when that is below `defaultQuality`. Hint-derived values
+   * feed the deterministic ETag like their query equivalents, and the
+   * hints consulted are listed in `Vary`. Ignored while `signingSecret` is
+   * set.
+   */
+  clientHints?: {
+    saveDataQuality?: number;
+  };
+  /**
+   * Require every request to carry a `signature` query parameter: an
+   * HMAC-SHA256 over all its other parameters, as produced by
+   * `signPixelUrl`. Checked before any parameter is parsed; a missing or
+   * non-matching signature fires `onError` with `phase: "signature"` and
+   * serves the fallback image without touching the source. Pass an array
+   * to rotate keys — a signature made with any listed secret is accepted.
+   * Client Hints are headers, not parameters, so they are not covered and
+   * are ignored while a secret is set.
+   */
+  signingSecret?: string | string[];
+  /**
+   * Named transformation presets, e.g.
+   * `{ thumb: { width: 320, height: 320, format: "webp", quality: 70 } }`.
+   * A request selects one with `preset=thumb`; its parameters are merged
+   * under the query's own (the query wins) before validation and clamping,
+   * so a preset is bound by the same limits as a hand-written URL. Names
+   * may use letters, digits, `_` and `-`; each preset is validated at
+   * `registerServe()`. An unknown `preset` fails validation.
+   */
+  presets?: Record<string, PixelServePreset>;
+  /**
+   * Lock requests to `presets`: every request must name a preset and may
+   * not set any transformation parameter (`width`, `height`, `format`,
+   * `quality`, `fit`, `enlarge`, `background`, `position`, `gravity`, `fx`,
+   * `fy`, `crop`, `dpr`) itself. Client Hints are ignored. Violations fail
+   * validation. Requires `presets`.
+   */
+  presetsOnly?: boolean;
+  /**
+   * Where request parameters are read from. `"query"` (the default) uses
+   * the query string. `"path"` reads them from the path below the mount
+   * point instead — `/w_300,h_200,f_webp/uploads/cat.jpg`, built with
+   * `buildPixelPath` — and ignores the query string entirely, which suits
+   * CDNs that drop or reorder query strings. Both schemes produce the same
+   * parameters, so validation, presets, signing and caching are unchanged.
+   * A malformed path fails validation.
+   */
+  urlScheme?: "query" | "path";
+  /**
+   * Accept another image service's parameter vocabulary, for URLs stored
+   * before a migration: `"imgix"` (`w`, `h`, `fm`, `q`, `fit=crop`,
+   * `crop=focalpoint`, `auto=format`, …) or `"cloudinary"` (`w`, `h`, `c`,
+   * `g`, `f`, `q`, …). Parameters are translated into native ones before
+   * validation; `src`, `folder`, `type`, `userId`, `signature`, `expires`
+   * and `preset` keep their native names. Anything without an equivalent
+   * is left out and reported to `onError` with `phase: "validation"`, and
+   * the request is served with the rest. With `urlScheme: "path"`, paths
+   * take the service's own shape. A signature covers the parameters as
+   * sent, before translation.
+   */
+  compat?: PixelServeCompat;
+  /**
+   * How failed requests are answered. `"fallback"` (the default) serves a
+   * `200` with the bundled placeholder image. `"status"` answers with the
+   * failure's `PixelServeErrorStatus` and a small
+   * `application/problem+json` body instead, so crawlers and CDN logs see
+   * broken links. `onError` fires exactly as in `"fallback"` mode;
+   * `onComplete` does not fire for these responses.
+   */
+  errorMode?: PixelServeErrorMode;
+  /**
+   * Replaces the bundled `noimage.jpg`/`noavatar.png` placeholders: an
+   * image per `type`, each an absolute file path or the image bytes, or a
+   * resolver picking one per failed request. Paths and buffers are checked
+   * at `registerServe()`. A fallback is resized and re-encoded to the
+   * requested size and format like any other image. Types left out, and
+   * resolvers returning `undefined`, keep the bundled placeholder. With a
+   * resolver, concurrent identical requests are not coalesced, so each
+   * gets its own fallback. Unused with `errorMode: "status"`.
+   */
+  fallbackImages?: PixelServeFallbackImages<TRequest>;
+  /**
+   * Generates fallback images instead of serving the bundled
+   * placeholders: a flat `background` rectangle at the requested
+   * width/height (or a default size for the type), encoded in the requested
+   * format, with an optional centred label. `{}` enables it with the
+   * defaults. A `fallbackImages` entry, where one resolves, still wins.
+   * Unused with `errorMode: "status"`.
+   */
+  placeholders?: PixelServePlaceholders;
+};
+
+/**
+ * Text drawn on a generated placeholder: `"dimensions"` (e.g. `640×480`),
+ * `"initials"` derived from `userId` (none without one), `"auto"` — the
+ * default — for initials on avatars and dimensions otherwise, or `false`
+ * for none.
+ */
+export type PixelServePlaceholderLabel =
+  | "auto"
+  | "dimensions"
+  | "initials"
+  | false;
+
+/** Appearance of the fallback images the `placeholders` option generates. */
+export type PixelServePlaceholders = {
+  /** Hex fill color. Defaults to `#e5e7eb`. */
+  background?: string;
+  /** Hex label color. Defaults to `#6b7280`. */
+  color?: string;
+  /** Defaults to `"auto"`. */
+  label?: PixelServePlaceholderLabel;
 };
 
+/**
+ * A custom fallback image: an absolute path to an image file, read when it
+ * is served, or the image bytes.
+ */
+export type PixelServeFallbackImage = string | Buffer;
+
+/**
+ * Picks the fallback image for a failed request. Receives the framework's
+ * request object (like `getUserFolder`), the requested image `type`, and
+ * the `onError` phase of the failure. May be async; it is awaited under
+ * `requestTimeoutMs`. A throw, a timeout, or an image that cannot be read
+ * is reported to `onError` with `phase: "fallback"` and the bundled
+ * placeholder is served instead.
+ */
+export type PixelServeFallbackResolver<TRequest = Request> = (
+  req: TRequest,
+  type: ImageType,
+  phase: PixelServeErrorPhase,
+) =>
+  | PixelServeFallbackImage
+  | undefined
+  | Promise<PixelServeFallbackImage | undefined>;
+
+/** Custom fallback images per `type`, or a resolver choosing them. */
+export type PixelServeFallbackImages<TRequest = Request> =
+  | Partial<Record<ImageType, PixelServeFallbackImage>>
+  | PixelServeFallbackResolver<TRequest>;
+
+/** Failure responses the `errorMode` option selects between. */
+export type PixelServeErrorMode = "fallback" | "status";
+
+/**
+ * HTTP statuses `errorMode: "status"` answers failed requests with:
+ *
+ * - `400` — invalid parameters, a malformed path, no `src`, or a crop
+ *           rectangle outside the source.
+ * - `403` — a disallowed host, protocol or local path, a host resolving
+ *           to a private address (or not resolving at all), a missing or
+ *           invalid signature, or an expired URL.
+ * - `404` — a missing local file, or an origin answering `404`/`410`.
+ * - `413` — a source larger than `maxDownloadBytes` or `maxInputPixels`.
+ * - `415` — an SVG source while `allowSvgInput` is off.
+ * - `500` — a source that could not be read or decoded.
+ * - `502` — an origin that failed, redirected badly, or sent no image.
+ * - `504` — an origin that did not answer within `requestTimeoutMs`.
+ */
+export type PixelServeErrorStatus =
+  | 400
+  | 403
+  | 404
+  | 413
+  | 415
+  | 500
+  | 502
+  | 504;
+
+/** Foreign parameter vocabularies the `compat` option understands. */
+export type PixelServeCompat = "imgix" | "cloudinary";
+
+/**
+ * Query parameters a named preset may set — the ones that shape the
+ * output rather than select the source.
+ */
+export type PixelServeTransformParam =
+  | "width"
+  | "height"
+  | "format"
+  | "quality"
+  | "fit"
+  | "enlarge"
+  | "background"
+  | "position"
+  | "gravity"
+  | "fx"
+  | "fy"
+  | "crop"
+  | "dpr";
+
+/** A named bundle of transformation parameters; see `presets`. */
+export type PixelServePreset = Partial<
+  Pick<UserData, PixelServeTransformParam>
+>;
+
 export type UserData = {
   src: string;
   quality?: number | string;
-  format?: ImageFormat;
+  /**
+   * Output format. `"auto"` picks AVIF, then WebP, from the request's
+   * `Accept` header, falling back to PNG for sources with an alpha channel
+   * and JPEG otherwise.
+   */
+  format?: ImageFormat | "auto";
   folder?: "public" | "private";
   type?: ImageType;
   userId?: string;
   width?: number | string;
   height?: number | string;
+  /** Resize fit mode. Defaults to `cover`. */
+  fit?: ImageFit;
+  /**
+   * Allow upscaling past the source's own dimensions. Defaults to `false`.
+   * Accepts `true`/`false`/`1`/`0` from a query string.
+   */
+  enlarge?: boolean | string;
+  /**
+   * Letterbox color for `fit=contain`, as 3/4/6/8-digit hex with or without
+   * a leading `#` (which must be percent-encoded in a URL).
+   */
+  background?: string;
+  /**
+   * Crop anchor for `fit=cover` (and placement for `fit=contain`). `centre`
+   * is accepted as a spelling of `center`. Ignored when `fx`/`fy` are given.
+   */
+  position?: ImagePosition | string;
+  /** Alias of `position`; `position` wins when both are sent. */
+  gravity?: ImagePosition | string;
+  /**
+   * Horizontal focal point as a fraction of the (auto-rotated) source width,
+   * `0` = left edge, `1` = right edge. A `fit=cover` crop is centered on
+   * the focal point as far as the image edges allow. Defaults to `0.5` when
+   * only `fy` is given.
+   */
+  fx?: number | string;
+  /** Vertical focal point as a fraction of the source height; see `fx`. */
+  fy?: number | string;
+  /**
+   * Source rectangle to cut out before resizing, as `x,y,w,h`. Each value is
+   * whole pixels (`10`) or a percentage of the source dimension (`12.5%`,
+   * percent-encoded as `12.5%25` in a URL); units may be mixed. A rectangle
+   * reaching past the source edges is rejected (`onError` phase
+   * `"validation"`, fallback image). Focal points and positions then apply
+   * to the cropped region.
+   */
+  crop?: string;
+  /**
+   * Device pixel ratio, `1`–`4` (decimals allowed). `width` and `height`
+   * are multiplied by it — after capping it to `maxDpr` — before they are
+   * clamped to the configured bounds, so `width=300&dpr=2` asks for 600
+   * physical pixels.
+   */
+  dpr?: number | string;
+  /** URL signature from `signPixelUrl`; see `signingSecret`. */
+  signature?: string;
+  /**
+   * Deadline as Unix epoch seconds. A request at or after it is rejected
+   * (`onError` phase `"expired"`, fallback image) before `idHandler` or
+   * `getUserFolder` run, and `Cache-Control` lifetimes on earlier responses
+   * are capped to the time left. Requires `signingSecret`, whose signature
+   * covers it like any other parameter; without one the request fails
+   * validation.
+   */
+  expires?: number | string;
+  /** Name of a configured preset to expand; see `presets`. */
+  preset?: string;
+};
+
+/**
+ * A request as the framework-agnostic core built by `createServeCore`
+ * sees it. Each adapter builds one from its framework's request object.
+ */
+export type PixelServeRequest<TRequest = unknown> = {
+  /** HTTP method, upper-case. */
+  method: string;
+  /**
+   * Path below the mount point, still percent-encoded
+   * (`/w_300/uploads/cat.jpg`). Only read when `urlScheme` is `"path"`.
+   */
+  path: string;
+  /** Parsed query string. Repeated or nested keys fail validation. */
+  query: Record<string, unknown>;
+  /** Request headers keyed by lower-case name, as `node:http` exposes them. */
+  headers: Record<string, string | string[] | undefined>;
+  /** The framework's own request object, handed to `getUserFolder`. */
+  raw: TRequest;
+};
+
+/**
+ * The response the core asks an adapter to send: `200` with an image or
+ * fallback body, `206` with the byte range a `Range` header selected, or
+ * `304`/`416` with an empty one. Header names are canonically cased. For
+ * a `HEAD` request the body is empty while `Content-Length` describes the
+ * `GET` body, so adapters must not recompute it.
+ */
+export type PixelServeResponse = {
+  status: number;
+  headers: Record<string, string>;
+  body: Buffer;
+};
+
+/**
+ * The core request handler returned by `createServeCore`. Resolves with
+ * the response to send; rejects only when even the bundled fallback image
+ * cannot be read, which adapters surface as their framework's error.
+ */
+export type PixelServeHandler<TRequest = unknown> = (
+  request: PixelServeRequest<TRequest>,
+) => Promise<PixelServeResponse>;
+
+/**
+ * Adapter-level settings for `createNodeHandler`, `createFetchHandler` and
+ * `pixelServeKoa`, whose request paths still include any prefix the
+ * handler is mounted under.
+ */
+export type PixelServeAdapterOptions = {
+  /**
+   * Path prefix the handler is mounted at (`/img`). It is stripped before
+   * `urlScheme: "path"` parses the rest; paths outside it are passed on
+   * whole. Defaults to the server root.
+   */
+  mountPath?: string;
 };
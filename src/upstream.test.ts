@@ -0,0 +1,243 @@
+import { createHash } from "node:crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  buildUpstreamEntry,
+  conditionalRequestHeaders,
+  createUpstreamCache,
+  isUpstreamFresh,
+  pickUpstreamHeaders,
+  revalidateUpstreamEntry,
+  upstreamFreshness,
+} from "./upstream";
+
+const NOW = 1_700_000_000_000;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("upstreamFreshness", () => {
+  it("refuses to store no-store and private responses", () => {
+    expect(
+      upstreamFreshness({ "cache-control": "no-store", etag: '"a"' }, NOW, 0),
+    ).toEqual({ storable: false, expiresAt: NOW });
+    expect(
+      upstreamFreshness({ "cache-control": "Private, max-age=60" }, NOW, 0)
+        .storable,
+    ).toBe(false);
+  });
+
+  it("stores no-cache responses with a validator but expires them at once", () => {
+    expect(
+      upstreamFreshness(
+        { "cache-control": "no-cache, max-age=600", etag: '"a"' },
+        NOW,
+        60_000,
+      ),
+    ).toEqual({ storable: true, expiresAt: NOW });
+  });
+
+  it("prefers s-maxage over max-age", () => {
+    expect(
+      upstreamFreshness(
+        { "cache-control": "max-age=10, s-maxage=100" },
+        NOW,
+        0,
+      ),
+    ).toEqual({ storable: true, expiresAt: NOW + 100_000 });
+  });
+
+  it("accepts quoted directive values", () => {
+    expect(
+      upstreamFreshness({ "cache-control": 'max-age="30"' }, NOW, 0).expiresAt,
+    ).toBe(NOW + 30_000);
+  });
+
+  it("derives the lifetime from Expires relative to Date", () => {
+    const date = new Date(NOW - 5_000).toUTCString();
+    const expires = new Date(NOW + 55_000).toUTCString();
+    expect(upstreamFreshness({ expires, date }, NOW, 0).expiresAt).toBe(
+      NOW + 60_000,
+    );
+    // Without a Date header, Expires is measured from now.
+    expect(upstreamFreshness({ expires }, NOW, 0).expiresAt).toBe(NOW + 55_000);
+  });
+
+  it("treats an unparseable Expires as already expired", () => {
+    expect(
+      upstreamFreshness({ expires: "0", "last-modified": "x" }, NOW, 60_000),
+    ).toEqual({ storable: true, expiresAt: NOW });
+  });
+
+  it("subtracts the Age the response already accumulated", () => {
+    expect(
+      upstreamFreshness({ "cache-control": "max-age=60", age: "20" }, NOW, 0)
+        .expiresAt,
+    ).toBe(NOW + 40_000);
+    expect(
+      upstreamFreshness({ "cache-control": "max-age=60", age: "90" }, NOW, 0),
+    ).toEqual({ storable: false, expiresAt: NOW });
+  });
+
+  it("falls back to defaultTtlMs when no lifetime is stated", () => {
+    expect(upstreamFreshness({}, NOW, 5_000)).toEqual({
+      storable: true,
+      expiresAt: NOW + 5_000,
+    });
+    expect(upstreamFreshness({ "cache-control": "public" }, NOW, 0)).toEqual({
+      storable: false,
+      expiresAt: NOW,
+    });
+  });
+
+  it("ignores malformed max-age values", () => {
+    expect(
+      upstreamFreshness({ "cache-control": "max-age=soon" }, NOW, 7_000)
+        .expiresAt,
+    ).toBe(NOW + 7_000);
+  });
+});
+
+describe("pickUpstreamHeaders / conditionalRequestHeaders", () => {
+  it("copies only the caching headers that are strings", () => {
+    expect(
+      pickUpstreamHeaders({
+        "cache-control": "max-age=1",
+        etag: '"v1"',
+        "content-type": "image/png",
+        age: 5,
+      }),
+    ).toEqual({ "cache-control": "max-age=1", etag: '"v1"' });
+    expect(pickUpstreamHeaders(undefined)).toEqual({});
+  });
+
+  it("builds If-None-Match and If-Modified-Since from the stored validators", () => {
+    const lastModified = "Tue, 01 Oct 2024 00:00:00 GMT";
+    const entry = buildUpstreamEntry(
+      Buffer.from("x"),
+      "https://a.test/x.png",
+      { etag: '"v1"', "last-modified": lastModified },
+      NOW,
+    );
+    expect(conditionalRequestHeaders(entry)).toEqual({
+      "If-None-Match": '"v1"',
+      "If-Modified-Since": lastModified,
+    });
+    expect(
+      conditionalRequestHeaders(
+        buildUpstreamEntry(Buffer.from("x"), "https://a.test/x.png", {}, NOW),
+      ),
+    ).toEqual({});
+  });
+});
+
+describe("buildUpstreamEntry / revalidateUpstreamEntry", () => {
+  it("versions the entry by the SHA-256 of its body and drops Age", () => {
+    const body = Buffer.from("origin-bytes");
+    const entry = buildUpstreamEntry(
+      body,
+      "https://a.test/x.png",
+      { etag: '"v1"', age: "3" },
+      NOW,
+    );
+    expect(entry.version).toBe(createHash("sha256").update(body).digest("hex"));
+    expect(entry.headers).toEqual({ etag: '"v1"' });
+  });
+
+  it("keeps the stored policy when a 304 omits Cache-Control", () => {
+    const entry = buildUpstreamEntry(
+      Buffer.from("x"),
+      "https://a.test/x.png",
+      { "cache-control": "max-age=60", etag: '"v1"' },
+      NOW,
+    );
+    const refreshed = revalidateUpstreamEntry(entry, { age: "10" }, NOW, 0);
+    expect(refreshed?.expiresAt).toBe(NOW + 50_000);
+    expect(refreshed?.headers).toEqual({
+      "cache-control": "max-age=60",
+      etag: '"v1"',
+    });
+    expect(refreshed?.version).toBe(entry.version);
+  });
+
+  it("adopts validators and policy carried by the 304", () => {
+    const entry = buildUpstreamEntry(
+      Buffer.from("x"),
+      "https://a.test/x.png",
+      { "cache-control": "max-age=60", etag: '"v1"' },
+      NOW,
+    );
+    const refreshed = revalidateUpstreamEntry(
+      entry,
+      { "cache-control": "max-age=5", etag: '"v2"' },
+      NOW,
+      0,
+    );
+    expect(refreshed?.expiresAt).toBe(NOW + 5_000);
+    expect(refreshed?.headers.etag).toBe('"v2"');
+  });
+
+  it("returns undefined when the 304 forbids storing", () => {
+    const entry = buildUpstreamEntry(
+      Buffer.from("x"),
+      "https://a.test/x.png",
+      { etag: '"v1"' },
+      NOW,
+    );
+    expect(
+      revalidateUpstreamEntry(entry, { "cache-control": "no-store" }, NOW, 0),
+    ).toBeUndefined();
+  });
+});
+
+describe("createUpstreamCache", () => {
+  const entry = (
+    bytes: number,
+    expiresAt = NOW,
+  ): ReturnType<typeof buildUpstreamEntry> =>
+    buildUpstreamEntry(
+      Buffer.alloc(bytes),
+      "https://a.test/x.png",
+      {},
+      expiresAt,
+    );
+
+  it("evicts least-recently-used entries by byte budget", () => {
+    const cache = createUpstreamCache({ maxBytes: 100 });
+    cache.set("a", entry(40));
+    cache.set("b", entry(40));
+    cache.get("a");
+    cache.set("c", entry(40));
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("a")).toBeDefined();
+    expect(cache.size()).toBe(80);
+  });
+
+  it("refuses a body larger than the budget and replaces keys in place", () => {
+    const cache = createUpstreamCache({ maxBytes: 50 });
+    cache.set("huge", entry(51));
+    expect(cache.get("huge")).toBeUndefined();
+    cache.set("a", entry(10));
+    cache.set("a", entry(30));
+    expect(cache.size()).toBe(30);
+    cache.delete("a");
+    cache.delete("a");
+    expect(cache.size()).toBe(0);
+  });
+
+  it("defaults defaultTtlMs to zero", () => {
+    expect(createUpstreamCache({ maxBytes: 1 }).defaultTtlMs).toBe(0);
+    expect(
+      createUpstreamCache({ maxBytes: 1, defaultTtlMs: 9 }).defaultTtlMs,
+    ).toBe(9);
+  });
+
+  it("keeps stale entries so they can be revalidated", () => {
+    vi.spyOn(Date, "now").mockReturnValue(NOW);
+    const cache = createUpstreamCache({ maxBytes: 100 });
+    cache.set("fresh", entry(1, NOW + 1));
+    cache.set("stale", entry(1, NOW));
+    expect(isUpstreamFresh(cache.get("fresh")!)).toBe(true);
+    expect(isUpstreamFresh(cache.get("stale")!)).toBe(false);
+  });
+});
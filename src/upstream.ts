@@ -0,0 +1,267 @@
+import { createHash } from "node:crypto";
+
+/**
+ * One cached origin response for a remote `src`. `url` is the final URL
+ * after redirects — the only URL the stored validators are meaningful for.
+ * `version` is a SHA-256 of `body`; it feeds the deterministic ETag so the
+ * ETag changes exactly when the origin bytes do, whatever validators (if
+ * any) the origin sends.
+ */
+export type UpstreamEntry = {
+  body: Buffer;
+  url: string;
+  /**
+   * The caching headers of the response that produced (or last
+   * revalidated) the entry, minus `Age`, which applies to one response
+   * only. Kept whole so a `304` that omits `Cache-Control` still
+   * inherits the original policy (RFC 9111 §4.3.4).
+   */
+  headers: UpstreamResponseHeaders;
+  /** Epoch ms after which the entry must be revalidated before use. */
+  expiresAt: number;
+  version: string;
+};
+
+/**
+ * Byte-bounded in-process store of fetched origin bodies, keyed on the
+ * requested `src`. Stale entries are kept (not dropped) so their validators
+ * can drive a conditional request; callers check `isUpstreamFresh` first.
+ */
+export type UpstreamCache = {
+  get: (src: string) => UpstreamEntry | undefined;
+  set: (src: string, entry: UpstreamEntry) => void;
+  delete: (src: string) => void;
+  /**
+   * Freshness lifetime applied to responses that state none (no
+   * `Cache-Control` lifetime and no `Expires`).
+   */
+  defaultTtlMs: number;
+  /** Total body bytes currently held; exposed for tests and metrics. */
+  size: () => number;
+};
+
+/**
+ * The subset of an origin response's headers that decides whether and for
+ * how long it may be reused. Header names are the lower-case keys axios
+ * produces.
+ */
+export type UpstreamResponseHeaders = {
+  "cache-control"?: string;
+  expires?: string;
+  date?: string;
+  age?: string;
+  etag?: string;
+  "last-modified"?: string;
+};
+
+const UPSTREAM_HEADER_NAMES = [
+  "cache-control",
+  "expires",
+  "date",
+  "age",
+  "etag",
+  "last-modified",
+] as const;
+
+/**
+ * Copies the caching headers out of an origin response's header bag,
+ * ignoring any that are absent or not plain strings.
+ */
+export const pickUpstreamHeaders = (
+  headers: Record<string, unknown> | undefined,
+): UpstreamResponseHeaders => {
+  const picked: UpstreamResponseHeaders = {};
+  for (const name of UPSTREAM_HEADER_NAMES) {
+    const value = headers?.[name];
+    if (typeof value === "string") picked[name] = value;
+  }
+  return picked;
+};
+
+/**
+ * Request headers that turn a refetch of a stale entry into a revalidation:
+ * the origin answers `304 Not Modified` (no body) when nothing changed.
+ */
+export const conditionalRequestHeaders = (
+  entry: UpstreamEntry,
+): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  if (entry.headers.etag) headers["If-None-Match"] = entry.headers.etag;
+  if (entry.headers["last-modified"]) {
+    headers["If-Modified-Since"] = entry.headers["last-modified"];
+  }
+  return headers;
+};
+
+/**
+ * Parses a `Cache-Control` header into a directive → value map. Directive
+ * names are lower-cased; valueless directives map to `""`, and quoted
+ * values are unquoted.
+ */
+const parseCacheControl = (header: string | undefined): Map<string, string> => {
+  const directives = new Map<string, string>();
+  if (!header) return directives;
+  for (const part of header.split(",")) {
+    const [rawName, ...rest] = part.split("=");
+    const name = rawName?.trim().toLowerCase();
+    if (!name) continue;
+    directives.set(
+      name,
+      rest
+        .join("=")
+        .trim()
+        .replace(/^"(.*)"$/, "$1"),
+    );
+  }
+  return directives;
+};
+
+const parseSeconds = (value: string | undefined): number | undefined => {
+  if (value === undefined || !/^\d+$/.test(value)) return undefined;
+  return Number(value);
+};
+
+/**
+ * Derives how a 200 (or a revalidating 304) from the origin may be cached,
+ * following RFC 9111 for a shared cache: `no-store` and `private` forbid
+ * storing; `no-cache` stores but forces revalidation on every use;
+ * otherwise the freshness lifetime is `s-maxage`, then `max-age`, then
+ * `Expires − Date`, less any `Age` the response already accumulated. When
+ * the origin states no lifetime at all, `defaultTtlMs` applies.
+ *
+ * A response with neither a positive lifetime nor a validator is reported
+ * as not storable — it could never be reused without a full refetch, so
+ * keeping its body would only waste the budget.
+ */
+export const upstreamFreshness = (
+  headers: UpstreamResponseHeaders,
+  now: number,
+  defaultTtlMs: number,
+): { storable: boolean; expiresAt: number } => {
+  const directives = parseCacheControl(headers["cache-control"]);
+  if (directives.has("no-store") || directives.has("private")) {
+    return { storable: false, expiresAt: now };
+  }
+  let lifetimeMs: number;
+  const maxAge =
+    parseSeconds(directives.get("s-maxage")) ??
+    parseSeconds(directives.get("max-age"));
+  if (directives.has("no-cache")) {
+    lifetimeMs = 0;
+  } else if (maxAge !== undefined) {
+    lifetimeMs = maxAge * 1000;
+  } else if (headers.expires !== undefined) {
+    const expires = Date.parse(headers.expires);
+    const date = headers.date ? Date.parse(headers.date) : now;
+    // An unparseable `Expires` (including the conventional "0") means
+    // "already expired" per RFC 9111 §5.3.
+    lifetimeMs =
+      Number.isNaN(expires) || Number.isNaN(date) ? 0 : expires - date;
+  } else {
+    lifetimeMs = defaultTtlMs;
+  }
+  lifetimeMs -= (parseSeconds(headers.age) ?? 0) * 1000;
+  const hasValidator =
+    headers.etag !== undefined || headers["last-modified"] !== undefined;
+  return {
+    storable: lifetimeMs > 0 || hasValidator,
+    expiresAt: now + Math.max(0, lifetimeMs),
+  };
+};
+
+/** `true` while `entry` may be served without contacting the origin. */
+export const isUpstreamFresh = (entry: UpstreamEntry): boolean =>
+  Date.now() < entry.expiresAt;
+
+const withoutAge = (
+  headers: UpstreamResponseHeaders,
+): UpstreamResponseHeaders => {
+  const copy = { ...headers };
+  delete copy.age;
+  return copy;
+};
+
+/**
+ * Builds a cache entry from an origin `200`.
+ */
+export const buildUpstreamEntry = (
+  body: Buffer,
+  url: string,
+  headers: UpstreamResponseHeaders,
+  expiresAt: number,
+): UpstreamEntry => {
+  return {
+    body,
+    url,
+    headers: withoutAge(headers),
+    expiresAt,
+    version: createHash("sha256").update(body).digest("hex"),
+  };
+};
+
+/**
+ * Folds a `304 Not Modified` into the entry it revalidated: headers the
+ * `304` carries replace the stored ones, the body and its version are
+ * unchanged. Returns `undefined` when the refreshed policy forbids keeping
+ * the entry at all.
+ */
+export const revalidateUpstreamEntry = (
+  entry: UpstreamEntry,
+  notModifiedHeaders: UpstreamResponseHeaders,
+  now: number,
+  defaultTtlMs: number,
+): UpstreamEntry | undefined => {
+  const merged = { ...entry.headers, ...notModifiedHeaders };
+  const { storable, expiresAt } = upstreamFreshness(merged, now, defaultTtlMs);
+  if (!storable) return undefined;
+  return { ...entry, headers: withoutAge(merged), expiresAt };
+};
+
+/**
+ * Creates the in-process store behind the `upstreamCache` option. Recency
+ * lives in the `Map`'s insertion order, exactly as in
+ * `createMemoryCacheStore`: a hit is re-inserted at the back and eviction
+ * removes from the front until the total body size fits `maxBytes`. A
+ * single body larger than the budget is never stored.
+ */
+export const createUpstreamCache = (options: {
+  maxBytes: number;
+  defaultTtlMs?: number;
+}): UpstreamCache => {
+  const entries = new Map<string, UpstreamEntry>();
+  let totalBytes = 0;
+
+  const remove = (src: string): void => {
+    const entry = entries.get(src);
+    if (!entry) return;
+    totalBytes -= entry.body.length;
+    entries.delete(src);
+  };
+
+  const get = (src: string): UpstreamEntry | undefined => {
+    const entry = entries.get(src);
+    if (!entry) return undefined;
+    entries.delete(src);
+    entries.set(src, entry);
+    return entry;
+  };
+
+  const set = (src: string, entry: UpstreamEntry): void => {
+    remove(src);
+    if (entry.body.length > options.maxBytes) return;
+    entries.set(src, entry);
+    totalBytes += entry.body.length;
+    for (const oldest of entries.keys()) {
+      if (totalBytes <= options.maxBytes) break;
+      remove(oldest);
+    }
+  };
+
+  return {
+    get,
+    set,
+    delete: remove,
+    defaultTtlMs: options.defaultTtlMs ?? 0,
+    size: () => totalBytes,
+  };
+};
@@ -1,4 +1,9 @@
-import type { ImageFormat } from "./types";
+import type {
+  ImageFit,
+  ImageFormat,
+  ImagePosition,
+  PixelServeTransformParam,
+} from "./types";
 import { readFile } from "node:fs/promises";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
@@ -36,6 +41,44 @@ export const allowedFormats: ImageFormat[] = [
   "avif",
 ];
 
+export const imageFits: ImageFit[] = [
+  "cover",
+  "contain",
+  "fill",
+  "inside",
+  "outside",
+];
+
+export const imagePositions: ImagePosition[] = [
+  "center",
+  "north",
+  "northeast",
+  "east",
+  "southeast",
+  "south",
+  "southwest",
+  "west",
+  "northwest",
+  "entropy",
+  "attention",
+];
+
+export const transformParams: PixelServeTransformParam[] = [
+  "width",
+  "height",
+  "format",
+  "quality",
+  "fit",
+  "enlarge",
+  "background",
+  "position",
+  "gravity",
+  "fx",
+  "fy",
+  "crop",
+  "dpr",
+];
+
 export const mimeTypes: Readonly<Record<string, string>> = {
   jpeg: "image/jpeg",
   jpg: "image/jpeg",
@@ -4,7 +4,13 @@ import { copyFile, mkdir } from "node:fs/promises";
 import { join } from "node:path";
 
 export default defineConfig({
-  entry: ["./src/index.ts"],
+  // The Fastify and Koa adapters are subpath entries so the root types
+  // never import those optional peers.
+  entry: {
+    index: "./src/index.ts",
+    fastify: "./src/fastify.ts",
+    koa: "./src/koa.ts",
+  },
   format: ["esm", "cjs"],
   dts: true,
   clean: true,